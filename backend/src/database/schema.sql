@@ -6,23 +6,61 @@ CREATE TABLE users (
     email VARCHAR(255) UNIQUE NOT NULL,
     password_hash VARCHAR(255) NOT NULL,
     name VARCHAR(255) NOT NULL,
-    gmail_refresh_token TEXT, -- For OAuth send-as-user functionality
-    gmail_access_token TEXT,
-    gmail_token_expires_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Mailboxes a user has connected to send from (send-as-user through Gmail OAuth or a Nylas grant)
+CREATE TABLE connected_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provider VARCHAR(20) NOT NULL, -- gmail or nylas
+    email VARCHAR(255) NOT NULL, -- Address of the mailbox, used as From
+    access_token TEXT, -- Gmail OAuth access token, or the Nylas grant ID; encrypted, see services/secretBox.ts
+    refresh_token TEXT, -- Gmail only; encrypted
+    token_expires_at TIMESTAMP, -- Gmail only
+    is_default BOOLEAN NOT NULL DEFAULT false, -- Sends that do not pick an account go through this one
+    replies_synced_at TIMESTAMP, -- Nylas only: messages received before this were already checked for replies
+    replies_sync_before TIMESTAMP, -- Nylas only: set while a sync is unfinished; messages received from replies_synced_at up to this are still unchecked
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, provider, email)
+);
+
 -- Notes table
 CREATE TABLE notes (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     title VARCHAR(255) NOT NULL,
     content TEXT NOT NULL, -- Markdown content
+    source JSONB, -- Provenance of a note saved from an email: provider, message_id, from, subject, date
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Handlebars partials and layouts shared by a user's templates
+CREATE TABLE template_partials (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL, -- Partials are included as {{> name}}
+    kind VARCHAR(20) NOT NULL DEFAULT 'partial', -- partial or layout (wraps a template body placed at {{{body}}})
+    content TEXT NOT NULL,
+    version INTEGER DEFAULT 1,
+    deleted_at TIMESTAMP, -- Deleted partials are kept so emails sent with them can still be rendered as sent
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Earlier contents of partials and layouts
+CREATE TABLE template_partial_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    partial_id UUID NOT NULL REFERENCES template_partials(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(partial_id, version)
+);
+
 -- Email templates table with versioning
 CREATE TABLE email_templates (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -33,6 +71,8 @@ CREATE TABLE email_templates (
     variables JSONB DEFAULT '[]', -- Array of variable names for hints
     version INTEGER DEFAULT 1,
     is_active BOOLEAN DEFAULT true,
+    track_engagement BOOLEAN DEFAULT false, -- Default for open/click tracking of sends using this template
+    layout_id UUID REFERENCES template_partials(id) ON DELETE SET NULL, -- Layout the body is rendered into
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -49,6 +89,80 @@ CREATE TABLE email_template_versions (
     UNIQUE(template_id, version)
 );
 
+-- Contacts table (address book; fields become per-recipient template variables)
+CREATE TABLE contacts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL, -- Stored lowercased
+    first_name VARCHAR(255),
+    last_name VARCHAR(255),
+    company VARCHAR(255),
+    fields JSONB DEFAULT '{}', -- Extra variables, e.g. imported CSV columns
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, email)
+);
+
+-- Named recipient lists
+CREATE TABLE contact_lists (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, name)
+);
+
+CREATE TABLE contact_list_members (
+    list_id UUID NOT NULL REFERENCES contact_lists(id) ON DELETE CASCADE,
+    contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+    added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (list_id, contact_id)
+);
+
+-- Suppression list (addresses that must not be emailed again)
+CREATE TABLE suppressions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL, -- Stored lowercased
+    reason VARCHAR(50) NOT NULL, -- unsubscribe, manual, import, bounce, complaint
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, email)
+);
+
+-- SMTP servers a user can send through, each with its own From address
+CREATE TABLE sender_identities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL, -- Label shown when picking a sender
+    from_name VARCHAR(255),
+    from_email VARCHAR(255) NOT NULL,
+    host VARCHAR(255) NOT NULL,
+    port INTEGER NOT NULL,
+    tls_mode VARCHAR(20) NOT NULL DEFAULT 'starttls', -- tls (implicit), starttls or none
+    username VARCHAR(255),
+    password_encrypted TEXT, -- See services/secretBox.ts
+    verified_at TIMESTAMP, -- Last successful test connection; unverified identities cannot send
+    last_error TEXT, -- Error of the last failed test connection
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Campaigns table (bulk mail-merge sends)
+CREATE TABLE campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+    template_id UUID NOT NULL REFERENCES email_templates(id) ON DELETE CASCADE,
+    contact_list_id UUID REFERENCES contact_lists(id) ON DELETE SET NULL, -- Set when sent to a contact list
+    name VARCHAR(255) NOT NULL,
+    idempotency_key VARCHAR(255) NOT NULL, -- Unique per user; its emails' keys are namespaced by the campaign id
+    recipient_count INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, idempotency_key)
+);
+
 -- Sent emails table for idempotency and tracking
 CREATE TABLE sent_emails (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -56,27 +170,162 @@ CREATE TABLE sent_emails (
     note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
     template_id UUID NOT NULL REFERENCES email_templates(id) ON DELETE CASCADE,
     template_version INTEGER NOT NULL,
+    layout_id UUID REFERENCES template_partials(id) ON DELETE SET NULL, -- Layout the template used then, as which one it uses is not versioned
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+    merge_variables JSONB, -- Per-recipient CSV columns used to render a campaign email
     idempotency_key VARCHAR(255) UNIQUE NOT NULL, -- For preventing duplicate sends
     recipients TEXT[] NOT NULL, -- Array of email addresses
+    cc TEXT[] DEFAULT '{}',
+    bcc TEXT[] DEFAULT '{}',
+    reply_to VARCHAR(255),
     subject VARCHAR(500) NOT NULL,
     body_html TEXT NOT NULL,
     body_text TEXT,
-    status VARCHAR(50) DEFAULT 'pending', -- pending, sent, failed
+    status VARCHAR(50) DEFAULT 'pending', -- scheduled, pending, sent, partial, bounced, failed, dead, cancelled, suppressed; derived from sent_email_recipients once delivery starts
     error_message TEXT,
+    error_class VARCHAR(20), -- transient (retried) or permanent
+    attempt_count INTEGER DEFAULT 0,
+    next_attempt_at TIMESTAMP, -- When the worker will retry a transient failure
     provider_message_id VARCHAR(255), -- ID from email provider
+    provider_thread_id VARCHAR(255), -- Thread ID from providers that assign one (Nylas)
+    transport VARCHAR(50), -- Mail transport used for the first attempt, reused on retries
+    connected_account_id UUID REFERENCES connected_accounts(id) ON DELETE SET NULL, -- Mailbox the email is sent from
+    sender_identity_id UUID, -- Send through this SMTP identity instead of the user's account; no foreign key, so the id outlives a deleted identity and delivery fails instead of falling back to the account
+    send_at TIMESTAMP, -- When a scheduled email is released to the queue
+    suppressed_recipients TEXT[] DEFAULT '{}', -- Recipients skipped because they opted out
+    track_engagement BOOLEAN DEFAULT false, -- Add an open pixel and click redirects at delivery
+    in_reply_to_id UUID REFERENCES sent_emails(id) ON DELETE SET NULL, -- Earlier send this one follows up on
+    thread_id UUID NOT NULL DEFAULT gen_random_uuid(), -- Shared by a send and all its follow-ups
+    sent_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Delivery status of each address of a sent email
+CREATE TABLE sent_email_recipients (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sent_email_id UUID NOT NULL REFERENCES sent_emails(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    kind VARCHAR(10) NOT NULL, -- to, cc, bcc
+    status VARCHAR(50) DEFAULT 'pending', -- pending, sent, bounced, failed, dead, suppressed
+    provider_message_id VARCHAR(255),
+    error_message TEXT,
+    error_class VARCHAR(20),
     sent_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(sent_email_id, kind, email)
+);
+
+-- Delivery events reported by provider webhooks after a message was handed over
+CREATE TABLE email_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sent_email_id UUID NOT NULL REFERENCES sent_emails(id) ON DELETE CASCADE,
+    recipient_id UUID REFERENCES sent_email_recipients(id) ON DELETE SET NULL,
+    provider VARCHAR(50) NOT NULL, -- nylas, generic, tracking
+    provider_event_id VARCHAR(255), -- Used to ignore redelivered webhooks
+    event_type VARCHAR(50) NOT NULL, -- delivered, deferred, bounced, complained, opened, clicked
+    bounce_type VARCHAR(20), -- hard or soft, for bounced events
+    email VARCHAR(255), -- Recipient the event is about, when known
+    url TEXT, -- Link followed, for clicked events
+    description TEXT,
+    payload JSONB,
+    occurred_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(provider, provider_event_id)
+);
+
+-- Replies to sent emails found in the user's mailbox by the reply sync
+CREATE TABLE received_replies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    sent_email_id UUID NOT NULL REFERENCES sent_emails(id) ON DELETE CASCADE,
+    provider VARCHAR(50) NOT NULL, -- nylas
+    provider_message_id VARCHAR(255) NOT NULL,
+    provider_thread_id VARCHAR(255),
+    from_email VARCHAR(255),
+    from_name VARCHAR(255),
+    subject VARCHAR(500),
+    snippet TEXT,
+    body_html TEXT, -- Sanitized
+    body_text TEXT,
+    received_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, provider, provider_message_id)
+);
+
+-- Outbound delivery queue drained by the email worker (src/worker.ts)
+CREATE TABLE email_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sent_email_id UUID NOT NULL REFERENCES sent_emails(id) ON DELETE CASCADE,
+    transport VARCHAR(50), -- Explicit transport override for this job
+    status VARCHAR(50) DEFAULT 'queued', -- queued, running, done, failed
+    run_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP,
+    locked_by VARCHAR(255),
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- One row per delivery attempt of a sent email
+CREATE TABLE email_delivery_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sent_email_id UUID NOT NULL REFERENCES sent_emails(id) ON DELETE CASCADE,
+    transport VARCHAR(50),
+    success BOOLEAN NOT NULL,
+    provider_message_id VARCHAR(255),
+    error_message TEXT,
+    error_class VARCHAR(20),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Uploaded files, linked to a sent email once a send uses them
+CREATE TABLE email_attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    sent_email_id UUID REFERENCES sent_emails(id) ON DELETE CASCADE,
+    filename VARCHAR(255) NOT NULL,
+    content_type VARCHAR(255) NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    storage_driver VARCHAR(50) NOT NULL,
+    storage_key VARCHAR(500) NOT NULL,
+    content_id VARCHAR(255), -- Set for inline images referenced as cid: in body_html
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Indexes for performance
+CREATE INDEX idx_connected_accounts_user_id ON connected_accounts(user_id);
+CREATE UNIQUE INDEX idx_connected_accounts_default ON connected_accounts(user_id) WHERE is_default;
 CREATE INDEX idx_notes_user_id ON notes(user_id);
 CREATE INDEX idx_notes_created_at ON notes(created_at DESC);
+CREATE UNIQUE INDEX idx_notes_source_message ON notes(user_id, (source->>'provider'), (source->>'message_id')) WHERE source IS NOT NULL;
 CREATE INDEX idx_email_templates_user_id ON email_templates(user_id);
 CREATE INDEX idx_email_templates_active ON email_templates(user_id, is_active);
+CREATE INDEX idx_template_partials_user_id ON template_partials(user_id);
+CREATE UNIQUE INDEX idx_template_partials_name ON template_partials(user_id, name) WHERE deleted_at IS NULL;
 CREATE INDEX idx_sent_emails_user_id ON sent_emails(user_id);
 CREATE INDEX idx_sent_emails_idempotency ON sent_emails(idempotency_key);
 CREATE INDEX idx_sent_emails_status ON sent_emails(status);
+CREATE INDEX idx_sent_emails_scheduled ON sent_emails(send_at) WHERE status = 'scheduled';
+CREATE INDEX idx_sent_emails_campaign_id ON sent_emails(campaign_id);
+CREATE INDEX idx_sent_emails_thread_id ON sent_emails(thread_id);
+CREATE INDEX idx_sent_email_recipients_sent_email_id ON sent_email_recipients(sent_email_id);
+CREATE INDEX idx_sent_email_recipients_provider_message_id ON sent_email_recipients(provider_message_id);
+CREATE INDEX idx_sent_emails_provider_message_id ON sent_emails(provider_message_id);
+CREATE INDEX idx_email_events_sent_email_id ON email_events(sent_email_id, occurred_at);
+CREATE INDEX idx_received_replies_sent_email_id ON received_replies(sent_email_id, received_at);
+CREATE INDEX idx_sent_emails_provider_thread_id ON sent_emails(provider_thread_id);
+CREATE INDEX idx_sender_identities_user_id ON sender_identities(user_id);
+CREATE INDEX idx_campaigns_user_id ON campaigns(user_id, created_at DESC);
+CREATE INDEX idx_contact_lists_user_id ON contact_lists(user_id);
+CREATE INDEX idx_contact_list_members_contact_id ON contact_list_members(contact_id);
+CREATE INDEX idx_email_jobs_due ON email_jobs(status, run_at);
+CREATE INDEX idx_email_jobs_sent_email_id ON email_jobs(sent_email_id);
+CREATE INDEX idx_email_attachments_sent_email_id ON email_attachments(sent_email_id);
+CREATE INDEX idx_email_attachments_user_id ON email_attachments(user_id);
+CREATE INDEX idx_email_delivery_attempts_sent_email_id ON email_delivery_attempts(sent_email_id, created_at);
 
 -- Trigger to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -88,9 +337,16 @@ END;
 $$ language 'plpgsql';
 
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_connected_accounts_updated_at BEFORE UPDATE ON connected_accounts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_notes_updated_at BEFORE UPDATE ON notes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_email_templates_updated_at BEFORE UPDATE ON email_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_sent_emails_updated_at BEFORE UPDATE ON sent_emails FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sent_email_recipients_updated_at BEFORE UPDATE ON sent_email_recipients FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_email_jobs_updated_at BEFORE UPDATE ON email_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_contacts_updated_at BEFORE UPDATE ON contacts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sender_identities_updated_at BEFORE UPDATE ON sender_identities FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_contact_lists_updated_at BEFORE UPDATE ON contact_lists FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_template_partials_updated_at BEFORE UPDATE ON template_partials FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Function to create template version when template is updated
 CREATE OR REPLACE FUNCTION create_template_version()
@@ -113,6 +369,25 @@ CREATE TRIGGER create_template_version_trigger
     BEFORE UPDATE ON email_templates 
     FOR EACH ROW EXECUTE FUNCTION create_template_version();
 
+-- Same for partials and layouts
+CREATE OR REPLACE FUNCTION create_partial_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.content != NEW.content THEN
+        INSERT INTO template_partial_versions (partial_id, version, content, created_at)
+        VALUES (OLD.id, OLD.version, OLD.content, OLD.updated_at);
+
+        NEW.version = OLD.version + 1;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER create_partial_version_trigger
+    BEFORE UPDATE ON template_partials
+    FOR EACH ROW EXECUTE FUNCTION create_partial_version();
+
 -- Insert demo user
 INSERT INTO users (email, password_hash, name) VALUES 
 ('demo@example.com', '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi', 'Demo User');
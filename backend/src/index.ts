@@ -3,15 +3,31 @@ import cors from "cors"
 import helmet from "helmet"
 import dotenv from "dotenv"
 import { generalLimiter } from "./middleware/rateLimiter"
+import { WebhookRequest } from "./types"
 
 // Import routes
 import authRoutes from "./routes/auth"
 import nylasAuthRoutes from "./routes/nylasAuth"
+import accountsRoutes from "./routes/accounts"
 import notesRoutes from "./routes/notes"
 import templatesRoutes from "./routes/templates"
 import emailsRoutes from "./routes/emails"
+import attachmentsRoutes from "./routes/attachments"
+import campaignsRoutes from "./routes/campaigns"
+import contactsRoutes from "./routes/contacts"
+import contactListsRoutes from "./routes/contactLists"
+import suppressionsRoutes from "./routes/suppressions"
+import senderIdentitiesRoutes from "./routes/senderIdentities"
+import partialsRoutes from "./routes/partials"
+import unsubscribeRoutes from "./routes/unsubscribe"
+import webhooksRoutes from "./routes/webhooks"
+import trackingRoutes from "./routes/tracking"
+import { assertEncryptionKey } from "./services/secretBox"
+import { assertLinkSecret } from "./services/signedLinks"
 
 dotenv.config()
+assertLinkSecret()
+assertEncryptionKey()
 
 const app = express()
 const PORT = process.env.PORT || 3001
@@ -27,8 +43,21 @@ app.use(
     credentials: true,
   })
 )
-app.use(express.json({ limit: "10mb" }))
+app.use(
+  express.json({
+    limit: "10mb",
+    // Webhook signatures are computed over the exact bytes received
+    verify: (req: WebhookRequest, res, buf) => {
+      req.rawBody = buf
+    },
+  })
+)
 app.use(express.urlencoded({ extended: true }))
+
+// Provider webhooks arrive in bursts from a few addresses, so they are
+// mounted ahead of the general rate limit
+app.use("/api/webhooks", webhooksRoutes)
+
 app.use(generalLimiter)
 
 // Health check
@@ -88,12 +117,26 @@ app.get("/auth/nylas/callback", (req, res) => {
   res.status(400).json({ success: false, error: "Missing authorization code" })
 })
 
+// Public unsubscribe pages linked from sent mail
+app.use("/unsubscribe", unsubscribeRoutes)
+
+// Open pixel and click redirects of emails sent with tracking on
+app.use("/track", trackingRoutes)
+
 // Routes
 app.use("/api/auth", authRoutes)
 app.use("/api/auth", nylasAuthRoutes)
+app.use("/api/accounts", accountsRoutes)
 app.use("/api/notes", notesRoutes)
 app.use("/api/templates", templatesRoutes)
+app.use("/api/partials", partialsRoutes)
 app.use("/api/emails", emailsRoutes)
+app.use("/api/attachments", attachmentsRoutes)
+app.use("/api/campaigns", campaignsRoutes)
+app.use("/api/contacts", contactsRoutes)
+app.use("/api/contact-lists", contactListsRoutes)
+app.use("/api/suppressions", suppressionsRoutes)
+app.use("/api/sender-identities", senderIdentitiesRoutes)
 
 // Error handling middleware
 app.use(
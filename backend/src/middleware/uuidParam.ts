@@ -0,0 +1,12 @@
+import { Request, Response, NextFunction } from 'express';
+import { isUuid } from '../services/uuid';
+
+// For router.param: an id that is not a UUID matches no row, so it is answered
+// with the route's 404 instead of failing the query's uuid comparison
+export const uuidParam = (notFoundError: string) =>
+  (req: Request, res: Response, next: NextFunction, value: string) => {
+    if (!isUuid(value)) {
+      return res.status(404).json({ success: false, error: notFoundError });
+    }
+    next();
+  };
@@ -0,0 +1,85 @@
+import dotenv from "dotenv"
+import pool from "./database/connection"
+import {
+  currentKeyId,
+  encryptSecret,
+  isEncrypted,
+  rewrapSecret,
+} from "./services/secretBox"
+
+dotenv.config()
+
+// Every column holding provider credentials, as written by encryptSecret
+const ENCRYPTED_COLUMNS = [
+  { table: "connected_accounts", column: "access_token" },
+  { table: "connected_accounts", column: "refresh_token" },
+  { table: "sender_identities", column: "password_encrypted" },
+]
+
+/**
+ * Re-encrypt stored credentials under the first key of ENCRYPTION_KEYS, so
+ * older keys can be dropped from the configuration afterwards. Values still
+ * in plain text from before encryption are encrypted as well. Tokens left
+ * on users from before connected accounts are reported as a failure.
+ */
+const rotate = async (): Promise<number> => {
+  const prefix = `v2:${currentKeyId()}:`
+  let failed = 0
+
+  for (const { table, column } of ENCRYPTED_COLUMNS) {
+    const result = await pool.query(
+      `SELECT id, ${column} AS value FROM ${table}
+       WHERE ${column} IS NOT NULL AND left(${column}, length($1)) <> $1`,
+      [prefix]
+    )
+    let rotated = 0
+
+    for (const row of result.rows) {
+      try {
+        const value = isEncrypted(row.value) ? rewrapSecret(row.value) : encryptSecret(row.value)
+        if (!value) {
+          continue
+        }
+
+        // Skipped when the value changed meanwhile (a refreshed token is already current)
+        const updated = await pool.query(
+          `UPDATE ${table} SET ${column} = $2 WHERE id = $1 AND ${column} = $3`,
+          [row.id, value, row.value]
+        )
+        rotated += updated.rowCount || 0
+      } catch (error) {
+        failed++
+        console.error(`Could not re-encrypt ${table}.${column} of ${row.id}:`, error)
+      }
+    }
+
+    console.log(`${table}.${column}: re-encrypted ${rotated} of ${result.rows.length}`)
+  }
+
+  // Plain-text tokens on users predate connected_accounts; upgrade-accounts moves and clears them
+  const legacy = await pool.query(
+    `SELECT column_name FROM information_schema.columns
+     WHERE table_name = 'users' AND column_name IN ('gmail_refresh_token', 'gmail_access_token', 'nylas_access_token')`
+  )
+  for (const { column_name: column } of legacy.rows) {
+    const count = await pool.query(`SELECT COUNT(*)::int AS count FROM users WHERE ${column} IS NOT NULL`)
+    if (count.rows[0].count > 0) {
+      failed++
+      console.error(
+        `users.${column}: ${count.rows[0].count} plain-text values; run npm run upgrade-accounts to encrypt them or reconnect those mailboxes`
+      )
+    }
+  }
+
+  return failed
+}
+
+rotate()
+  .then((failed) => {
+    process.exitCode = failed > 0 ? 1 : 0
+  })
+  .catch((error) => {
+    console.error("Key rotation error:", error)
+    process.exitCode = 1
+  })
+  .finally(() => pool.end())
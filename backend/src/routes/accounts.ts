@@ -0,0 +1,66 @@
+import express from "express"
+import { authenticateToken } from "../middleware/auth"
+import { uuidParam } from "../middleware/uuidParam"
+import { AuthRequest } from "../types"
+import { NylasEmailService } from "../services/nylasEmailService"
+import {
+  ConnectedAccountService,
+  nylasGrant,
+  toPublicAccount,
+} from "../services/connectedAccountService"
+
+const router = express.Router()
+router.param("id", uuidParam("Connected account not found"))
+
+const nylasService = new NylasEmailService()
+const accountService = new ConnectedAccountService()
+
+// List the mailboxes the user has connected, default first
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const accounts = await accountService.list(req.user!.id)
+
+    res.json({ success: true, data: accounts.map(toPublicAccount) })
+  } catch (error) {
+    console.error("Get connected accounts error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch connected accounts" })
+  }
+})
+
+// Make an account the one sends use when none is picked
+router.post("/:id/default", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const account = await accountService.setDefault(req.user!.id, req.params.id)
+
+    if (!account) {
+      return res.status(404).json({ success: false, error: "Connected account not found" })
+    }
+
+    res.json({ success: true, data: toPublicAccount(account) })
+  } catch (error) {
+    console.error("Set default account error:", error)
+    res.status(500).json({ success: false, error: "Failed to set default account" })
+  }
+})
+
+// Disconnect an account, revoking its Nylas grant
+router.delete("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const account = await accountService.disconnect(req.user!.id, req.params.id)
+
+    if (!account) {
+      return res.status(404).json({ success: false, error: "Connected account not found" })
+    }
+
+    if (account.provider === "nylas" && account.access_token) {
+      await nylasService.revokeGrant(nylasGrant(account))
+    }
+
+    res.json({ success: true, message: "Account disconnected" })
+  } catch (error) {
+    console.error("Disconnect account error:", error)
+    res.status(500).json({ success: false, error: "Failed to disconnect account" })
+  }
+})
+
+export default router
@@ -0,0 +1,130 @@
+import express from "express"
+import multer from "multer"
+import { authenticateToken } from "../middleware/auth"
+import { uuidParam } from "../middleware/uuidParam"
+import { AuthRequest } from "../types"
+import {
+  AttachmentService,
+  ATTACHMENT_MAX_BYTES,
+  ALLOWED_ATTACHMENT_TYPES,
+} from "../services/attachmentService"
+
+const router = express.Router()
+router.param("id", uuidParam("Attachment not found"))
+
+const attachmentService = new AttachmentService()
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ATTACHMENT_MAX_BYTES, files: 10 },
+  fileFilter: (req, file, cb) => {
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype)) {
+      return cb(new Error(`File type ${file.mimetype} is not allowed`))
+    }
+    cb(null, true)
+  },
+})
+
+// Turn multer limit and file type errors into 400 responses
+const uploadFiles: express.RequestHandler = (req, res, next) => {
+  upload.array("files")(req, res, (err: any) => {
+    if (err) {
+      const error =
+        err.code === "LIMIT_FILE_SIZE"
+          ? `Files must be smaller than ${Math.round(
+              ATTACHMENT_MAX_BYTES / 1024 / 1024
+            )}MB`
+          : err.message
+      return res.status(400).json({ success: false, error })
+    }
+    next()
+  })
+}
+
+// Upload attachments
+router.post(
+  "/",
+  authenticateToken,
+  uploadFiles,
+  async (req: AuthRequest, res) => {
+    try {
+      const files = (req.files as Express.Multer.File[]) || []
+
+      if (files.length === 0) {
+        return res
+          .status(400)
+          .json({ success: false, error: "At least one file is required" })
+      }
+
+      const attachments = []
+      for (const file of files) {
+        attachments.push(await attachmentService.create(req.user!.id, file))
+      }
+
+      res.status(201).json({
+        success: true,
+        data: attachments,
+      })
+    } catch (error) {
+      console.error("Upload attachment error:", error)
+      res
+        .status(500)
+        .json({ success: false, error: "Failed to upload attachments" })
+    }
+  }
+)
+
+// Download attachment
+router.get("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const attachment = await attachmentService.getForUser(
+      req.params.id,
+      req.user!.id
+    )
+
+    if (!attachment) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Attachment not found" })
+    }
+
+    const content = await attachmentService.readContent(attachment)
+
+    res.attachment(attachment.filename)
+    res.type(attachment.content_type)
+    res.send(content)
+  } catch (error) {
+    console.error("Download attachment error:", error)
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to download attachment" })
+  }
+})
+
+// Remove an attachment that has not been sent yet
+router.delete("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const deleted = await attachmentService.deleteUnsent(
+      req.params.id,
+      req.user!.id
+    )
+
+    if (!deleted) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Unsent attachment not found" })
+    }
+
+    res.json({
+      success: true,
+      message: "Attachment deleted successfully",
+    })
+  } catch (error) {
+    console.error("Delete attachment error:", error)
+    res
+      .status(500)
+      .json({ success: false, error: "Failed to delete attachment" })
+  }
+})
+
+export default router
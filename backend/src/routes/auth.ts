@@ -3,11 +3,13 @@ import bcrypt from "bcryptjs"
 import jwt from "jsonwebtoken"
 import pool from "../database/connection"
 import { EmailService } from "../services/emailService"
+import { ConnectedAccountService } from "../services/connectedAccountService"
 import { authenticateToken } from "../middleware/auth"
 import { AuthRequest } from "../types"
 
 const router = express.Router()
 const emailService = new EmailService()
+const accountService = new ConnectedAccountService()
 
 // Login
 router.post("/login", async (req, res) => {
@@ -51,7 +53,6 @@ router.post("/login", async (req, res) => {
           id: user.id,
           email: user.email,
           name: user.name,
-          has_gmail_auth: !!user.gmail_refresh_token,
         },
       },
     })
@@ -106,7 +107,6 @@ router.post("/register", async (req, res) => {
           id: user.id,
           email: user.email,
           name: user.name,
-          has_gmail_auth: false,
         },
       },
     })
@@ -148,19 +148,22 @@ router.post(
       }
 
       const tokens = await emailService.exchangeCodeForTokens(code)
+      const email = await emailService.getAccountEmail(tokens.access_token)
+
+      // Connecting the same mailbox again refreshes its tokens
+      const account = await accountService.connect(req.user!.id, {
+        provider: "gmail",
+        email,
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        expiresAt: tokens.expires_at,
+      })
 
-      // Store tokens in database
-      await pool.query(
-        "UPDATE users SET gmail_refresh_token = $1, gmail_access_token = $2, gmail_token_expires_at = $3 WHERE id = $4",
-        [
-          tokens.refresh_token,
-          tokens.access_token,
-          tokens.expires_at,
-          req.user!.id,
-        ]
-      )
-
-      res.json({ success: true, message: "Gmail authorization successful" })
+      res.json({
+        success: true,
+        message: "Gmail authorization successful",
+        data: { account_id: account.id, account_email: account.email },
+      })
     } catch (error) {
       console.error("Gmail callback error:", error)
       res
@@ -173,30 +176,4 @@ router.post(
   }
 )
 
-// Check Gmail auth status
-router.get(
-  "/gmail/status",
-  authenticateToken,
-  async (req: AuthRequest, res) => {
-    try {
-      const result = await pool.query(
-        "SELECT gmail_refresh_token IS NOT NULL as has_gmail_auth FROM users WHERE id = $1",
-        [req.user!.id]
-      )
-
-      res.json({
-        success: true,
-        data: {
-          has_gmail_auth: false,
-        },
-      })
-    } catch (error) {
-      console.error("Gmail status error:", error)
-      res
-        .status(500)
-        .json({ success: false, error: "Failed to check Gmail status" })
-    }
-  }
-)
-
 export default router
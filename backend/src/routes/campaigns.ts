@@ -0,0 +1,516 @@
+import express from "express"
+import { v4 as uuidv4 } from "uuid"
+import pool from "../database/connection"
+import { authenticateToken } from "../middleware/auth"
+import { uuidParam } from "../middleware/uuidParam"
+import { emailSendLimiter } from "../middleware/rateLimiter"
+import { AuthRequest, BulkSendRequest, MergeRow } from "../types"
+import { TemplateEngine, missingVariablesMessage } from "../services/templateEngine"
+import { EmailQueue } from "../services/emailQueue"
+import { parseSendAt } from "../services/emailScheduler"
+import { parseCsv } from "../services/csvParser"
+import { ContactService, contactVariables } from "../services/contactService"
+import { SuppressionService } from "../services/suppressionService"
+import { RecipientService } from "../services/recipientService"
+import { SenderIdentityService } from "../services/senderIdentityService"
+import { ConnectedAccountService } from "../services/connectedAccountService"
+import { TemplatePartialService } from "../services/templatePartialService"
+import { frontMatterErrorMessage } from "../services/frontMatter"
+import { isUuid } from "../services/uuid"
+
+const router = express.Router()
+router.param("id", uuidParam("Campaign not found"))
+
+const templateEngine = new TemplateEngine()
+const emailQueue = new EmailQueue()
+const contactService = new ContactService()
+const suppressionService = new SuppressionService()
+const recipientService = new RecipientService()
+const senderIdentityService = new SenderIdentityService()
+const accountService = new ConnectedAccountService()
+const partialService = new TemplatePartialService(templateEngine)
+
+const CAMPAIGN_MAX_RECIPIENTS = parseInt(
+  process.env.CAMPAIGN_MAX_RECIPIENTS || "500"
+)
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// Turn a CSV row into template variables, renaming columns per column_map
+const mergeVariables = (
+  row: MergeRow,
+  columnMap?: Record<string, string>
+): Record<string, string> => {
+  if (!columnMap) {
+    return { ...row }
+  }
+
+  const variables: Record<string, string> = {}
+  Object.entries(columnMap).forEach(([column, variable]) => {
+    if (variable) {
+      variables[variable] = row[column] ?? ""
+    }
+  })
+  return variables
+}
+
+const loadNoteAndTemplate = async (
+  userId: string,
+  noteId: string,
+  templateId: string
+) => {
+  // Ids that are not UUIDs match nothing
+  const none = { rows: [] }
+  const [templateResult, noteResult] = await Promise.all([
+    isUuid(templateId)
+      ? pool.query(
+          "SELECT * FROM email_templates WHERE id = $1 AND user_id = $2 AND is_active = true",
+          [templateId, userId]
+        )
+      : none,
+    isUuid(noteId)
+      ? pool.query("SELECT * FROM notes WHERE id = $1 AND user_id = $2", [
+          noteId,
+          userId,
+        ])
+      : none,
+  ])
+  const template = templateResult.rows[0]
+
+  // Partials and the layout are loaded once and shared by every recipient
+  const parts = template
+    ? await partialService.partsFor(userId, template.layout_id)
+    : { partials: {} }
+
+  return { template, note: noteResult.rows[0], parts }
+}
+
+// Parse CSV text into columns and rows so the client can map columns
+router.post("/parse", authenticateToken, async (req: AuthRequest, res) => {
+  const { csv } = req.body
+
+  if (typeof csv !== "string" || !csv.trim()) {
+    return res.status(400).json({ success: false, error: "CSV text is required" })
+  }
+
+  try {
+    const parsed = parseCsv(csv)
+    res.json({ success: true, data: parsed })
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Invalid CSV",
+    })
+  }
+})
+
+// Render the note and template for a single merge row
+router.post("/preview", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { note_id, template_id, row = {}, column_map } = req.body
+
+    if (!note_id || !template_id) {
+      return res.status(400).json({
+        success: false,
+        error: "Note ID and template ID are required",
+      })
+    }
+
+    const { template, note, parts } = await loadNoteAndTemplate(
+      req.user!.id,
+      note_id,
+      template_id
+    )
+
+    if (!template) {
+      return res.status(404).json({ success: false, error: "Template not found" })
+    }
+    if (!note) {
+      return res.status(404).json({ success: false, error: "Note not found" })
+    }
+
+    const { error: frontMatterError } = templateEngine.noteFrontMatter(note.content)
+    if (frontMatterError) {
+      return res
+        .status(400)
+        .json({ success: false, error: frontMatterErrorMessage(frontMatterError) })
+    }
+
+    const rendered = templateEngine.renderTemplate(
+      template,
+      note,
+      mergeVariables(row, column_map),
+      parts
+    )
+
+    res.json({ success: true, data: rendered })
+  } catch (error) {
+    console.error("Campaign preview error:", error)
+    res.status(500).json({ success: false, error: "Failed to preview campaign" })
+  }
+})
+
+// Send one email per merge row, grouped under a campaign
+router.post(
+  "/",
+  authenticateToken,
+  emailSendLimiter,
+  async (req: AuthRequest, res) => {
+    try {
+      const {
+        note_id,
+        template_id,
+        name,
+        csv,
+        list_id,
+        column_map,
+        reply_to,
+        track_engagement,
+        connected_account_id,
+        sender_identity_id,
+        idempotency_key,
+        send_at,
+      }: BulkSendRequest = req.body
+      let rows = req.body.rows as MergeRow[] | undefined
+      let email_column = req.body.email_column || "email"
+      let contactList: { id: string; name: string } | null = null
+
+      if (!note_id || !template_id || (!csv && !rows && !list_id)) {
+        return res.status(400).json({
+          success: false,
+          error: "Note ID, template ID, and csv, rows or list_id are required",
+        })
+      }
+
+      if (list_id) {
+        const listResult = isUuid(list_id)
+          ? await pool.query(
+              "SELECT id, name FROM contact_lists WHERE id = $1 AND user_id = $2",
+              [list_id, req.user!.id]
+            )
+          : null
+
+        if (!listResult || listResult.rows.length === 0) {
+          return res.status(404).json({ success: false, error: "Contact list not found" })
+        }
+
+        // Contact fields are the merge row; column_map does not apply
+        contactList = listResult.rows[0]
+        rows = (await contactService.listMembers(list_id, req.user!.id)).map(contactVariables)
+        email_column = "email"
+      } else if (csv) {
+        try {
+          rows = parseCsv(csv).rows
+        } catch (error) {
+          return res.status(400).json({
+            success: false,
+            error: error instanceof Error ? error.message : "Invalid CSV",
+          })
+        }
+      }
+
+      if (!Array.isArray(rows) || rows.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: "At least one recipient row is required",
+        })
+      }
+
+      if (rows.length > CAMPAIGN_MAX_RECIPIENTS) {
+        return res.status(400).json({
+          success: false,
+          error: `A campaign can have at most ${CAMPAIGN_MAX_RECIPIENTS} recipients`,
+        })
+      }
+
+      if (
+        column_map &&
+        Object.values(column_map).some(
+          (variable) => variable && !VARIABLE_NAME_PATTERN.test(variable)
+        )
+      ) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Variable names may only contain letters, digits and underscores",
+        })
+      }
+
+      // Row numbers are 1-based data rows, as a spreadsheet would show them after the header
+      const invalidRows = rows
+        .map((row, index) => ({ index, email: String(row[email_column] ?? "").trim() }))
+        .filter(({ email }) => !EMAIL_PATTERN.test(email))
+        .map(({ index }) => index + 1)
+
+      if (invalidRows.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Missing or invalid "${email_column}" in row(s) ${invalidRows
+            .slice(0, 10)
+            .join(", ")}${invalidRows.length > 10 ? "..." : ""}`,
+        })
+      }
+
+      const sendAt = send_at ? parseSendAt(send_at) : null
+      if (send_at && !sendAt) {
+        return res.status(400).json({
+          success: false,
+          error: "send_at must be a valid future timestamp",
+        })
+      }
+
+      if (
+        sender_identity_id &&
+        !(await senderIdentityService.isVerified(req.user!.id, sender_identity_id))
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: "Sender identity has not been verified",
+        })
+      }
+
+      const account = sender_identity_id
+        ? null
+        : await accountService.forSending(req.user!.id, connected_account_id)
+      if (connected_account_id && account?.id !== connected_account_id) {
+        return res.status(400).json({
+          success: false,
+          error: "Connected account not found",
+        })
+      }
+
+      const finalIdempotencyKey = idempotency_key || uuidv4()
+
+      const existingCampaign = await pool.query(
+        "SELECT * FROM campaigns WHERE idempotency_key = $1 AND user_id = $2",
+        [finalIdempotencyKey, req.user!.id]
+      )
+
+      if (existingCampaign.rows.length > 0) {
+        const existing = existingCampaign.rows[0]
+        return res.json({
+          success: true,
+          data: {
+            id: existing.id,
+            recipient_count: existing.recipient_count,
+            message: "Campaign already processed (idempotent)",
+          },
+        })
+      }
+
+      const { template, note, parts } = await loadNoteAndTemplate(
+        req.user!.id,
+        note_id,
+        template_id
+      )
+
+      if (!template) {
+        return res.status(404).json({ success: false, error: "Template not found" })
+      }
+      if (!note) {
+        return res.status(404).json({ success: false, error: "Note not found" })
+      }
+
+      const { error: frontMatterError } = templateEngine.noteFrontMatter(note.content)
+      if (frontMatterError) {
+        return res
+          .status(400)
+          .json({ success: false, error: frontMatterErrorMessage(frontMatterError) })
+      }
+
+      // Each address gets the campaign once; later duplicate rows are dropped
+      const seen = new Set<string>()
+      const recipients = rows.filter((row) => {
+        const email = String(row[email_column]).trim().toLowerCase()
+        if (seen.has(email)) {
+          return false
+        }
+        seen.add(email)
+        return true
+      })
+
+      const rendered = recipients.map((row) => {
+        const variables = contactList ? row : mergeVariables(row, column_map)
+        return {
+          email: String(row[email_column]).trim(),
+          variables,
+          ...templateEngine.renderTemplate(template, note, variables, parts),
+        }
+      })
+
+      const incomplete = rendered.find((email) => email.missing_variables.length > 0)
+      if (incomplete) {
+        return res.status(400).json({
+          success: false,
+          error: missingVariablesMessage(incomplete.missing_variables, incomplete.email),
+        })
+      }
+
+      // Opted-out recipients still get a row, recorded as suppressed and never queued
+      const suppressed = await suppressionService.findSuppressed(
+        req.user!.id,
+        rendered.map((email) => email.email)
+      )
+      const isSuppressed = (email: string) => suppressed.has(email.toLowerCase())
+
+      const client = await pool.connect()
+      let campaign
+
+      try {
+        await client.query("BEGIN")
+
+        const campaignResult = await client.query(
+          `INSERT INTO campaigns (user_id, note_id, template_id, contact_list_id, name, idempotency_key, recipient_count)
+           VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+          [
+            req.user!.id,
+            note_id,
+            template_id,
+            contactList?.id ?? null,
+            name || `${contactList ? contactList.name : note.title} (${new Date().toLocaleDateString()})`,
+            finalIdempotencyKey,
+            rendered.length,
+          ]
+        )
+        campaign = campaignResult.rows[0]
+
+        for (const [index, email] of rendered.entries()) {
+          const sentEmailResult = await client.query(
+            `INSERT INTO sent_emails (user_id, note_id, template_id, template_version, campaign_id, merge_variables, idempotency_key, recipients, reply_to, subject, body_html, body_text, status, send_at, suppressed_recipients, track_engagement, connected_account_id, sender_identity_id, layout_id)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19) RETURNING id`,
+            [
+              req.user!.id,
+              note_id,
+              template_id,
+              template.version,
+              campaign.id,
+              JSON.stringify(email.variables),
+              `${campaign.id}:${index}`,
+              [email.email],
+              reply_to || null,
+              email.subject,
+              email.body_html,
+              email.body_text,
+              isSuppressed(email.email) ? "suppressed" : sendAt ? "scheduled" : "pending",
+              sendAt,
+              isSuppressed(email.email) ? [email.email] : [],
+              track_engagement ?? template.track_engagement,
+              account?.id ?? null,
+              sender_identity_id || null,
+              template.layout_id ?? null,
+            ]
+          )
+
+          await recipientService.createForEmail(
+            client,
+            sentEmailResult.rows[0].id,
+            { to: [email.email] },
+            isSuppressed(email.email) ? [email.email] : []
+          )
+
+          if (!sendAt && !isSuppressed(email.email)) {
+            await emailQueue.enqueue(sentEmailResult.rows[0].id, client)
+          }
+        }
+
+        await client.query("COMMIT")
+      } catch (txError) {
+        await client.query("ROLLBACK")
+        throw txError
+      } finally {
+        client.release()
+      }
+
+      res.status(202).json({
+        success: true,
+        data: {
+          id: campaign.id,
+          recipient_count: campaign.recipient_count,
+          skipped_duplicates: rows.length - recipients.length,
+          suppressed: rendered.filter((email) => isSuppressed(email.email)).length,
+          send_at: sendAt,
+          message: sendAt ? "Campaign scheduled" : "Campaign queued for delivery",
+        },
+      })
+    } catch (error) {
+      console.error("Bulk send error:", error)
+      res.status(500).json({ success: false, error: "Failed to send campaign" })
+    }
+  }
+)
+
+// List campaigns with per-status email counts
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20 } = req.query
+    const offset = (Number(page) - 1) * Number(limit)
+
+    const result = await pool.query(
+      `SELECT c.*, n.title as note_title, et.name as template_name,
+              COALESCE(
+                (SELECT json_object_agg(status, count) FROM (
+                   SELECT status, COUNT(*)::int AS count FROM sent_emails
+                   WHERE campaign_id = c.id GROUP BY status
+                 ) counts),
+                '{}'
+              ) AS status_counts
+       FROM campaigns c
+       JOIN notes n ON c.note_id = n.id
+       JOIN email_templates et ON c.template_id = et.id
+       WHERE c.user_id = $1
+       ORDER BY c.created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [req.user!.id, limit, offset]
+    )
+
+    const countResult = await pool.query(
+      "SELECT COUNT(*) FROM campaigns WHERE user_id = $1",
+      [req.user!.id]
+    )
+
+    res.json({
+      success: true,
+      data: {
+        campaigns: result.rows,
+        total: parseInt(countResult.rows[0].count),
+        page: Number(page),
+        limit: Number(limit),
+      },
+    })
+  } catch (error) {
+    console.error("Get campaigns error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch campaigns" })
+  }
+})
+
+// Get a campaign with the emails it produced
+router.get("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+
+    const campaignResult = await pool.query(
+      "SELECT * FROM campaigns WHERE id = $1 AND user_id = $2",
+      [id, req.user!.id]
+    )
+
+    if (campaignResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Campaign not found" })
+    }
+
+    const emailsResult = await pool.query(
+      `SELECT id, recipients, subject, status, error_message, attempt_count, next_attempt_at, send_at, sent_at, created_at
+       FROM sent_emails WHERE campaign_id = $1 ORDER BY recipients[1]`,
+      [id]
+    )
+
+    res.json({
+      success: true,
+      data: { ...campaignResult.rows[0], emails: emailsResult.rows },
+    })
+  } catch (error) {
+    console.error("Get campaign error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch campaign" })
+  }
+})
+
+export default router
@@ -0,0 +1,196 @@
+import express from "express"
+import pool from "../database/connection"
+import { authenticateToken } from "../middleware/auth"
+import { uuidParam } from "../middleware/uuidParam"
+import { AuthRequest } from "../types"
+import { ContactService } from "../services/contactService"
+import { isUuid } from "../services/uuid"
+
+const router = express.Router()
+router.param("id", uuidParam("Contact list not found"))
+router.param("contactId", uuidParam("Contact not found"))
+
+const contactService = new ContactService()
+
+const isUniqueViolation = (error: any) => error?.code === "23505"
+
+// List contact lists with their member counts
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT l.*, COUNT(m.contact_id)::int AS member_count
+       FROM contact_lists l
+       LEFT JOIN contact_list_members m ON m.list_id = l.id
+       WHERE l.user_id = $1
+       GROUP BY l.id
+       ORDER BY l.name`,
+      [req.user!.id]
+    )
+
+    res.json({ success: true, data: result.rows })
+  } catch (error) {
+    console.error("Get contact lists error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch contact lists" })
+  }
+})
+
+// Get a contact list with its members
+router.get("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+
+    const result = await pool.query(
+      "SELECT * FROM contact_lists WHERE id = $1 AND user_id = $2",
+      [id, req.user!.id]
+    )
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Contact list not found" })
+    }
+
+    const members = await contactService.listMembers(id, req.user!.id)
+
+    res.json({
+      success: true,
+      data: { ...result.rows[0], member_count: members.length, members },
+    })
+  } catch (error) {
+    console.error("Get contact list error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch contact list" })
+  }
+})
+
+// Create contact list
+router.post("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { name, description } = req.body
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ success: false, error: "Name is required" })
+    }
+
+    const result = await pool.query(
+      "INSERT INTO contact_lists (user_id, name, description) VALUES ($1, $2, $3) RETURNING *",
+      [req.user!.id, String(name).trim(), description || null]
+    )
+
+    res.status(201).json({ success: true, data: { ...result.rows[0], member_count: 0 } })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, error: "A list with this name already exists" })
+    }
+    console.error("Create contact list error:", error)
+    res.status(500).json({ success: false, error: "Failed to create contact list" })
+  }
+})
+
+// Rename or describe a contact list
+router.put("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+    const { name, description } = req.body
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ success: false, error: "Name is required" })
+    }
+
+    const result = await pool.query(
+      `UPDATE contact_lists SET name = $1, description = $2
+       WHERE id = $3 AND user_id = $4 RETURNING *`,
+      [String(name).trim(), description || null, id, req.user!.id]
+    )
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Contact list not found" })
+    }
+
+    res.json({ success: true, data: result.rows[0] })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, error: "A list with this name already exists" })
+    }
+    console.error("Update contact list error:", error)
+    res.status(500).json({ success: false, error: "Failed to update contact list" })
+  }
+})
+
+// Delete contact list (its contacts are kept)
+router.delete("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+
+    const result = await pool.query(
+      "DELETE FROM contact_lists WHERE id = $1 AND user_id = $2 RETURNING id",
+      [id, req.user!.id]
+    )
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Contact list not found" })
+    }
+
+    res.json({ success: true, message: "Contact list deleted successfully" })
+  } catch (error) {
+    console.error("Delete contact list error:", error)
+    res.status(500).json({ success: false, error: "Failed to delete contact list" })
+  }
+})
+
+// Add contacts to a list
+router.post("/:id/members", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+    const { contact_ids } = req.body
+
+    if (!Array.isArray(contact_ids) || contact_ids.length === 0 || !contact_ids.every(isUuid)) {
+      return res.status(400).json({ success: false, error: "contact_ids must be a non-empty array of contact ids" })
+    }
+
+    const listResult = await pool.query(
+      "SELECT id FROM contact_lists WHERE id = $1 AND user_id = $2",
+      [id, req.user!.id]
+    )
+
+    if (listResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Contact list not found" })
+    }
+
+    // Only the user's own contacts can be added
+    const result = await pool.query(
+      `INSERT INTO contact_list_members (list_id, contact_id)
+       SELECT $1, id FROM contacts WHERE id = ANY($2::uuid[]) AND user_id = $3
+       ON CONFLICT DO NOTHING`,
+      [id, contact_ids, req.user!.id]
+    )
+
+    res.json({ success: true, data: { added: result.rowCount } })
+  } catch (error) {
+    console.error("Add contact list members error:", error)
+    res.status(500).json({ success: false, error: "Failed to add contacts to list" })
+  }
+})
+
+// Remove a contact from a list
+router.delete("/:id/members/:contactId", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id, contactId } = req.params
+
+    const result = await pool.query(
+      `DELETE FROM contact_list_members m
+       USING contact_lists l
+       WHERE m.list_id = l.id AND l.id = $1 AND l.user_id = $2 AND m.contact_id = $3
+       RETURNING m.contact_id`,
+      [id, req.user!.id, contactId]
+    )
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Contact is not in this list" })
+    }
+
+    res.json({ success: true, message: "Contact removed from list" })
+  } catch (error) {
+    console.error("Remove contact list member error:", error)
+    res.status(500).json({ success: false, error: "Failed to remove contact from list" })
+  }
+})
+
+export default router
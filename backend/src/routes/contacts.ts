@@ -0,0 +1,279 @@
+import express from "express"
+import pool from "../database/connection"
+import { authenticateToken } from "../middleware/auth"
+import { uuidParam } from "../middleware/uuidParam"
+import { AuthRequest, ContactInput } from "../types"
+import {
+  ContactImportFormat,
+  ContactService,
+  isValidContactEmail,
+  reservedContactField,
+} from "../services/contactService"
+import { isUuid } from "../services/uuid"
+
+const router = express.Router()
+router.param("id", uuidParam("Contact not found"))
+
+const contactService = new ContactService()
+
+const AUTOCOMPLETE_LIMIT = 8
+
+// Escape LIKE wildcards in user input
+const likePattern = (query: string) => query.replace(/[\\%_]/g, "\\$&")
+
+const isUniqueViolation = (error: any) => error?.code === "23505"
+
+const validateContact = (body: ContactInput): string | null => {
+  if (!body.email || !isValidContactEmail(body.email.trim())) {
+    return "A valid email is required"
+  }
+  if (body.fields && (typeof body.fields !== "object" || Array.isArray(body.fields))) {
+    return "fields must be an object"
+  }
+  const reserved = reservedContactField(body.fields)
+  if (reserved) {
+    return `"${reserved}" is a built-in template variable and cannot be a contact field`
+  }
+  return null
+}
+
+// List contacts, optionally filtered by a search term
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 50, q } = req.query
+    const offset = (Number(page) - 1) * Number(limit)
+    const search = q ? `%${likePattern(String(q))}%` : null
+
+    const filter = `user_id = $1 AND ($2::text IS NULL OR email ILIKE $2 OR first_name ILIKE $2 OR last_name ILIKE $2 OR company ILIKE $2)`
+
+    const result = await pool.query(
+      `SELECT * FROM contacts WHERE ${filter}
+       ORDER BY email LIMIT $3 OFFSET $4`,
+      [req.user!.id, search, limit, offset]
+    )
+
+    const countResult = await pool.query(
+      `SELECT COUNT(*) FROM contacts WHERE ${filter}`,
+      [req.user!.id, search]
+    )
+
+    res.json({
+      success: true,
+      data: {
+        contacts: result.rows,
+        total: parseInt(countResult.rows[0].count),
+        page: Number(page),
+        limit: Number(limit),
+      },
+    })
+  } catch (error) {
+    console.error("Get contacts error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch contacts" })
+  }
+})
+
+// Suggestions for the recipient input, matching from the start of a field
+router.get("/autocomplete", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const q = String(req.query.q || "").trim()
+
+    if (!q) {
+      return res.json({ success: true, data: [] })
+    }
+
+    const prefix = `${likePattern(q)}%`
+    const result = await pool.query(
+      `SELECT * FROM contacts
+       WHERE user_id = $1 AND (email ILIKE $2 OR first_name ILIKE $2 OR last_name ILIKE $2 OR company ILIKE $2)
+       ORDER BY email LIMIT $3`,
+      [req.user!.id, prefix, AUTOCOMPLETE_LIMIT]
+    )
+
+    res.json({ success: true, data: result.rows })
+  } catch (error) {
+    console.error("Autocomplete contacts error:", error)
+    res.status(500).json({ success: false, error: "Failed to search contacts" })
+  }
+})
+
+// Import contacts from CSV or vCard text
+router.post("/import", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { format, content, list_id } = req.body as {
+      format: ContactImportFormat
+      content: string
+      list_id?: string
+    }
+
+    if (format !== "csv" && format !== "vcard") {
+      return res.status(400).json({ success: false, error: "format must be csv or vcard" })
+    }
+
+    if (typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ success: false, error: "Import content is required" })
+    }
+
+    if (list_id) {
+      const listResult = isUuid(list_id)
+        ? await pool.query("SELECT id FROM contact_lists WHERE id = $1 AND user_id = $2", [
+            list_id,
+            req.user!.id,
+          ])
+        : null
+      if (!listResult || listResult.rows.length === 0) {
+        return res.status(404).json({ success: false, error: "Contact list not found" })
+      }
+    }
+
+    let contacts: ContactInput[]
+    try {
+      contacts = contactService.parseImport(format, content)
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid import file",
+      })
+    }
+
+    const reserved = contacts.map((contact) => reservedContactField(contact.fields)).find(Boolean)
+    if (reserved) {
+      return res.status(400).json({
+        success: false,
+        error: `Column "${reserved}" is a built-in template variable; rename it to import it`,
+      })
+    }
+
+    const result = await contactService.upsertMany(req.user!.id, contacts, list_id)
+
+    res.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Import contacts error:", error)
+    res.status(500).json({ success: false, error: "Failed to import contacts" })
+  }
+})
+
+// Get single contact with the lists it belongs to
+router.get("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+
+    const result = await pool.query(
+      "SELECT * FROM contacts WHERE id = $1 AND user_id = $2",
+      [id, req.user!.id]
+    )
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Contact not found" })
+    }
+
+    const listsResult = await pool.query(
+      `SELECT l.id, l.name FROM contact_lists l
+       JOIN contact_list_members m ON m.list_id = l.id
+       WHERE m.contact_id = $1 ORDER BY l.name`,
+      [id]
+    )
+
+    res.json({
+      success: true,
+      data: { ...result.rows[0], lists: listsResult.rows },
+    })
+  } catch (error) {
+    console.error("Get contact error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch contact" })
+  }
+})
+
+// Create contact
+router.post("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const body: ContactInput = req.body
+    const validationError = validateContact(body)
+
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError })
+    }
+
+    const result = await pool.query(
+      `INSERT INTO contacts (user_id, email, first_name, last_name, company, fields)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [
+        req.user!.id,
+        body.email.trim().toLowerCase(),
+        body.first_name || null,
+        body.last_name || null,
+        body.company || null,
+        JSON.stringify(body.fields || {}),
+      ]
+    )
+
+    res.status(201).json({ success: true, data: result.rows[0] })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, error: "A contact with this email already exists" })
+    }
+    console.error("Create contact error:", error)
+    res.status(500).json({ success: false, error: "Failed to create contact" })
+  }
+})
+
+// Update contact
+router.put("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+    const body: ContactInput = req.body
+    const validationError = validateContact(body)
+
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError })
+    }
+
+    const result = await pool.query(
+      `UPDATE contacts SET email = $1, first_name = $2, last_name = $3, company = $4, fields = $5
+       WHERE id = $6 AND user_id = $7 RETURNING *`,
+      [
+        body.email.trim().toLowerCase(),
+        body.first_name || null,
+        body.last_name || null,
+        body.company || null,
+        JSON.stringify(body.fields || {}),
+        id,
+        req.user!.id,
+      ]
+    )
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Contact not found" })
+    }
+
+    res.json({ success: true, data: result.rows[0] })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, error: "A contact with this email already exists" })
+    }
+    console.error("Update contact error:", error)
+    res.status(500).json({ success: false, error: "Failed to update contact" })
+  }
+})
+
+// Delete contact
+router.delete("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+
+    const result = await pool.query(
+      "DELETE FROM contacts WHERE id = $1 AND user_id = $2 RETURNING id",
+      [id, req.user!.id]
+    )
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Contact not found" })
+    }
+
+    res.json({ success: true, message: "Contact deleted successfully" })
+  } catch (error) {
+    console.error("Delete contact error:", error)
+    res.status(500).json({ success: false, error: "Failed to delete contact" })
+  }
+})
+
+export default router
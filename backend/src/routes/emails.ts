@@ -2,21 +2,110 @@ import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import pool from '../database/connection';
 import { authenticateToken } from '../middleware/auth';
+import { uuidParam } from '../middleware/uuidParam';
 import { emailSendLimiter } from '../middleware/rateLimiter';
-import { AuthRequest, SendEmailRequest } from '../types';
-import { TemplateEngine } from '../services/templateEngine';
-import { EmailService } from '../services/emailService';
+import { AuthRequest, ResendEmailRequest, SendEmailRequest, SentEmail, TemplateVersionChoice } from '../types';
+import { TemplateEngine, missingVariablesMessage } from '../services/templateEngine';
 import { NylasEmailService } from '../services/nylasEmailService';
+import { EmailQueue } from '../services/emailQueue';
+import { parseSendAt } from '../services/emailScheduler';
+import { EmailDeliveryService } from '../services/emailDelivery';
+import { AttachmentService, ATTACHMENT_MAX_TOTAL_BYTES } from '../services/attachmentService';
+import { InlineImageService } from '../services/inlineImages';
+import { ContactService, contactVariables } from '../services/contactService';
+import { SuppressionService } from '../services/suppressionService';
+import { RecipientService } from '../services/recipientService';
+import { EmailEventService } from '../services/emailEventService';
+import { ReplySyncService } from '../services/replySync';
+import { SenderIdentityService } from '../services/senderIdentityService';
+import { ConnectedAccountService, nylasGrant } from '../services/connectedAccountService';
+import { TemplateVersionService } from '../services/templateVersionService';
+import { TemplatePartialService } from '../services/templatePartialService';
+import { frontMatterErrorMessage } from '../services/frontMatter';
+import { mailTransports } from '../services/transports';
+import { isUuid } from '../services/uuid';
 
 const router = express.Router();
+router.param('id', uuidParam('Sent email not found'));
+
 const templateEngine = new TemplateEngine();
-const emailService = new EmailService();
 const nylasService = new NylasEmailService();
+const emailQueue = new EmailQueue();
+const emailDelivery = new EmailDeliveryService();
+const attachmentService = new AttachmentService();
+const inlineImageService = new InlineImageService(attachmentService);
+const contactService = new ContactService();
+const suppressionService = new SuppressionService();
+const recipientService = new RecipientService();
+const emailEventService = new EmailEventService();
+const replySync = new ReplySyncService(nylasService);
+const senderIdentityService = new SenderIdentityService();
+const accountService = new ConnectedAccountService();
+const versionService = new TemplateVersionService();
+const partialService = new TemplatePartialService(templateEngine);
+
+const TEMPLATE_VERSION_CHOICES: TemplateVersionChoice[] = ['original', 'latest'];
+
+/**
+ * Render a sent email's note again, as it reads now, with the template
+ * version the email was sent with or the template's latest one. The email's
+ * own variables are reused: a campaign email's merge columns, or the
+ * contact fields of a single recipient. Null when the template is gone.
+ */
+const rerenderSentEmail = async (userId: string, sentEmail: SentEmail, choice: TemplateVersionChoice) => {
+  const latest = (await pool.query('SELECT * FROM email_templates WHERE id = $1 AND user_id = $2', [sentEmail.template_id, userId])).rows[0];
+  const template = choice === 'original' && latest
+    ? await versionService.find(userId, sentEmail.template_id, sentEmail.template_version, true)
+    : latest;
+
+  if (!template) {
+    return null;
+  }
+
+  const noteResult = await pool.query('SELECT * FROM notes WHERE id = $1 AND user_id = $2', [sentEmail.note_id, userId]);
+  const [contact] = !sentEmail.merge_variables && sentEmail.recipients.length === 1
+    ? await contactService.findByEmails(userId, sentEmail.recipients)
+    : [];
+  const variables = sentEmail.merge_variables || (contact ? contactVariables(contact) : {});
+  // The original render uses the layout the email was sent with and the partials as
+  // they were when it was stored
+  const layoutId: string | null = choice === 'original' ? sentEmail.layout_id ?? null : latest.layout_id;
+  const parts = await partialService.partsFor(
+    userId,
+    layoutId,
+    choice === 'original' ? new Date(sentEmail.created_at) : undefined
+  );
+
+  return {
+    template_version: template.version as number,
+    layout_id: layoutId,
+    ...templateEngine.renderTemplate(template, noteResult.rows[0], variables, parts)
+  };
+};
+
+// List mail transports available to the current user's default account
+router.get('/transports', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const account = (await accountService.findDefault(req.user!.id)) || undefined;
+    const transports = mailTransports.list().map((name) => ({
+      name,
+      available: mailTransports.get(name)!.isAvailable(req.user!, account)
+    }));
+
+    res.json({
+      success: true,
+      data: transports
+    });
+  } catch (error) {
+    console.error('Get transports error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch mail transports' });
+  }
+});
 
 // Send email
 router.post('/send', authenticateToken, emailSendLimiter, async (req: AuthRequest, res) => {
   try {
-    const { note_id, template_id, recipients, idempotency_key }: SendEmailRequest = req.body;
+    const { note_id, template_id, recipients, cc = [], bcc = [], reply_to, attachment_ids = [], inline_images = false, track_engagement, in_reply_to_id, connected_account_id, sender_identity_id, idempotency_key, send_at }: SendEmailRequest = req.body;
 
     if (!note_id || !template_id || !recipients || recipients.length === 0) {
       return res.status(400).json({
@@ -25,6 +114,35 @@ router.post('/send', authenticateToken, emailSendLimiter, async (req: AuthReques
       });
     }
 
+    if (!Array.isArray(cc) || !Array.isArray(bcc)) {
+      return res.status(400).json({
+        success: false,
+        error: 'cc and bcc must be arrays of email addresses'
+      });
+    }
+
+    if (!Array.isArray(attachment_ids) || !attachment_ids.every(isUuid)) {
+      return res.status(400).json({
+        success: false,
+        error: 'attachment_ids must be an array of attachment ids'
+      });
+    }
+
+    if (!isUuid(note_id) || !isUuid(template_id) || [in_reply_to_id, sender_identity_id].some((id) => id && !isUuid(id))) {
+      return res.status(400).json({
+        success: false,
+        error: 'note_id, template_id, in_reply_to_id and sender_identity_id must be ids'
+      });
+    }
+
+    const sendAt = send_at ? parseSendAt(send_at) : null;
+    if (send_at && !sendAt) {
+      return res.status(400).json({
+        success: false,
+        error: 'send_at must be a valid future timestamp'
+      });
+    }
+
     // Generate idempotency key if not provided
     const finalIdempotencyKey = idempotency_key || uuidv4();
 
@@ -70,103 +188,150 @@ router.post('/send', authenticateToken, emailSendLimiter, async (req: AuthReques
     const template = templateResult.rows[0];
     const note = noteResult.rows[0];
 
+    const { error: frontMatterError } = templateEngine.noteFrontMatter(note.content);
+    if (frontMatterError) {
+      return res.status(400).json({ success: false, error: frontMatterErrorMessage(frontMatterError) });
+    }
+
+    // A follow-up can only continue a thread whose email actually went out
+    let parent;
+    if (in_reply_to_id) {
+      const parentResult = await pool.query(
+        'SELECT id, subject, thread_id FROM sent_emails WHERE id = $1 AND user_id = $2 AND provider_message_id IS NOT NULL',
+        [in_reply_to_id, req.user!.id]
+      );
+
+      if (parentResult.rows.length === 0) {
+        return res.status(400).json({ success: false, error: 'Only a delivered email can be replied to' });
+      }
+      parent = parentResult.rows[0];
+    }
+
+    if (sender_identity_id && !(await senderIdentityService.isVerified(req.user!.id, sender_identity_id))) {
+      return res.status(400).json({ success: false, error: 'Sender identity has not been verified' });
+    }
+
+    // The account is fixed now, so changing the default later does not move queued emails
+    const account = sender_identity_id ? null : await accountService.forSending(req.user!.id, connected_account_id);
+    if (connected_account_id && account?.id !== connected_account_id) {
+      return res.status(400).json({ success: false, error: 'Connected account not found' });
+    }
+
+    // Attachments must be the user's own uploads that no other send has claimed
+    const uniqueAttachmentIds = Array.from(new Set(attachment_ids));
+    let attachmentBytes = 0;
+    if (uniqueAttachmentIds.length > 0) {
+      const attachments = await attachmentService.findUnsent(req.user!.id, uniqueAttachmentIds);
+
+      if (attachments.length !== uniqueAttachmentIds.length) {
+        return res.status(400).json({ success: false, error: 'One or more attachments are missing or already sent' });
+      }
+
+      attachmentBytes = attachments.reduce((sum, attachment) => sum + Number(attachment.size_bytes), 0);
+      if (attachmentBytes > ATTACHMENT_MAX_TOTAL_BYTES) {
+        return res.status(400).json({
+          success: false,
+          error: `Attachments exceed the ${Math.round(ATTACHMENT_MAX_TOTAL_BYTES / 1024 / 1024)}MB per-email limit`
+        });
+      }
+    }
+
+    // A single recipient who is a saved contact gets their contact fields as variables
+    const [contact] = recipients.length === 1 ? await contactService.findByEmails(req.user!.id, recipients) : [];
+
     // Render template with note data
-    const rendered = templateEngine.renderTemplate(template, note);
+    const parts = await partialService.partsFor(req.user!.id, template.layout_id);
+    const rendered = templateEngine.renderTemplate(template, note, contact ? contactVariables(contact) : {}, parts);
+    if (rendered.missing_variables.length > 0) {
+      return res.status(400).json({ success: false, error: missingVariablesMessage(rendered.missing_variables) });
+    }
 
-    // Create sent email record
-    const sentEmailResult = await pool.query(
-      `INSERT INTO sent_emails (user_id, note_id, template_id, template_version, idempotency_key, recipients, subject, body_html, body_text, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending') RETURNING *`,
-      [
-        req.user!.id,
-        note_id,
-        template_id,
-        template.version,
-        finalIdempotencyKey,
-        recipients,
-        rendered.subject,
-        rendered.body_html,
-        rendered.body_text
-      ]
-    );
+    // Mail clients only group a reply with its thread when the subject matches
+    if (parent) {
+      rendered.subject = /^re:/i.test(parent.subject) ? parent.subject : `Re: ${parent.subject}`;
+    }
+
+    // Opted-out addresses are skipped and recorded on the email; with no To left nothing is queued
+    const filtered = await suppressionService.filterRecipients(req.user!.id, { to: recipients, cc, bcc });
+    const suppressed = filtered.to.length === 0;
+
+    // Embed referenced images as cid: attachments so clients that block remote images still show them.
+    // They are stored for this send only, so they are removed again if it is not recorded.
+    let skippedImages: string[] = [];
+    let inlinedIds: string[] = [];
+    if (inline_images) {
+      const inlined = await inlineImageService.embed(req.user!.id, rendered.body_html, ATTACHMENT_MAX_TOTAL_BYTES - attachmentBytes);
+      rendered.body_html = inlined.html;
+      inlinedIds = inlined.attachments.map((attachment) => attachment.id);
+      uniqueAttachmentIds.push(...inlinedIds);
+      skippedImages = inlined.skipped;
+    }
 
-    const sentEmail = sentEmailResult.rows[0];
+    // Create sent email record and queue it for delivery in one transaction.
+    // Scheduled emails are queued later by the scheduler once send_at passes.
+    const client = await pool.connect();
+    let sentEmail;
 
     try {
-      // Check if user has Nylas auth first, fallback to Gmail
-      const userResult = await pool.query(
-        'SELECT nylas_access_token, has_nylas_auth, gmail_access_token, gmail_refresh_token FROM users WHERE id = $1',
-        [req.user!.id]
-      );
-      
-      const userData = userResult.rows[0];
-      let sendResult;
-
-      if (userData.has_nylas_auth && userData.nylas_access_token) {
-        // Use Nylas for sending
-        sendResult = await nylasService.sendEmail(
-          userData.nylas_access_token, // This is the grantId
+      await client.query('BEGIN');
+
+      const sentEmailResult = await client.query(
+        `INSERT INTO sent_emails (user_id, note_id, template_id, template_version, idempotency_key, recipients, cc, bcc, reply_to, subject, body_html, body_text, status, send_at, suppressed_recipients, track_engagement, in_reply_to_id, thread_id, connected_account_id, sender_identity_id, layout_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, COALESCE($18::uuid, gen_random_uuid()), $19, $20, $21) RETURNING *`,
+        [
+          req.user!.id,
+          note_id,
+          template_id,
+          template.version,
+          finalIdempotencyKey,
           recipients,
+          cc,
+          bcc,
+          reply_to || null,
           rendered.subject,
           rendered.body_html,
-          rendered.body_text
-        );
-      } else if (userData.gmail_access_token || userData.gmail_refresh_token) {
-        // Fallback to Gmail
-        sendResult = await emailService.sendEmail(
-          req.user!,
-          recipients,
-          rendered.subject,
-          rendered.body_html,
-          rendered.body_text
-        );
-      } else {
-        throw new Error('No email service configured. Please authorize Nylas or Gmail.');
-      }
+          rendered.body_text,
+          suppressed ? 'suppressed' : sendAt ? 'scheduled' : 'pending',
+          sendAt,
+          filtered.suppressed,
+          // The sender's choice for this send wins over the template default
+          track_engagement ?? template.track_engagement,
+          parent?.id ?? null,
+          parent?.thread_id ?? null,
+          account?.id ?? null,
+          sender_identity_id || null,
+          template.layout_id ?? null
+        ]
+      );
 
-      if (sendResult.success) {
-        // Update status to sent
-        await emailService.updateSentEmailStatus(
-          sentEmail.id,
-          'sent',
-          sendResult.messageId
-        );
-
-        res.json({
-          success: true,
-          data: {
-            id: sentEmail.id,
-            status: 'sent',
-            message: 'Email sent successfully',
-            message_id: sendResult.messageId
-          }
-        });
-      } else {
-        // Update status to failed
-        await emailService.updateSentEmailStatus(
-          sentEmail.id,
-          'failed',
-          undefined,
-          sendResult.error
-        );
-
-        res.status(500).json({
-          success: false,
-          error: 'Failed to send email',
-          details: sendResult.error
-        });
+      sentEmail = sentEmailResult.rows[0];
+      await recipientService.createForEmail(client, sentEmail.id, { to: recipients, cc, bcc }, filtered.suppressed);
+      await attachmentService.linkToSentEmail(client, req.user!.id, sentEmail.id, uniqueAttachmentIds);
+
+      if (!sendAt && !suppressed) {
+        await emailQueue.enqueue(sentEmail.id, client);
       }
-    } catch (sendError) {
-      // Update status to failed
-      await emailService.updateSentEmailStatus(
-        sentEmail.id,
-        'failed',
-        undefined,
-        sendError instanceof Error ? sendError.message : 'Unknown error'
-      );
 
-      throw sendError;
+      await client.query('COMMIT');
+    } catch (txError) {
+      await client.query('ROLLBACK');
+      await inlineImageService.discard(req.user!.id, inlinedIds);
+      throw txError;
+    } finally {
+      client.release();
     }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        id: sentEmail.id,
+        status: sentEmail.status,
+        send_at: sentEmail.send_at,
+        skipped_images: skippedImages,
+        suppressed_recipients: filtered.suppressed,
+        message: suppressed ? 'All recipients are on the suppression list' : sendAt ? 'Email scheduled' : 'Email queued for delivery'
+      }
+    });
   } catch (error) {
     console.error('Send email error:', error);
     res.status(500).json({ success: false, error: 'Failed to send email' });
@@ -176,24 +341,41 @@ router.post('/send', authenticateToken, emailSendLimiter, async (req: AuthReques
 // Get sent emails history
 router.get('/sent', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { page = 1, limit = 20 } = req.query;
+    const { page = 1, limit = 20, status, thread_id } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
+    const statusFilter = status ? String(status) : null;
+    const threadFilter = thread_id ? String(thread_id) : null;
+
+    if (threadFilter && !isUuid(threadFilter)) {
+      return res.status(400).json({ success: false, error: 'thread_id must be a thread id' });
+    }
 
     const result = await pool.query(
-      `SELECT se.*, n.title as note_title, et.name as template_name
+      `SELECT se.*, n.title as note_title, et.name as template_name, engagement.*,
+              (SELECT COUNT(*)::int FROM sent_emails t WHERE t.thread_id = se.thread_id) AS thread_size,
+              (SELECT COUNT(*)::int FROM received_replies rr WHERE rr.sent_email_id = se.id) AS reply_count
        FROM sent_emails se
        JOIN notes n ON se.note_id = n.id
        JOIN email_templates et ON se.template_id = et.id
-       WHERE se.user_id = $1
+       LEFT JOIN LATERAL (
+         SELECT COUNT(*) FILTER (WHERE event_type = 'opened')::int AS open_count,
+                MIN(occurred_at) FILTER (WHERE event_type = 'opened') AS first_opened_at,
+                MAX(occurred_at) FILTER (WHERE event_type = 'opened') AS last_opened_at,
+                COUNT(*) FILTER (WHERE event_type = 'clicked')::int AS click_count,
+                MIN(occurred_at) FILTER (WHERE event_type = 'clicked') AS first_clicked_at,
+                MAX(occurred_at) FILTER (WHERE event_type = 'clicked') AS last_clicked_at
+         FROM email_events WHERE sent_email_id = se.id
+       ) engagement ON true
+       WHERE se.user_id = $1 AND ($4::text IS NULL OR se.status = $4) AND ($5::uuid IS NULL OR se.thread_id = $5)
        ORDER BY se.created_at DESC
        LIMIT $2 OFFSET $3`,
-      [req.user!.id, limit, offset]
+      [req.user!.id, limit, offset, statusFilter, threadFilter]
     );
 
     // Get total count
     const countResult = await pool.query(
-      'SELECT COUNT(*) FROM sent_emails WHERE user_id = $1',
-      [req.user!.id]
+      'SELECT COUNT(*) FROM sent_emails WHERE user_id = $1 AND ($2::text IS NULL OR status = $2) AND ($3::uuid IS NULL OR thread_id = $3)',
+      [req.user!.id, statusFilter, threadFilter]
     );
 
     res.json({
@@ -217,10 +399,13 @@ router.get('/sent/:id', authenticateToken, async (req: AuthRequest, res) => {
     const { id } = req.params;
 
     const result = await pool.query(
-      `SELECT se.*, n.title as note_title, n.content as note_content, et.name as template_name
+      `SELECT se.*, n.title as note_title, n.content as note_content, et.name as template_name,
+              si.from_email as sender_from_email, ca.email as account_email
        FROM sent_emails se
        JOIN notes n ON se.note_id = n.id
        JOIN email_templates et ON se.template_id = et.id
+       LEFT JOIN sender_identities si ON se.sender_identity_id = si.id
+       LEFT JOIN connected_accounts ca ON se.connected_account_id = ca.id
        WHERE se.id = $1 AND se.user_id = $2`,
       [id, req.user!.id]
     );
@@ -229,9 +414,26 @@ router.get('/sent/:id', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(404).json({ success: false, error: 'Sent email not found' });
     }
 
+    const [attachments, recipientStatuses, replies] = await Promise.all([
+      attachmentService.listForSentEmail(id),
+      recipientService.listForEmail(id),
+      replySync.listForEmail(id)
+    ]);
+
     res.json({
       success: true,
-      data: result.rows[0]
+      data: {
+        ...result.rows[0],
+        attachments: attachments.map(({ id, filename, content_type, size_bytes, content_id }) => ({
+          id,
+          filename,
+          content_type,
+          size_bytes: Number(size_bytes),
+          content_id
+        })),
+        recipient_statuses: recipientStatuses,
+        replies
+      }
     });
   } catch (error) {
     console.error('Get sent email error:', error);
@@ -239,96 +441,458 @@ router.get('/sent/:id', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Retry failed email
-router.post('/sent/:id/retry', authenticateToken, emailSendLimiter, async (req: AuthRequest, res) => {
+// Get delivery attempt history of a sent email
+router.get('/sent/:id/attempts', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
-    // Get sent email record
     const sentEmailResult = await pool.query(
-      'SELECT * FROM sent_emails WHERE id = $1 AND user_id = $2 AND status = $3',
-      [id, req.user!.id, 'failed']
+      'SELECT id FROM sent_emails WHERE id = $1 AND user_id = $2',
+      [id, req.user!.id]
     );
 
     if (sentEmailResult.rows.length === 0) {
-      return res.status(404).json({ success: false, error: 'Failed email not found' });
+      return res.status(404).json({ success: false, error: 'Sent email not found' });
     }
 
-    const sentEmail = sentEmailResult.rows[0];
+    const attempts = await emailDelivery.getAttempts(id);
 
-    try {
-      // Retry sending
-      const sendResult = await emailService.sendEmail(
-        req.user!,
-        sentEmail.recipients,
-        sentEmail.subject,
-        sentEmail.body_html,
-        sentEmail.body_text
-      );
+    res.json({
+      success: true,
+      data: attempts
+    });
+  } catch (error) {
+    console.error('Get delivery attempts error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch delivery attempts' });
+  }
+});
 
-      if (sendResult.success) {
-        // Update status to sent
-        await emailService.updateSentEmailStatus(
-          sentEmail.id,
-          'sent',
-          sendResult.messageId
-        );
-
-        res.json({
-          success: true,
-          data: {
-            id: sentEmail.id,
-            status: 'sent',
-            message: 'Email sent successfully',
-            message_id: sendResult.messageId
-          }
-        });
-      } else {
-        // Update error message
-        await emailService.updateSentEmailStatus(
-          sentEmail.id,
-          'failed',
-          undefined,
-          sendResult.error
-        );
-
-        res.status(500).json({
+// Get provider events (delivered, bounced, ...) reported after sending
+router.get('/sent/:id/events', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const sentEmailResult = await pool.query(
+      'SELECT id FROM sent_emails WHERE id = $1 AND user_id = $2',
+      [id, req.user!.id]
+    );
+
+    if (sentEmailResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Sent email not found' });
+    }
+
+    const events = await emailEventService.listForEmail(id);
+
+    res.json({
+      success: true,
+      data: events.map(({ payload, ...event }) => event)
+    });
+  } catch (error) {
+    console.error('Get email events error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch email events' });
+  }
+});
+
+// Poll delivery status of a sent email
+router.get('/sent/:id/status', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await pool.query(
+      `SELECT id, status, error_message, error_class, attempt_count, next_attempt_at,
+              provider_message_id, transport, sent_at, updated_at
+       FROM sent_emails WHERE id = $1 AND user_id = $2`,
+      [id, req.user!.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Sent email not found' });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Get sent email status error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch sent email status' });
+  }
+});
+
+// Retry failed or dead-lettered email
+router.post('/sent/:id/retry', authenticateToken, emailSendLimiter, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { transport }: { transport?: string } = req.body || {};
+
+    // An explicit transport overrides the one recorded on the original attempt
+    if (transport) {
+      const emailResult = await pool.query(
+        'SELECT connected_account_id FROM sent_emails WHERE id = $1 AND user_id = $2',
+        [id, req.user!.id]
+      );
+      // Provider transports depend on the account the email goes out from
+      const account = await accountService.forSending(req.user!.id, emailResult.rows[0]?.connected_account_id);
+      const override = mailTransports.get(transport);
+      if (!override || !override.isAvailable(req.user!, account || undefined)) {
+        return res.status(400).json({
           success: false,
-          error: 'Failed to send email',
-          details: sendResult.error
+          error: `Mail transport "${transport}" is not available`
         });
       }
-    } catch (sendError) {
-      // Update error message
-      await emailService.updateSentEmailStatus(
-        sentEmail.id,
-        'failed',
-        undefined,
-        sendError instanceof Error ? sendError.message : 'Unknown error'
+    }
+
+    // Move the failed, dead or partially delivered email back to pending with
+    // a fresh attempt budget and queue it in one transaction. Only addresses
+    // that did not get it are attempted again.
+    const client = await pool.connect();
+    let sentEmail;
+
+    try {
+      await client.query('BEGIN');
+
+      const sentEmailResult = await client.query(
+        `UPDATE sent_emails
+         SET status = 'pending', error_message = NULL, error_class = NULL, attempt_count = 0,
+             next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND user_id = $2 AND status IN ('failed', 'dead', 'partial') RETURNING *`,
+        [id, req.user!.id]
       );
 
-      throw sendError;
+      sentEmail = sentEmailResult.rows[0];
+      if (sentEmail) {
+        await recipientService.resetFailed(client, sentEmail.id);
+        await emailQueue.enqueue(sentEmail.id, client, transport);
+      }
+
+      await client.query('COMMIT');
+    } catch (txError) {
+      await client.query('ROLLBACK');
+      throw txError;
+    } finally {
+      client.release();
     }
+
+    if (!sentEmail) {
+      return res.status(404).json({ success: false, error: 'Failed, dead or partially sent email not found' });
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        id: sentEmail.id,
+        status: 'pending',
+        message: 'Email queued for retry'
+      }
+    });
   } catch (error) {
     console.error('Retry email error:', error);
     res.status(500).json({ success: false, error: 'Failed to retry email' });
   }
 });
 
-// Get messages from Nylas (like your curl example)
-router.get('/messages', authenticateToken, async (req: AuthRequest, res) => {
+// Render a sent email again with its original template version or the latest one (?template_version=)
+router.get('/sent/:id/rerender', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { limit = 5, unread = false } = req.query;
-    
-    // Get user's Nylas token
-    const userResult = await pool.query(
-      'SELECT nylas_access_token, has_nylas_auth FROM users WHERE id = $1',
+    const choice = (req.query.template_version || 'original') as TemplateVersionChoice;
+    if (!TEMPLATE_VERSION_CHOICES.includes(choice)) {
+      return res.status(400).json({ success: false, error: 'template_version must be original or latest' });
+    }
+
+    const emailResult = await pool.query(
+      'SELECT * FROM sent_emails WHERE id = $1 AND user_id = $2',
+      [req.params.id, req.user!.id]
+    );
+
+    if (emailResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Sent email not found' });
+    }
+
+    const rendered = await rerenderSentEmail(req.user!.id, emailResult.rows[0], choice);
+
+    if (!rendered) {
+      return res.status(404).json({ success: false, error: 'Template version not found' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        template_version: rendered.template_version,
+        subject: rendered.subject,
+        body_html: rendered.body_html,
+        body_text: rendered.body_text
+      }
+    });
+  } catch (error) {
+    console.error('Rerender email error:', error);
+    res.status(500).json({ success: false, error: 'Failed to render email' });
+  }
+});
+
+// Send a past email again to the same recipients, rendered from the note as
+// it reads now with the original template version or the latest one.
+// Attachments go out again and inline images are embedded again; threading
+// is not carried over.
+router.post('/sent/:id/resend', authenticateToken, emailSendLimiter, async (req: AuthRequest, res) => {
+  try {
+    const { template_version, idempotency_key }: ResendEmailRequest = req.body || {};
+
+    if (!TEMPLATE_VERSION_CHOICES.includes(template_version)) {
+      return res.status(400).json({ success: false, error: 'template_version must be original or latest' });
+    }
+
+    const finalIdempotencyKey = idempotency_key || uuidv4();
+
+    const existingEmail = await pool.query(
+      'SELECT * FROM sent_emails WHERE idempotency_key = $1',
+      [finalIdempotencyKey]
+    );
+
+    if (existingEmail.rows.length > 0) {
+      const existing = existingEmail.rows[0];
+      return res.json({
+        success: true,
+        data: {
+          id: existing.id,
+          status: existing.status,
+          message: 'Email already processed (idempotent)'
+        }
+      });
+    }
+
+    const emailResult = await pool.query(
+      'SELECT * FROM sent_emails WHERE id = $1 AND user_id = $2',
+      [req.params.id, req.user!.id]
+    );
+
+    if (emailResult.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Sent email not found' });
+    }
+
+    const original: SentEmail = emailResult.rows[0];
+    const rendered = await rerenderSentEmail(req.user!.id, original, template_version);
+
+    if (!rendered) {
+      return res.status(404).json({ success: false, error: 'Template version not found' });
+    }
+
+    if (original.sender_identity_id && !(await senderIdentityService.isVerified(req.user!.id, original.sender_identity_id))) {
+      return res.status(400).json({ success: false, error: 'Sender identity has not been verified' });
+    }
+
+    // The original account, or the default when it has been disconnected since
+    const account = original.sender_identity_id ? null : await accountService.forSending(req.user!.id, original.connected_account_id);
+
+    const filtered = await suppressionService.filterRecipients(req.user!.id, {
+      to: original.recipients,
+      cc: original.cc,
+      bcc: original.bcc
+    });
+    const suppressed = filtered.to.length === 0;
+
+    // The re-rendered body refers to images by their source again, so an email
+    // sent with inline images has them embedded anew
+    const originalAttachments = await attachmentService.listForSentEmail(original.id);
+    const files = originalAttachments.filter((attachment) => !attachment.content_id);
+    let skippedImages: string[] = [];
+    let inlinedIds: string[] = [];
+    if (originalAttachments.some((attachment) => attachment.content_id)) {
+      const fileBytes = files.reduce((total, attachment) => total + Number(attachment.size_bytes), 0);
+      const inlined = await inlineImageService.embed(req.user!.id, rendered.body_html, ATTACHMENT_MAX_TOTAL_BYTES - fileBytes);
+      rendered.body_html = inlined.html;
+      inlinedIds = inlined.attachments.map((attachment) => attachment.id);
+      skippedImages = inlined.skipped;
+    }
+
+    const client = await pool.connect();
+    let sentEmail;
+
+    try {
+      await client.query('BEGIN');
+
+      const sentEmailResult = await client.query(
+        `INSERT INTO sent_emails (user_id, note_id, template_id, template_version, idempotency_key, recipients, cc, bcc, reply_to, subject, body_html, body_text, status, suppressed_recipients, track_engagement, merge_variables, connected_account_id, sender_identity_id, layout_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19) RETURNING *`,
+        [
+          req.user!.id,
+          original.note_id,
+          original.template_id,
+          rendered.template_version,
+          finalIdempotencyKey,
+          original.recipients,
+          original.cc,
+          original.bcc,
+          original.reply_to || null,
+          rendered.subject,
+          rendered.body_html,
+          rendered.body_text,
+          suppressed ? 'suppressed' : 'pending',
+          filtered.suppressed,
+          original.track_engagement,
+          // Kept so the resend renders the same way again; it is not part of the campaign
+          original.merge_variables ? JSON.stringify(original.merge_variables) : null,
+          account?.id ?? null,
+          original.sender_identity_id || null,
+          rendered.layout_id
+        ]
+      );
+
+      sentEmail = sentEmailResult.rows[0];
+      await recipientService.createForEmail(
+        client,
+        sentEmail.id,
+        { to: original.recipients, cc: original.cc, bcc: original.bcc },
+        filtered.suppressed
+      );
+      await attachmentService.copyToSentEmail(client, original.id, sentEmail.id);
+      await attachmentService.linkToSentEmail(client, req.user!.id, sentEmail.id, inlinedIds);
+
+      if (!suppressed) {
+        await emailQueue.enqueue(sentEmail.id, client);
+      }
+
+      await client.query('COMMIT');
+    } catch (txError) {
+      await client.query('ROLLBACK');
+      await inlineImageService.discard(req.user!.id, inlinedIds);
+      throw txError;
+    } finally {
+      client.release();
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        id: sentEmail.id,
+        status: sentEmail.status,
+        template_version: rendered.template_version,
+        attachments: files.length,
+        skipped_images: skippedImages,
+        suppressed_recipients: filtered.suppressed,
+        message: suppressed ? 'All recipients are on the suppression list' : 'Email queued for delivery'
+      }
+    });
+  } catch (error) {
+    console.error('Resend email error:', error);
+    res.status(500).json({ success: false, error: 'Failed to resend email' });
+  }
+});
+
+// Get scheduled emails
+router.get('/scheduled', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT se.*, n.title as note_title, et.name as template_name
+       FROM sent_emails se
+       JOIN notes n ON se.note_id = n.id
+       JOIN email_templates et ON se.template_id = et.id
+       WHERE se.user_id = $1 AND se.status = 'scheduled'
+       ORDER BY se.send_at ASC`,
       [req.user!.id]
     );
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Get scheduled emails error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch scheduled emails' });
+  }
+});
+
+// Reschedule a scheduled email
+router.put('/scheduled/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const sendAt = req.body.send_at ? parseSendAt(req.body.send_at) : null;
+
+    if (!sendAt) {
+      return res.status(400).json({
+        success: false,
+        error: 'send_at must be a valid future timestamp'
+      });
+    }
+
+    const result = await pool.query(
+      `UPDATE sent_emails SET send_at = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2 AND user_id = $3 AND status = 'scheduled' RETURNING *`,
+      [sendAt, id, req.user!.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Scheduled email not found' });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Reschedule email error:', error);
+    res.status(500).json({ success: false, error: 'Failed to reschedule email' });
+  }
+});
+
+// Cancel a scheduled email
+router.post('/scheduled/:id/cancel', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await pool.query(
+      `UPDATE sent_emails SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND status = 'scheduled' RETURNING *`,
+      [id, req.user!.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Scheduled email not found' });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Cancel scheduled email error:', error);
+    res.status(500).json({ success: false, error: 'Failed to cancel scheduled email' });
+  }
+});
+
+// Check the user's Nylas mailboxes for replies now instead of waiting for the worker
+router.post('/replies/sync', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    if (!(await accountService.findNylas(req.user!.id))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Nylas authorization required'
+      });
+    }
+
+    const result = await replySync.syncUser(req.user!.id);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    console.error('Sync replies error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to sync replies'
+    });
+  }
+});
+
+// Get messages from Nylas (like your curl example)
+router.get('/messages', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { limit = 5, unread = false, account_id } = req.query;
     
-    const userData = userResult.rows[0];
+    // Read the requested Nylas mailbox, or the user's main one
+    const account = await accountService.findNylas(req.user!.id, account_id ? String(account_id) : undefined);
     
-    if (!userData.has_nylas_auth || !userData.nylas_access_token) {
+    if (!account) {
       return res.status(400).json({
         success: false,
         error: 'Nylas authorization required'
@@ -337,7 +901,7 @@ router.get('/messages', authenticateToken, async (req: AuthRequest, res) => {
 
     // Get messages using Nylas
     const messages = await nylasService.getMessages(
-      userData.nylas_access_token,
+      nylasGrant(account),
       parseInt(limit as string),
       unread === 'true'
     );
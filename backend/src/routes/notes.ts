@@ -1,9 +1,22 @@
 import express from 'express';
 import pool from '../database/connection';
 import { authenticateToken } from '../middleware/auth';
-import { AuthRequest, Note } from '../types';
+import { uuidParam } from '../middleware/uuidParam';
+import { AuthRequest, Note, NoteSource } from '../types';
+import { NylasEmailService } from '../services/nylasEmailService';
+import { htmlToMarkdown } from '../services/htmlToMarkdown';
+import { ConnectedAccountService, nylasGrant } from '../services/connectedAccountService';
+import { TemplateEngine } from '../services/templateEngine';
+import { TemplatePartialService } from '../services/templatePartialService';
+import { isUuid } from '../services/uuid';
 
 const router = express.Router();
+router.param('id', uuidParam('Note not found'));
+
+const nylasService = new NylasEmailService();
+const accountService = new ConnectedAccountService();
+const templateEngine = new TemplateEngine();
+const partialService = new TemplatePartialService(templateEngine);
 
 // Get all notes for user
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
@@ -71,6 +84,112 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Check a note's front matter while editing. With a template_id, also list
+// the template's variables that neither the note nor its front matter supply.
+router.post('/front-matter', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { content, template_id } = req.body;
+
+    if (typeof content !== 'string') {
+      return res.status(400).json({ success: false, error: 'Content is required' });
+    }
+
+    const { data, error } = templateEngine.noteFrontMatter(content);
+    let missing_variables: string[] | undefined;
+
+    if (template_id) {
+      if (!isUuid(template_id)) {
+        return res.status(404).json({ success: false, error: 'Template not found' });
+      }
+
+      const templateResult = await pool.query(
+        'SELECT * FROM email_templates WHERE id = $1 AND user_id = $2 AND is_active = true',
+        [template_id, req.user!.id]
+      );
+
+      if (templateResult.rows.length === 0) {
+        return res.status(404).json({ success: false, error: 'Template not found' });
+      }
+
+      const template = templateResult.rows[0];
+      const parts = await partialService.partsFor(req.user!.id, template.layout_id);
+      missing_variables = templateEngine.missingNoteVariables(template, content, parts);
+    }
+
+    res.json({
+      success: true,
+      data: { variables: data, error, missing_variables }
+    });
+  } catch (error) {
+    console.error('Check front matter error:', error);
+    res.status(500).json({ success: false, error: 'Failed to check front matter' });
+  }
+});
+
+// Save a received email (a Nylas message id from /emails/messages, with the account it was listed from) as a note
+router.post('/from-email', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { message_id, account_id } = req.body;
+
+    if (!message_id || typeof message_id !== 'string') {
+      return res.status(400).json({ success: false, error: 'message_id is required' });
+    }
+
+    // The mailbox the message was listed from
+    const account = await accountService.findNylas(req.user!.id, account_id);
+    if (!account) {
+      return res.status(400).json({ success: false, error: 'Nylas authorization required' });
+    }
+
+    // Saving the same email again returns the note made the first time
+    const existing = await pool.query(
+      "SELECT * FROM notes WHERE user_id = $1 AND source->>'provider' = 'nylas' AND source->>'message_id' = $2",
+      [req.user!.id, message_id]
+    );
+
+    if (existing.rows.length > 0) {
+      return res.json({
+        success: true,
+        data: existing.rows[0]
+      });
+    }
+
+    const message = await nylasService.getMessage(nylasGrant(account), message_id);
+
+    if (!message) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
+
+    const from = message.from?.[0];
+    const source: NoteSource = {
+      provider: 'nylas',
+      message_id,
+      from: from?.email ? { name: from.name || undefined, email: from.email } : undefined,
+      subject: message.subject || undefined,
+      // Nylas dates are in seconds
+      date: message.date ? new Date(message.date * 1000).toISOString() : undefined
+    };
+
+    // Plain-text bodies are already valid Markdown
+    const body: string = message.body || '';
+    const content = (/<[a-z][\s\S]*>/i.test(body) ? htmlToMarkdown(body) : body.trim()) || message.snippet || '(empty email)';
+    const title = (message.subject || '').trim().slice(0, 255) || 'Untitled email';
+
+    const result = await pool.query(
+      'INSERT INTO notes (user_id, title, content, source) VALUES ($1, $2, $3, $4) RETURNING *',
+      [req.user!.id, title, content, JSON.stringify(source)]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Create note from email error:', error);
+    res.status(500).json({ success: false, error: 'Failed to save email as note' });
+  }
+});
+
 // Update note
 router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -1,11 +1,12 @@
 import express from "express"
-import pool from "../database/connection"
 import { NylasEmailService } from "../services/nylasEmailService"
+import { ConnectedAccountService } from "../services/connectedAccountService"
 import { authenticateToken } from "../middleware/auth"
 import { AuthRequest } from "../types"
 
 const router = express.Router()
 const nylasService = new NylasEmailService()
+const accountService = new ConnectedAccountService()
 
 // Get Nylas OAuth URL
 router.get(
@@ -59,22 +60,19 @@ router.post(
         })
       }
 
-      // Store Nylas credentials in database
-      await pool.query(
-        `UPDATE users 
-       SET nylas_access_token = $1, 
-           nylas_account_id = $2, 
-           has_nylas_auth = true,
-           updated_at = CURRENT_TIMESTAMP
-       WHERE id = $3`,
-        [accessToken, accountInfo.email, user.id]
-      )
+      // Store the grant as a connected account; connecting it again replaces the grant
+      const account = await accountService.connect(user.id, {
+        provider: "nylas",
+        email: accountInfo.email,
+        accessToken,
+      })
 
       res.json({
         success: true,
         data: {
           message: "Nylas authorization successful",
-          account_email: accountInfo.email,
+          account_id: account.id,
+          account_email: account.email,
         },
       })
     } catch (error: any) {
@@ -87,83 +85,4 @@ router.post(
   }
 )
 
-// Get Nylas authorization status
-router.get(
-  "/nylas/status",
-  authenticateToken,
-  async (req: AuthRequest, res) => {
-    try {
-      const user = req.user!
-
-      // Check if user has Nylas auth
-      const result = await pool.query(
-        "SELECT has_nylas_auth, nylas_account_id FROM users WHERE id = $1",
-        [user.id]
-      )
-
-      const userData = result.rows[0]
-
-      res.json({
-        success: true,
-        data: {
-          has_nylas_auth: userData?.has_nylas_auth || false,
-          account_email: userData?.nylas_account_id || null,
-        },
-      })
-    } catch (error: any) {
-      console.error("Nylas status error:", error)
-      res.status(500).json({
-        success: false,
-        error: "Failed to get Nylas status",
-      })
-    }
-  }
-)
-
-// Revoke Nylas authorization
-router.post(
-  "/nylas/revoke",
-  authenticateToken,
-  async (req: AuthRequest, res) => {
-    try {
-      const user = req.user!
-
-      // Get user's Nylas token
-      const result = await pool.query(
-        "SELECT nylas_access_token FROM users WHERE id = $1",
-        [user.id]
-      )
-
-      const userData = result.rows[0]
-
-      if (userData?.nylas_access_token) {
-        // Revoke the grant
-        await nylasService.revokeGrant(userData.nylas_access_token)
-      }
-
-      // Remove Nylas credentials from database
-      await pool.query(
-        `UPDATE users 
-       SET nylas_access_token = NULL, 
-           nylas_account_id = NULL, 
-           has_nylas_auth = false,
-           updated_at = CURRENT_TIMESTAMP
-       WHERE id = $1`,
-        [user.id]
-      )
-
-      res.json({
-        success: true,
-        data: { message: "Nylas authorization revoked" },
-      })
-    } catch (error: any) {
-      console.error("Nylas revoke error:", error)
-      res.status(500).json({
-        success: false,
-        error: "Failed to revoke Nylas authorization",
-      })
-    }
-  }
-)
-
 export default router
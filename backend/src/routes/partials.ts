@@ -0,0 +1,127 @@
+import express from "express"
+import { authenticateToken } from "../middleware/auth"
+import { uuidParam } from "../middleware/uuidParam"
+import { AuthRequest, TemplatePartialKind } from "../types"
+import { PARTIAL_KINDS, TemplatePartialService } from "../services/templatePartialService"
+
+const router = express.Router()
+router.param("id", uuidParam("Partial not found"))
+
+const partialService = new TemplatePartialService()
+
+const isUniqueViolation = (error: any) => error?.code === "23505"
+
+// List partials and layouts (?kind=partial or ?kind=layout)
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const kind = req.query.kind as TemplatePartialKind | undefined
+    if (kind && !PARTIAL_KINDS.includes(kind)) {
+      return res.status(400).json({ success: false, error: `kind must be one of ${PARTIAL_KINDS.join(", ")}` })
+    }
+
+    res.json({ success: true, data: await partialService.list(req.user!.id, kind) })
+  } catch (error) {
+    console.error("Get partials error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch partials" })
+  }
+})
+
+router.get("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const partial = await partialService.find(req.user!.id, req.params.id)
+
+    if (!partial) {
+      return res.status(404).json({ success: false, error: "Partial not found" })
+    }
+
+    res.json({ success: true, data: partial })
+  } catch (error) {
+    console.error("Get partial error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch partial" })
+  }
+})
+
+// Earlier contents, newest first
+router.get("/:id/versions", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const versions = await partialService.versions(req.user!.id, req.params.id)
+
+    if (!versions) {
+      return res.status(404).json({ success: false, error: "Partial not found" })
+    }
+
+    res.json({ success: true, data: versions })
+  } catch (error) {
+    console.error("Get partial versions error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch partial versions" })
+  }
+})
+
+router.post("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { name, kind = "partial", content } = req.body
+    const input = { name: String(name || "").trim(), kind, content }
+
+    const invalid = await partialService.validate(req.user!.id, input)
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid })
+    }
+
+    res.status(201).json({ success: true, data: await partialService.create(req.user!.id, input) })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, error: "A partial or layout with this name already exists" })
+    }
+    console.error("Create partial error:", error)
+    res.status(500).json({ success: false, error: "Failed to create partial" })
+  }
+})
+
+// Update the content; every template using it renders with the new content from then on
+router.put("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { content } = req.body
+    const existing = await partialService.find(req.user!.id, req.params.id)
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: "Partial not found" })
+    }
+
+    const invalid = await partialService.validate(req.user!.id, { ...existing, content })
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid })
+    }
+
+    res.json({ success: true, data: await partialService.update(req.user!.id, existing.id, content) })
+  } catch (error) {
+    console.error("Update partial error:", error)
+    res.status(500).json({ success: false, error: "Failed to update partial" })
+  }
+})
+
+// Delete a partial or layout that no template or other partial uses
+router.delete("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const existing = await partialService.find(req.user!.id, req.params.id)
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: "Partial not found" })
+    }
+
+    const usedBy = await partialService.usages(req.user!.id, existing)
+    if (usedBy.length > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `Still used by ${usedBy.join(", ")}`,
+      })
+    }
+
+    await partialService.remove(req.user!.id, existing.id)
+    res.json({ success: true, message: "Partial deleted" })
+  } catch (error) {
+    console.error("Delete partial error:", error)
+    res.status(500).json({ success: false, error: "Failed to delete partial" })
+  }
+})
+
+export default router
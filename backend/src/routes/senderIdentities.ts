@@ -0,0 +1,101 @@
+import express from "express"
+import { authenticateToken } from "../middleware/auth"
+import { uuidParam } from "../middleware/uuidParam"
+import { AuthRequest, SenderIdentityInput } from "../types"
+import {
+  SenderIdentityService,
+  validateSenderIdentity,
+} from "../services/senderIdentityService"
+
+const router = express.Router()
+router.param("id", uuidParam("Sender identity not found"))
+
+const senderIdentityService = new SenderIdentityService()
+
+// List the user's sender identities
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const identities = await senderIdentityService.list(req.user!.id)
+
+    res.json({ success: true, data: identities })
+  } catch (error) {
+    console.error("Get sender identities error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch sender identities" })
+  }
+})
+
+// Create a sender identity; the response says whether the test connection passed
+router.post("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const body: SenderIdentityInput = req.body
+    const validationError = validateSenderIdentity(body)
+
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError })
+    }
+
+    const identity = await senderIdentityService.create(req.user!.id, body)
+
+    res.status(201).json({ success: true, data: identity })
+  } catch (error) {
+    console.error("Create sender identity error:", error)
+    res.status(500).json({ success: false, error: "Failed to create sender identity" })
+  }
+})
+
+// Update a sender identity and test it again
+router.put("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const body: SenderIdentityInput = req.body
+    const validationError = validateSenderIdentity(body)
+
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError })
+    }
+
+    const identity = await senderIdentityService.update(req.user!.id, req.params.id, body)
+
+    if (!identity) {
+      return res.status(404).json({ success: false, error: "Sender identity not found" })
+    }
+
+    res.json({ success: true, data: identity })
+  } catch (error) {
+    console.error("Update sender identity error:", error)
+    res.status(500).json({ success: false, error: "Failed to update sender identity" })
+  }
+})
+
+// Test the connection of a sender identity
+router.post("/:id/verify", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const identity = await senderIdentityService.verify(req.user!.id, req.params.id)
+
+    if (!identity) {
+      return res.status(404).json({ success: false, error: "Sender identity not found" })
+    }
+
+    res.json({ success: true, data: identity })
+  } catch (error) {
+    console.error("Verify sender identity error:", error)
+    res.status(500).json({ success: false, error: "Failed to verify sender identity" })
+  }
+})
+
+// Delete a sender identity; emails sent with it keep their history
+router.delete("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const deleted = await senderIdentityService.remove(req.user!.id, req.params.id)
+
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: "Sender identity not found" })
+    }
+
+    res.json({ success: true, message: "Sender identity deleted" })
+  } catch (error) {
+    console.error("Delete sender identity error:", error)
+    res.status(500).json({ success: false, error: "Failed to delete sender identity" })
+  }
+})
+
+export default router
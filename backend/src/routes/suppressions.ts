@@ -0,0 +1,119 @@
+import express from "express"
+import pool from "../database/connection"
+import { authenticateToken } from "../middleware/auth"
+import { uuidParam } from "../middleware/uuidParam"
+import { AuthRequest } from "../types"
+import { SuppressionService } from "../services/suppressionService"
+import { isValidContactEmail } from "../services/contactService"
+
+const router = express.Router()
+router.param("id", uuidParam("Suppression not found"))
+
+const suppressionService = new SuppressionService()
+
+// Loose match used to pull addresses out of pasted text or any CSV layout
+const EMAIL_IN_TEXT = /[^\s@,;"'<>]+@[^\s@,;"'<>]+\.[^\s@,;"'<>]+/g
+
+// List suppressed addresses, optionally filtered by a search term
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 50, q } = req.query
+    const offset = (Number(page) - 1) * Number(limit)
+    const search = q ? `%${String(q).replace(/[\\%_]/g, "\\$&")}%` : null
+
+    const result = await pool.query(
+      `SELECT * FROM suppressions
+       WHERE user_id = $1 AND ($2::text IS NULL OR email ILIKE $2)
+       ORDER BY created_at DESC LIMIT $3 OFFSET $4`,
+      [req.user!.id, search, limit, offset]
+    )
+
+    const countResult = await pool.query(
+      "SELECT COUNT(*) FROM suppressions WHERE user_id = $1 AND ($2::text IS NULL OR email ILIKE $2)",
+      [req.user!.id, search]
+    )
+
+    res.json({
+      success: true,
+      data: {
+        suppressions: result.rows,
+        total: parseInt(countResult.rows[0].count),
+        page: Number(page),
+        limit: Number(limit),
+      },
+    })
+  } catch (error) {
+    console.error("Get suppressions error:", error)
+    res.status(500).json({ success: false, error: "Failed to fetch suppressions" })
+  }
+})
+
+// Suppress a single address
+router.post("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { email } = req.body
+
+    if (!email || !isValidContactEmail(String(email).trim())) {
+      return res.status(400).json({ success: false, error: "A valid email is required" })
+    }
+
+    const added = await suppressionService.add(req.user!.id, [email], "manual")
+
+    res.status(added ? 201 : 200).json({
+      success: true,
+      data: { added },
+      message: added ? "Address suppressed" : "Address was already suppressed",
+    })
+  } catch (error) {
+    console.error("Add suppression error:", error)
+    res.status(500).json({ success: false, error: "Failed to add suppression" })
+  }
+})
+
+// Import addresses from CSV or plain text, one or more per line
+router.post("/import", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { content } = req.body
+
+    if (typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ success: false, error: "Import content is required" })
+    }
+
+    const emails = (content.match(EMAIL_IN_TEXT) || []).filter((email) =>
+      isValidContactEmail(email)
+    )
+
+    if (emails.length === 0) {
+      return res.status(400).json({ success: false, error: "No email addresses found" })
+    }
+
+    const added = await suppressionService.add(req.user!.id, emails, "import")
+    const unique = new Set(emails.map((email) => email.toLowerCase())).size
+
+    res.json({
+      success: true,
+      data: { added, already_suppressed: unique - added },
+    })
+  } catch (error) {
+    console.error("Import suppressions error:", error)
+    res.status(500).json({ success: false, error: "Failed to import suppressions" })
+  }
+})
+
+// Remove an address so it can be emailed again
+router.delete("/:id", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const removed = await suppressionService.remove(req.params.id, req.user!.id)
+
+    if (!removed) {
+      return res.status(404).json({ success: false, error: "Suppression not found" })
+    }
+
+    res.json({ success: true, message: "Suppression removed successfully" })
+  } catch (error) {
+    console.error("Remove suppression error:", error)
+    res.status(500).json({ success: false, error: "Failed to remove suppression" })
+  }
+})
+
+export default router
@@ -1,11 +1,41 @@
 import express from 'express';
 import pool from '../database/connection';
 import { authenticateToken } from '../middleware/auth';
+import { uuidParam } from '../middleware/uuidParam';
 import { AuthRequest, EmailTemplate } from '../types';
 import { TemplateEngine } from '../services/templateEngine';
+import { TemplateVersionService } from '../services/templateVersionService';
+import { diffTemplateVersions } from '../services/templateDiff';
+import { TemplatePartialService } from '../services/templatePartialService';
+import { TEMPLATE_HELPER_DOCS } from '../services/templateHelpers';
+import { frontMatterErrorMessage } from '../services/frontMatter';
+import { isUuid } from '../services/uuid';
 
 const router = express.Router();
+router.param('id', uuidParam('Template not found'));
+router.param('templateId', uuidParam('Template not found'));
+router.param('noteId', uuidParam('Note not found'));
+
 const templateEngine = new TemplateEngine();
+const versionService = new TemplateVersionService();
+const partialService = new TemplatePartialService(templateEngine);
+
+// Included partials must exist and the layout must be one of the user's layouts
+const checkPartials = async (userId: string, subject: string, body: string, layoutId?: string) => {
+  if (layoutId) {
+    const layout = isUuid(layoutId) ? await partialService.find(userId, layoutId) : null;
+    if (layout?.kind !== 'layout') {
+      return 'Layout not found';
+    }
+  }
+  return partialService.checkReferences(userId, [subject, body]);
+};
+
+// Version numbers start at 1
+const parseVersion = (value: unknown): number | null => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
 
 // Get all templates for user
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
@@ -25,6 +55,11 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Reference for the built-in helpers, used by the editor for autocomplete
+router.get('/helpers', authenticateToken, (req: AuthRequest, res) => {
+  res.json({ success: true, data: TEMPLATE_HELPER_DOCS });
+});
+
 // Get single template
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -52,7 +87,7 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
 // Create template
 router.post('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { name, subject, body } = req.body;
+    const { name, subject, body, track_engagement = false, layout_id } = req.body;
 
     if (!name || !subject || !body) {
       return res.status(400).json({ success: false, error: 'Name, subject, and body are required' });
@@ -68,12 +103,17 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
       });
     }
 
+    const partialError = await checkPartials(req.user!.id, subject, body, layout_id);
+    if (partialError) {
+      return res.status(400).json({ success: false, error: partialError });
+    }
+
     // Extract variables from template
     const variables = templateEngine.extractTemplateVariables(subject, body);
 
     const result = await pool.query(
-      'INSERT INTO email_templates (user_id, name, subject, body, variables) VALUES ($1, $2, $3, $4, $5) RETURNING *',
-      [req.user!.id, name, subject, body, JSON.stringify(variables)]
+      'INSERT INTO email_templates (user_id, name, subject, body, variables, track_engagement, layout_id) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *',
+      [req.user!.id, name, subject, body, JSON.stringify(variables), Boolean(track_engagement), layout_id || null]
     );
 
     res.status(201).json({
@@ -90,12 +130,16 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
 router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { name, subject, body } = req.body;
+    const { name, subject, body, track_engagement, layout_id } = req.body;
 
     if (!name || !subject || !body) {
       return res.status(400).json({ success: false, error: 'Name, subject, and body are required' });
     }
 
+    // An omitted track_engagement or layout_id keeps the stored setting; a null layout_id detaches the layout
+    const trackEngagement = 'track_engagement' in req.body ? Boolean(track_engagement) : null;
+    const setLayout = 'layout_id' in req.body;
+
     // Validate template syntax
     const validation = templateEngine.validateTemplate(subject, body);
     if (!validation.valid) {
@@ -106,12 +150,17 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
       });
     }
 
+    const partialError = await checkPartials(req.user!.id, subject, body, layout_id);
+    if (partialError) {
+      return res.status(400).json({ success: false, error: partialError });
+    }
+
     // Extract variables from template
     const variables = templateEngine.extractTemplateVariables(subject, body);
 
     const result = await pool.query(
-      'UPDATE email_templates SET name = $1, subject = $2, body = $3, variables = $4, updated_at = CURRENT_TIMESTAMP WHERE id = $5 AND user_id = $6 AND is_active = true RETURNING *',
-      [name, subject, body, JSON.stringify(variables), id, req.user!.id]
+      'UPDATE email_templates SET name = $1, subject = $2, body = $3, variables = $4, track_engagement = COALESCE($5, track_engagement), layout_id = CASE WHEN $6 THEN $7::uuid ELSE layout_id END, updated_at = CURRENT_TIMESTAMP WHERE id = $8 AND user_id = $9 AND is_active = true RETURNING *',
+      [name, subject, body, JSON.stringify(variables), trackEngagement, setLayout, layout_id || null, id, req.user!.id]
     );
 
     if (result.rows.length === 0) {
@@ -128,6 +177,107 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// List a template's versions, newest first (the current one is marked is_current)
+router.get('/:id/versions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const versions = await versionService.list(req.user!.id, req.params.id);
+
+    if (!versions) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    res.json({
+      success: true,
+      data: versions
+    });
+  } catch (error) {
+    console.error('Get template versions error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch template versions' });
+  }
+});
+
+// Get one version of a template
+router.get('/:id/versions/:version', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (!version) {
+      return res.status(400).json({ success: false, error: 'Invalid version' });
+    }
+
+    const found = await versionService.find(req.user!.id, req.params.id, version);
+
+    if (!found) {
+      return res.status(404).json({ success: false, error: 'Template version not found' });
+    }
+
+    res.json({
+      success: true,
+      data: found
+    });
+  } catch (error) {
+    console.error('Get template version error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch template version' });
+  }
+});
+
+// Line diff of the subject and body between two versions (?from=&to=, to defaults to the current one)
+router.get('/:id/diff', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const from = parseVersion(req.query.from);
+    const to = req.query.to === undefined ? null : parseVersion(req.query.to);
+
+    if (!from || (req.query.to !== undefined && !to)) {
+      return res.status(400).json({ success: false, error: 'from (and optionally to) must be version numbers' });
+    }
+
+    const versions = await versionService.list(req.user!.id, id);
+
+    if (!versions) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    const fromVersion = versions.find((version) => version.version === from);
+    const toVersion = to ? versions.find((version) => version.version === to) : versions.find((version) => version.is_current);
+
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ success: false, error: 'Template version not found' });
+    }
+
+    res.json({
+      success: true,
+      data: diffTemplateVersions(fromVersion, toVersion)
+    });
+  } catch (error) {
+    console.error('Template diff error:', error);
+    res.status(500).json({ success: false, error: 'Failed to compare template versions' });
+  }
+});
+
+// Restore an old version's subject and body as a new version
+router.post('/:id/versions/:version/rollback', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (!version) {
+      return res.status(400).json({ success: false, error: 'Invalid version' });
+    }
+
+    const template = await versionService.rollback(req.user!.id, req.params.id, version);
+
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template version not found' });
+    }
+
+    res.json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Template rollback error:', error);
+    res.status(500).json({ success: false, error: 'Failed to restore template version' });
+  }
+});
+
 // Delete template (soft delete)
 router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -180,8 +330,14 @@ router.post('/:templateId/preview/:noteId', authenticateToken, async (req: AuthR
     const template = templateResult.rows[0];
     const note = noteResult.rows[0];
 
-    // Render template with note data
-    const rendered = templateEngine.renderTemplate(template, note);
+    const { error: frontMatterError } = templateEngine.noteFrontMatter(note.content);
+    if (frontMatterError) {
+      return res.status(400).json({ success: false, error: frontMatterErrorMessage(frontMatterError) });
+    }
+
+    // Render template with note data, resolving the user's partials and its layout
+    const parts = await partialService.partsFor(req.user!.id, template.layout_id);
+    const rendered = templateEngine.renderTemplate(template, note, {}, parts);
 
     res.json({
       success: true,
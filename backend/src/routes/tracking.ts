@@ -0,0 +1,54 @@
+import express from "express"
+import { TrackingService } from "../services/trackingService"
+import { EmailEventService } from "../services/emailEventService"
+
+// Public open pixel and click redirect put into tracked emails
+const router = express.Router()
+const trackingService = new TrackingService()
+const emailEventService = new EmailEventService()
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from(
+  "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7",
+  "base64"
+)
+
+router.get("/open/:id/:signature", async (req, res) => {
+  const { id, signature } = req.params
+
+  if (trackingService.verifyOpen(id, signature)) {
+    try {
+      await emailEventService.recordEngagement(id, "opened")
+    } catch (error) {
+      console.error("Record open error:", error)
+    }
+  }
+
+  // The image is always served so mail clients never show a broken icon
+  res.set({
+    "Content-Type": "image/gif",
+    "Cache-Control": "no-store, no-cache, must-revalidate, private",
+    // Webmail clients load the pixel from their own origin
+    "Cross-Origin-Resource-Policy": "cross-origin",
+  })
+  res.send(PIXEL)
+})
+
+router.get("/click/:id/:signature", async (req, res) => {
+  const { id, signature } = req.params
+  const { url } = req.query
+
+  if (typeof url !== "string" || !trackingService.verifyClick(id, url, signature)) {
+    return res.status(400).type("text/plain").send("Invalid link")
+  }
+
+  try {
+    await emailEventService.recordEngagement(id, "clicked", url)
+  } catch (error) {
+    console.error("Record click error:", error)
+  }
+
+  res.redirect(302, url)
+})
+
+export default router
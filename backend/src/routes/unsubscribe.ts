@@ -0,0 +1,84 @@
+import express from "express"
+import { SuppressionService } from "../services/suppressionService"
+
+// Public routes reached from the links and List-Unsubscribe headers in sent
+// mail. Recipients are not users, so these render plain HTML, not JSON.
+const router = express.Router()
+const suppressionService = new SuppressionService()
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[
+        char
+      ] as string)
+  )
+
+const page = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+</head>
+<body style="font-family: sans-serif; max-width: 480px; margin: 64px auto; padding: 0 16px; color: #111827;">
+<h1 style="font-size: 20px;">${title}</h1>
+${body}
+</body>
+</html>`
+
+const invalidLink = (res: express.Response) =>
+  res
+    .status(400)
+    .send(page("Invalid link", "<p>This unsubscribe link is invalid or has been altered.</p>"))
+
+// Confirmation page, so link scanners that follow GET do not unsubscribe anyone
+router.get("/:token", (req, res) => {
+  const recipient = suppressionService.verifyUnsubscribeToken(req.params.token)
+
+  if (!recipient) {
+    return invalidLink(res)
+  }
+
+  res.send(
+    page(
+      "Unsubscribe",
+      `<p>Stop receiving emails from this sender at <strong>${escapeHtml(
+        recipient.email
+      )}</strong>?</p>
+<form method="post">
+<button type="submit" style="padding: 8px 16px;">Unsubscribe</button>
+</form>`
+    )
+  )
+})
+
+// Confirmation form and RFC 8058 one-click requests from mail clients
+router.post("/:token", async (req, res) => {
+  const recipient = suppressionService.verifyUnsubscribeToken(req.params.token)
+
+  if (!recipient) {
+    return invalidLink(res)
+  }
+
+  try {
+    await suppressionService.add(recipient.userId, [recipient.email], "unsubscribe")
+
+    res.send(
+      page(
+        "Unsubscribed",
+        `<p><strong>${escapeHtml(
+          recipient.email
+        )}</strong> will no longer receive emails from this sender.</p>`
+      )
+    )
+  } catch (error) {
+    console.error("Unsubscribe error:", error)
+    res
+      .status(500)
+      .send(page("Something went wrong", "<p>Please try again later.</p>"))
+  }
+})
+
+export default router
@@ -0,0 +1,77 @@
+import express from "express"
+import { InboundEmailEvent, WebhookRequest } from "../types"
+import { EmailEventService } from "../services/emailEventService"
+import {
+  parseGenericEvents,
+  parseNylasEvent,
+  verifyWebhookSignature,
+} from "../services/webhookAdapters"
+
+// Provider callbacks; these are authenticated by signature, not by user token
+const router = express.Router()
+const emailEventService = new EmailEventService()
+
+// Nylas checks a new webhook by expecting its challenge echoed back
+router.get("/nylas", (req, res) => {
+  const { challenge } = req.query
+
+  if (typeof challenge !== "string") {
+    return res.status(400).json({ success: false, error: "Missing challenge" })
+  }
+
+  res.type("text/plain").send(challenge)
+})
+
+// Nylas message events (send success, bounce detected)
+router.post("/nylas", async (req: WebhookRequest, res) => {
+  const secret = process.env.NYLAS_WEBHOOK_SECRET
+
+  if (!secret) {
+    return res.status(503).json({ success: false, error: "Nylas webhook is not configured" })
+  }
+
+  if (!verifyWebhookSignature(req.rawBody, req.get("x-nylas-signature"), secret)) {
+    return res.status(401).json({ success: false, error: "Invalid signature" })
+  }
+
+  try {
+    const result = await emailEventService.ingest("nylas", parseNylasEvent(req.body))
+    res.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Nylas webhook error:", error)
+    res.status(500).json({ success: false, error: "Failed to process webhook" })
+  }
+})
+
+// Provider-neutral events, signed with WEBHOOK_SECRET in X-Webhook-Signature
+router.post("/events", async (req: WebhookRequest, res) => {
+  const secret = process.env.WEBHOOK_SECRET
+
+  if (!secret) {
+    return res.status(503).json({ success: false, error: "Webhook is not configured" })
+  }
+
+  if (!verifyWebhookSignature(req.rawBody, req.get("x-webhook-signature"), secret)) {
+    return res.status(401).json({ success: false, error: "Invalid signature" })
+  }
+
+  let events: InboundEmailEvent[]
+  try {
+    events = parseGenericEvents(req.body)
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Invalid events",
+    })
+  }
+
+  try {
+    const result = await emailEventService.ingest("generic", events)
+    res.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Webhook events error:", error)
+    res.status(500).json({ success: false, error: "Failed to process webhook" })
+  }
+})
+
+export default router
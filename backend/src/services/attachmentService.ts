@@ -0,0 +1,172 @@
+import { v4 as uuidv4 } from "uuid"
+import { PoolClient } from "pg"
+import pool from "../database/connection"
+import { EmailAttachment, OutgoingAttachment } from "../types"
+import { attachmentStorage, StorageDriver } from "./storage"
+
+export const ATTACHMENT_MAX_BYTES = parseInt(
+  process.env.ATTACHMENT_MAX_BYTES || String(10 * 1024 * 1024)
+)
+export const ATTACHMENT_MAX_TOTAL_BYTES = parseInt(
+  process.env.ATTACHMENT_MAX_TOTAL_BYTES || String(25 * 1024 * 1024)
+)
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "application/pdf",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+]
+
+export class AttachmentService {
+  constructor(private storage: StorageDriver = attachmentStorage) {}
+
+  /**
+   * Store an uploaded file. It stays unlinked until a send claims it.
+   * Passing a content id stores it as an inline image.
+   */
+  public async create(
+    userId: string,
+    file: { originalname: string; mimetype: string; size: number; buffer: Buffer },
+    contentId?: string
+  ): Promise<EmailAttachment> {
+    const storageKey = `${userId}/${uuidv4()}`
+    await this.storage.put(storageKey, file.buffer)
+
+    const result = await pool.query(
+      `INSERT INTO email_attachments (user_id, filename, content_type, size_bytes, storage_driver, storage_key, content_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [userId, file.originalname, file.mimetype, file.size, this.storage.name, storageKey, contentId ?? null]
+    )
+
+    return result.rows[0]
+  }
+
+  public async getForUser(
+    id: string,
+    userId: string
+  ): Promise<EmailAttachment | null> {
+    const result = await pool.query(
+      "SELECT * FROM email_attachments WHERE id = $1 AND user_id = $2",
+      [id, userId]
+    )
+    return result.rows[0] || null
+  }
+
+  public async listForSentEmail(sentEmailId: string): Promise<EmailAttachment[]> {
+    const result = await pool.query(
+      "SELECT * FROM email_attachments WHERE sent_email_id = $1 ORDER BY created_at",
+      [sentEmailId]
+    )
+    return result.rows
+  }
+
+  public async readContent(attachment: EmailAttachment): Promise<Buffer> {
+    return this.storage.get(attachment.storage_key)
+  }
+
+  /**
+   * Find uploads of a user that have not been attached to a sent email yet
+   */
+  public async findUnsent(
+    userId: string,
+    attachmentIds: string[]
+  ): Promise<EmailAttachment[]> {
+    const result = await pool.query(
+      `SELECT * FROM email_attachments
+       WHERE id = ANY($1::uuid[]) AND user_id = $2 AND sent_email_id IS NULL`,
+      [attachmentIds, userId]
+    )
+    return result.rows
+  }
+
+  /**
+   * Link unclaimed uploads to a sent email inside the caller's transaction
+   */
+  public async linkToSentEmail(
+    client: PoolClient,
+    userId: string,
+    sentEmailId: string,
+    attachmentIds: string[]
+  ): Promise<void> {
+    if (attachmentIds.length === 0) {
+      return
+    }
+
+    const result = await client.query(
+      `UPDATE email_attachments SET sent_email_id = $1
+       WHERE id = ANY($2::uuid[]) AND user_id = $3 AND sent_email_id IS NULL`,
+      [sentEmailId, attachmentIds, userId]
+    )
+
+    if (result.rowCount !== attachmentIds.length) {
+      throw new Error("Attachments were claimed by another send")
+    }
+  }
+
+  /**
+   * Attach the files of an earlier email (not its inline images) to a new
+   * one inside the caller's transaction. The copies point at the same
+   * stored content, which is safe since content is only ever deleted for
+   * uploads that were never sent.
+   */
+  public async copyToSentEmail(
+    client: PoolClient,
+    fromSentEmailId: string,
+    toSentEmailId: string
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO email_attachments (user_id, sent_email_id, filename, content_type, size_bytes, storage_driver, storage_key)
+       SELECT user_id, $2, filename, content_type, size_bytes, storage_driver, storage_key
+       FROM email_attachments
+       WHERE sent_email_id = $1 AND content_id IS NULL
+       ORDER BY created_at`,
+      [fromSentEmailId, toSentEmailId]
+    )
+  }
+
+  /**
+   * Load attachment contents for delivery
+   */
+  public async loadForDelivery(sentEmailId: string): Promise<OutgoingAttachment[]> {
+    const attachments = await this.listForSentEmail(sentEmailId)
+
+    return Promise.all(
+      attachments.map(async (attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.content_type,
+        content: await this.readContent(attachment),
+        cid: attachment.content_id,
+      }))
+    )
+  }
+
+  /**
+   * Delete an upload that has not been sent yet
+   */
+  public async deleteUnsent(id: string, userId: string): Promise<boolean> {
+    const result = await pool.query(
+      `DELETE FROM email_attachments
+       WHERE id = $1 AND user_id = $2 AND sent_email_id IS NULL RETURNING *`,
+      [id, userId]
+    )
+
+    if (result.rows.length === 0) {
+      return false
+    }
+
+    await this.storage.delete(result.rows[0].storage_key)
+    return true
+  }
+}
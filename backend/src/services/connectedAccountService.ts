@@ -0,0 +1,183 @@
+import { PoolClient } from "pg"
+import pool from "../database/connection"
+import { AccountProvider, ConnectedAccount } from "../types"
+import { decryptSecret, encryptSecret } from "./secretBox"
+import { isUuid } from "./uuid"
+
+// What the API returns: tokens never leave the server
+export type PublicConnectedAccount = Omit<
+  ConnectedAccount,
+  "access_token" | "refresh_token" | "token_expires_at"
+>
+
+export const toPublicAccount = ({
+  access_token,
+  refresh_token,
+  token_expires_at,
+  ...account
+}: ConnectedAccount): PublicConnectedAccount => account
+
+// The Nylas grant ID of an account, kept encrypted in access_token
+export const nylasGrant = (account: ConnectedAccount): string =>
+  decryptSecret(account.access_token!)
+
+export interface AccountCredentials {
+  provider: AccountProvider
+  email: string
+  accessToken: string
+  refreshToken?: string
+  expiresAt?: Date
+}
+
+export class ConnectedAccountService {
+  public async list(userId: string): Promise<ConnectedAccount[]> {
+    const result = await pool.query(
+      "SELECT * FROM connected_accounts WHERE user_id = $1 ORDER BY is_default DESC, created_at",
+      [userId]
+    )
+    return result.rows
+  }
+
+  public async find(userId: string, id: string): Promise<ConnectedAccount | null> {
+    if (!isUuid(id)) {
+      return null
+    }
+
+    const result = await pool.query(
+      "SELECT * FROM connected_accounts WHERE id = $1 AND user_id = $2",
+      [id, userId]
+    )
+    return result.rows[0] || null
+  }
+
+  public async findDefault(userId: string): Promise<ConnectedAccount | null> {
+    const result = await pool.query(
+      "SELECT * FROM connected_accounts WHERE user_id = $1 AND is_default",
+      [userId]
+    )
+    return result.rows[0] || null
+  }
+
+  /**
+   * The account an email is sent from: the one picked for it, or the
+   * user's default when none was picked or it has been disconnected since
+   */
+  public async forSending(userId: string, id?: string | null): Promise<ConnectedAccount | null> {
+    const picked = id ? await this.find(userId, id) : null
+    return picked || this.findDefault(userId)
+  }
+
+  /**
+   * A Nylas mailbox to read from: the given one, else the default account
+   * when it is Nylas, else the first Nylas account connected
+   */
+  public async findNylas(userId: string, id?: string): Promise<ConnectedAccount | null> {
+    if (id && !isUuid(id)) {
+      return null
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM connected_accounts
+       WHERE user_id = $1 AND provider = 'nylas' AND access_token IS NOT NULL
+         AND ($2::uuid IS NULL OR id = $2)
+       ORDER BY is_default DESC, created_at
+       LIMIT 1`,
+      [userId, id || null]
+    )
+    return result.rows[0] || null
+  }
+
+  /**
+   * Store the tokens of an authorized mailbox, encrypted. Authorizing a
+   * mailbox again refreshes its tokens; the first account a user connects
+   * becomes the default. Pass the client of an open transaction to store
+   * them atomically with other changes.
+   */
+  public async connect(
+    userId: string,
+    credentials: AccountCredentials,
+    client: PoolClient | typeof pool = pool
+  ): Promise<ConnectedAccount> {
+    const result = await client.query(
+      `INSERT INTO connected_accounts (user_id, provider, email, access_token, refresh_token, token_expires_at, is_default)
+       VALUES ($1, $2, $3, $4, $5, $6,
+               NOT EXISTS (SELECT 1 FROM connected_accounts WHERE user_id = $1 AND is_default))
+       ON CONFLICT (user_id, provider, email) DO UPDATE
+       SET access_token = EXCLUDED.access_token,
+           -- Google only returns a refresh token on the first consent
+           refresh_token = COALESCE(EXCLUDED.refresh_token, connected_accounts.refresh_token),
+           token_expires_at = EXCLUDED.token_expires_at
+       RETURNING *`,
+      [
+        userId,
+        credentials.provider,
+        credentials.email.toLowerCase(),
+        encryptSecret(credentials.accessToken),
+        credentials.refreshToken ? encryptSecret(credentials.refreshToken) : null,
+        credentials.expiresAt || null,
+      ]
+    )
+    return result.rows[0]
+  }
+
+  public async setDefault(userId: string, id: string): Promise<ConnectedAccount | null> {
+    if (!isUuid(id)) {
+      return null
+    }
+
+    const client = await pool.connect()
+
+    try {
+      await client.query("BEGIN")
+      // Cleared first, since only one default per user is allowed at any time
+      await client.query(
+        "UPDATE connected_accounts SET is_default = false WHERE user_id = $1 AND is_default AND id <> $2",
+        [userId, id]
+      )
+      const result = await client.query(
+        "UPDATE connected_accounts SET is_default = true WHERE id = $1 AND user_id = $2 RETURNING *",
+        [id, userId]
+      )
+
+      if (result.rows.length === 0) {
+        await client.query("ROLLBACK")
+        return null
+      }
+
+      await client.query("COMMIT")
+      return result.rows[0]
+    } catch (error) {
+      await client.query("ROLLBACK")
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Forget an account. When it was the default, the oldest remaining
+   * account takes over. Returns the removed account so its grant can be
+   * revoked.
+   */
+  public async disconnect(userId: string, id: string): Promise<ConnectedAccount | null> {
+    if (!isUuid(id)) {
+      return null
+    }
+
+    const result = await pool.query(
+      "DELETE FROM connected_accounts WHERE id = $1 AND user_id = $2 RETURNING *",
+      [id, userId]
+    )
+    const removed: ConnectedAccount | undefined = result.rows[0]
+
+    if (removed?.is_default) {
+      await pool.query(
+        `UPDATE connected_accounts SET is_default = true
+         WHERE id = (SELECT id FROM connected_accounts WHERE user_id = $1 ORDER BY created_at LIMIT 1)`,
+        [userId]
+      )
+    }
+
+    return removed || null
+  }
+}
@@ -0,0 +1,40 @@
+import { contactVariables, reservedContactField } from "./contactService"
+
+describe("contactVariables", () => {
+  it("adds the built-in fields after the custom ones", () => {
+    expect(
+      contactVariables({
+        email: "ann@example.com",
+        first_name: "Ann",
+        last_name: "Lee",
+        fields: { plan: "pro", email: "other@example.com" },
+      })
+    ).toEqual({
+      plan: "pro",
+      email: "ann@example.com",
+      first_name: "Ann",
+      last_name: "Lee",
+      full_name: "Ann Lee",
+      company: "",
+    })
+  })
+
+  it("leaves out custom fields named like note variables", () => {
+    const variables = contactVariables({
+      email: "ann@example.com",
+      fields: { note_content_html: "<p>Replaced</p>", note_title: "Replaced", plan: "pro" },
+    })
+
+    expect(variables).not.toHaveProperty("note_content_html")
+    expect(variables).not.toHaveProperty("note_title")
+    expect(variables.plan).toBe("pro")
+  })
+})
+
+describe("reservedContactField", () => {
+  it("finds a custom field that would redefine a note variable", () => {
+    expect(reservedContactField({ plan: "pro", note_title: "x" })).toBe("note_title")
+    expect(reservedContactField({ plan: "pro" })).toBeUndefined()
+    expect(reservedContactField(undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,180 @@
+import pool from "../database/connection"
+import { Contact, ContactInput, MergeRow } from "../types"
+import { parseCsv } from "./csvParser"
+import { parseVCards } from "./vcardParser"
+import { NOTE_VARIABLES } from "./templateEngine"
+
+export type ContactImportFormat = "csv" | "vcard"
+
+export interface ContactImportResult {
+  created: number
+  updated: number
+  skipped: number
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Common CSV header spellings for the built-in contact fields
+const CSV_COLUMN_ALIASES: Record<string, keyof Omit<ContactInput, "fields">> = {
+  email: "email",
+  e_mail: "email",
+  email_address: "email",
+  first_name: "first_name",
+  firstname: "first_name",
+  given_name: "first_name",
+  last_name: "last_name",
+  lastname: "last_name",
+  surname: "last_name",
+  family_name: "last_name",
+  company: "company",
+  organization: "company",
+  organisation: "company",
+}
+
+const toVariableName = (column: string) =>
+  column
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+
+export const isValidContactEmail = (email: string) => EMAIL_PATTERN.test(email)
+
+// A custom field named like a note variable, which would replace the note's value when rendering
+export const reservedContactField = (fields?: Record<string, unknown> | null) =>
+  Object.keys(fields || {}).find((key) => NOTE_VARIABLES.includes(key))
+
+/**
+ * Template variables for a contact. Custom fields come first so the
+ * built-in ones cannot be shadowed by an imported column, and fields named
+ * like note variables are left out.
+ */
+export function contactVariables(contact: Contact | ContactInput): MergeRow {
+  const fields = Object.entries(contact.fields || {}).filter(([key]) => !NOTE_VARIABLES.includes(key))
+
+  return {
+    ...Object.fromEntries(fields),
+    email: contact.email,
+    first_name: contact.first_name || "",
+    last_name: contact.last_name || "",
+    full_name: [contact.first_name, contact.last_name].filter(Boolean).join(" "),
+    company: contact.company || "",
+  }
+}
+
+export class ContactService {
+  public async findByEmails(userId: string, emails: string[]): Promise<Contact[]> {
+    const result = await pool.query(
+      "SELECT * FROM contacts WHERE user_id = $1 AND email = ANY($2::text[])",
+      [userId, emails.map((email) => email.trim().toLowerCase())]
+    )
+    return result.rows
+  }
+
+  public async listMembers(listId: string, userId: string): Promise<Contact[]> {
+    const result = await pool.query(
+      `SELECT c.* FROM contacts c
+       JOIN contact_list_members m ON m.contact_id = c.id
+       JOIN contact_lists l ON l.id = m.list_id
+       WHERE m.list_id = $1 AND l.user_id = $2
+       ORDER BY c.email`,
+      [listId, userId]
+    )
+    return result.rows
+  }
+
+  /**
+   * Parse an uploaded address book. CSV columns other than the built-in
+   * fields are kept as custom fields.
+   */
+  public parseImport(format: ContactImportFormat, content: string): ContactInput[] {
+    if (format === "vcard") {
+      return parseVCards(content)
+    }
+
+    return parseCsv(content).rows.map((row) => {
+      const contact: ContactInput = { email: "", fields: {} }
+
+      Object.entries(row).forEach(([column, value]) => {
+        const key = toVariableName(column)
+        const field = CSV_COLUMN_ALIASES[key]
+
+        if (field) {
+          contact[field] = value
+        } else if (key && value) {
+          contact.fields![key] = value
+        }
+      })
+
+      return contact
+    })
+  }
+
+  /**
+   * Create or update contacts by email, optionally adding them to a list.
+   * Existing values are only overwritten by non-empty imported ones.
+   */
+  public async upsertMany(
+    userId: string,
+    contacts: ContactInput[],
+    listId?: string
+  ): Promise<ContactImportResult> {
+    const valid = contacts.filter((contact) =>
+      isValidContactEmail(contact.email.trim())
+    )
+    const result: ContactImportResult = {
+      created: 0,
+      updated: 0,
+      skipped: contacts.length - valid.length,
+    }
+
+    const client = await pool.connect()
+
+    try {
+      await client.query("BEGIN")
+
+      for (const contact of valid) {
+        const upserted = await client.query(
+          `INSERT INTO contacts (user_id, email, first_name, last_name, company, fields)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (user_id, email) DO UPDATE SET
+             first_name = COALESCE(EXCLUDED.first_name, contacts.first_name),
+             last_name = COALESCE(EXCLUDED.last_name, contacts.last_name),
+             company = COALESCE(EXCLUDED.company, contacts.company),
+             fields = contacts.fields || EXCLUDED.fields
+           RETURNING id, (xmax = 0) AS inserted`,
+          [
+            userId,
+            contact.email.trim().toLowerCase(),
+            contact.first_name || null,
+            contact.last_name || null,
+            contact.company || null,
+            JSON.stringify(contact.fields || {}),
+          ]
+        )
+
+        if (upserted.rows[0].inserted) {
+          result.created++
+        } else {
+          result.updated++
+        }
+
+        if (listId) {
+          await client.query(
+            `INSERT INTO contact_list_members (list_id, contact_id)
+             VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+            [listId, upserted.rows[0].id]
+          )
+        }
+      }
+
+      await client.query("COMMIT")
+      return result
+    } catch (error) {
+      await client.query("ROLLBACK")
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { parseCsv } from "./csvParser"
+
+describe("parseCsv", () => {
+  it("maps each row to the header columns", () => {
+    expect(parseCsv("email,name\na@example.com,Ann\nb@example.com,Bob\n")).toEqual({
+      columns: ["email", "name"],
+      rows: [
+        { email: "a@example.com", name: "Ann" },
+        { email: "b@example.com", name: "Bob" },
+      ],
+    })
+  })
+
+  it("reads quoted fields with commas, newlines and doubled quotes", () => {
+    const { rows } = parseCsv('email,note\na@example.com,"Hi, ""Ann""\nsee you"\n')
+    expect(rows).toEqual([{ email: "a@example.com", note: 'Hi, "Ann"\nsee you' }])
+  })
+
+  it("handles CRLF line endings, a BOM and blank lines", () => {
+    const { columns, rows } = parseCsv("\uFEFFemail,name\r\n\r\na@example.com,Ann\r\n")
+    expect(columns).toEqual(["email", "name"])
+    expect(rows).toEqual([{ email: "a@example.com", name: "Ann" }])
+  })
+
+  it("trims values and fills missing trailing fields with empty strings", () => {
+    const { rows } = parseCsv(" email , name \n a@example.com \n")
+    expect(rows).toEqual([{ email: "a@example.com", name: "" }])
+  })
+
+  it("rejects rows with more fields than the header", () => {
+    expect(() => parseCsv("email\na@example.com,extra\n")).toThrow(
+      "Row 2 has 2 fields, expected 1"
+    )
+  })
+
+  it("rejects empty input and bad headers", () => {
+    expect(() => parseCsv("")).toThrow("CSV is empty")
+    expect(() => parseCsv("email,,name\n")).toThrow("empty column name")
+    expect(() => parseCsv("email,email\n")).toThrow("duplicate column names")
+  })
+
+  it("rejects an unterminated quoted field", () => {
+    expect(() => parseCsv('email\n"a@example.com\n')).toThrow("unterminated quoted field")
+  })
+})
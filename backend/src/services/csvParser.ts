@@ -0,0 +1,97 @@
+import { MergeRow } from "../types"
+
+export interface ParsedCsv {
+  columns: string[]
+  rows: MergeRow[]
+}
+
+/**
+ * Parse RFC 4180 CSV text whose first row is the header. Quoted fields may
+ * contain commas, newlines and doubled quotes; blank lines are skipped.
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const records = splitRecords(text.replace(/^\uFEFF/, ""))
+  if (records.length === 0) {
+    throw new Error("CSV is empty")
+  }
+
+  const columns = records[0].map((column) => column.trim())
+  if (columns.some((column) => !column)) {
+    throw new Error("CSV header contains an empty column name")
+  }
+  if (new Set(columns).size !== columns.length) {
+    throw new Error("CSV header contains duplicate column names")
+  }
+
+  const rows = records.slice(1).map((record, index) => {
+    if (record.length > columns.length) {
+      throw new Error(
+        `Row ${index + 2} has ${record.length} fields, expected ${columns.length}`
+      )
+    }
+
+    const row: MergeRow = {}
+    columns.forEach((column, columnIndex) => {
+      row[column] = (record[columnIndex] ?? "").trim()
+    })
+    return row
+  })
+
+  return { columns, rows }
+}
+
+function splitRecords(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  const endRecord = () => {
+    record.push(field)
+    // A line with a single empty field is a blank line
+    if (record.length > 1 || record[0] !== "") {
+      records.push(record)
+    }
+    record = []
+    field = ""
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === ",") {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++
+      }
+      endRecord()
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("CSV has an unterminated quoted field")
+  }
+  if (field !== "" || record.length > 0) {
+    endRecord()
+  }
+
+  return records
+}
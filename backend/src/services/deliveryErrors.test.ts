@@ -0,0 +1,66 @@
+import { classifyHttpStatus, classifySendError, rejectedRecipients } from "./deliveryErrors"
+
+describe("classifySendError", () => {
+  it("treats SMTP 4xx replies as transient and 5xx as permanent", () => {
+    expect(classifySendError({ responseCode: 421 })).toBe("transient")
+    expect(classifySendError({ responseCode: 550 })).toBe("permanent")
+  })
+
+  it("treats authentication and envelope errors as permanent", () => {
+    expect(classifySendError({ code: "EAUTH" })).toBe("permanent")
+    expect(classifySendError({ code: "EENVELOPE" })).toBe("permanent")
+  })
+
+  it("treats network errors as transient", () => {
+    expect(classifySendError({ code: "ECONNRESET" })).toBe("transient")
+    expect(classifySendError({ code: "ETIMEDOUT" })).toBe("transient")
+  })
+
+  it("classifies provider errors by their HTTP status", () => {
+    expect(classifySendError({ response: { status: 429 } })).toBe("transient")
+    expect(classifySendError({ response: { status: 503 } })).toBe("transient")
+    expect(classifySendError({ status: 400 })).toBe("permanent")
+  })
+
+  it("treats revoked grants as permanent", () => {
+    expect(classifySendError(new Error("invalid_grant"))).toBe("permanent")
+  })
+
+  it("retries errors it does not recognize", () => {
+    expect(classifySendError(new Error("Something odd"))).toBe("transient")
+    expect(classifySendError(undefined)).toBe("transient")
+  })
+})
+
+describe("classifyHttpStatus", () => {
+  it("retries timeouts, rate limits and server errors only", () => {
+    expect(classifyHttpStatus(408)).toBe("transient")
+    expect(classifyHttpStatus(429)).toBe("transient")
+    expect(classifyHttpStatus(500)).toBe("transient")
+    expect(classifyHttpStatus(401)).toBe("permanent")
+    expect(classifyHttpStatus(404)).toBe("permanent")
+  })
+})
+
+describe("rejectedRecipients", () => {
+  it("classifies each refused address from nodemailer's rejectedErrors", () => {
+    expect(
+      rejectedRecipients({
+        rejectedErrors: [
+          { recipient: "a@example.com", message: "Mailbox full", responseCode: 452 },
+          { recipient: "b@example.com", message: "No such user", responseCode: 550 },
+        ],
+      })
+    ).toEqual([
+      { email: "a@example.com", error: "Mailbox full", errorClass: "transient" },
+      { email: "b@example.com", error: "No such user", errorClass: "permanent" },
+    ])
+  })
+
+  it("treats bare rejected addresses as permanent", () => {
+    expect(rejectedRecipients({ rejected: ["a@example.com", { address: "b@example.com" }] })).toEqual([
+      { email: "a@example.com", error: "Recipient rejected", errorClass: "permanent" },
+      { email: "b@example.com", error: "Recipient rejected", errorClass: "permanent" },
+    ])
+  })
+})
@@ -0,0 +1,82 @@
+import { DeliveryErrorClass, RejectedRecipient } from "../types"
+
+// Node/nodemailer error codes that indicate the network or server was unreachable
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNECTION",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ESOCKET",
+  "EDNS",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+])
+
+/**
+ * Classify an HTTP provider response. Rate limiting, timeouts and 5xx are
+ * worth retrying; any other 4xx (bad request, auth failure) is not.
+ */
+export function classifyHttpStatus(status: number): DeliveryErrorClass {
+  if (status === 408 || status === 429 || status >= 500) {
+    return "transient"
+  }
+  return "permanent"
+}
+
+/**
+ * Classify an error thrown while sending through nodemailer or an OAuth client
+ */
+export function classifySendError(error: any): DeliveryErrorClass {
+  if (!error) {
+    return "transient"
+  }
+
+  // SMTP reply codes: 4xx are temporary, 5xx are permanent rejections
+  if (typeof error.responseCode === "number") {
+    return error.responseCode >= 500 ? "permanent" : "transient"
+  }
+
+  if (error.code === "EAUTH" || error.code === "EENVELOPE") {
+    return "permanent"
+  }
+
+  if (error.code && TRANSIENT_ERROR_CODES.has(error.code)) {
+    return "transient"
+  }
+
+  // googleapis / gaxios errors carry the HTTP status of the failed call
+  const status = error.response?.status ?? error.status
+  if (typeof status === "number") {
+    return classifyHttpStatus(status)
+  }
+
+  // Revoked or expired refresh tokens never succeed on retry
+  if (/invalid_grant|not authorized|no refresh token/i.test(error.message || "")) {
+    return "permanent"
+  }
+
+  return "transient"
+}
+
+/**
+ * Addresses an SMTP server refused while accepting the message for the
+ * others, from the info nodemailer resolves sendMail with
+ */
+export function rejectedRecipients(info: {
+  rejected?: unknown[]
+  rejectedErrors?: any[]
+}): RejectedRecipient[] {
+  if (info.rejectedErrors?.length) {
+    return info.rejectedErrors.map((error) => ({
+      email: String(error.recipient),
+      error: error.message || "Recipient rejected",
+      errorClass: classifySendError(error),
+    }))
+  }
+
+  return (info.rejected || []).map((recipient: any) => ({
+    email: typeof recipient === "string" ? recipient : recipient.address,
+    error: "Recipient rejected",
+    errorClass: "permanent",
+  }))
+}
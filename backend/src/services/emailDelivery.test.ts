@@ -0,0 +1,30 @@
+import { nextRetryDelayMs } from "./emailDelivery"
+
+describe("nextRetryDelayMs", () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("doubles the delay with each attempt", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5) // No jitter
+
+    expect(nextRetryDelayMs(1)).toBe(60 * 1000)
+    expect(nextRetryDelayMs(2)).toBe(120 * 1000)
+    expect(nextRetryDelayMs(3)).toBe(240 * 1000)
+  })
+
+  it("caps the delay", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5)
+
+    expect(nextRetryDelayMs(20)).toBe(21600 * 1000)
+  })
+
+  it("jitters by at most 20% either way", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0)
+    expect(nextRetryDelayMs(1)).toBe(48 * 1000)
+
+    jest.spyOn(Math, "random").mockReturnValue(0.999999)
+    expect(nextRetryDelayMs(1)).toBeLessThanOrEqual(72 * 1000)
+    expect(nextRetryDelayMs(1)).toBeGreaterThan(71 * 1000)
+  })
+})
@@ -0,0 +1,358 @@
+import pool from "../database/connection"
+import {
+  EmailDeliveryAttempt,
+  EmailSendResult,
+  OutgoingEmail,
+  RecipientKind,
+  SentEmail,
+  User,
+} from "../types"
+import { EmailService } from "./emailService"
+import { AttachmentService } from "./attachmentService"
+import { SuppressionService } from "./suppressionService"
+import { RecipientService, deriveEmailStatus } from "./recipientService"
+import { TrackingService } from "./trackingService"
+import { SenderIdentityService } from "./senderIdentityService"
+import { ConnectedAccountService } from "./connectedAccountService"
+import { mailTransports } from "./transports"
+
+const MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || "5")
+const RETRY_BASE_DELAY_S = parseInt(process.env.EMAIL_RETRY_BASE_DELAY_S || "60")
+const RETRY_MAX_DELAY_S = parseInt(process.env.EMAIL_RETRY_MAX_DELAY_S || "21600")
+
+export interface DeliveryOutcome {
+  result: EmailSendResult
+  // Set when a transient failure should be attempted again
+  retryAt?: Date
+  // Set when every primary recipient opted out before delivery
+  suppressed?: boolean
+}
+
+/**
+ * Exponential backoff with +/-20% jitter: base, 2x base, 4x base ... capped
+ */
+export function nextRetryDelayMs(attempt: number): number {
+  const delayS = Math.min(
+    RETRY_BASE_DELAY_S * Math.pow(2, attempt - 1),
+    RETRY_MAX_DELAY_S
+  )
+  const jitter = 0.8 + Math.random() * 0.4
+  return Math.round(delayS * jitter * 1000)
+}
+
+export class EmailDeliveryService {
+  constructor(
+    private emailService: EmailService = new EmailService(),
+    private attachmentService: AttachmentService = new AttachmentService(),
+    private suppressionService: SuppressionService = new SuppressionService(),
+    private recipientService: RecipientService = new RecipientService(),
+    private trackingService: TrackingService = new TrackingService(),
+    private senderIdentityService: SenderIdentityService = new SenderIdentityService(),
+    private accountService: ConnectedAccountService = new ConnectedAccountService()
+  ) {}
+
+  /**
+   * Deliver a stored sent_emails row to its still-pending addresses and
+   * record the outcome on each of them; the email's status is derived from
+   * its addresses. Transient failures are rescheduled until
+   * EMAIL_MAX_ATTEMPTS, then dead-lettered; permanent failures are marked
+   * failed at once.
+   *
+   * The transport recorded on the first attempt is reused unless an
+   * override is given, which is then recorded in its place. Emails are sent from their connected account, or the
+   * user's default one; emails with a sender identity always go out over
+   * SMTP through the identity's server.
+   */
+  public async deliver(
+    sentEmailId: string,
+    transportOverride?: string
+  ): Promise<DeliveryOutcome> {
+    const sentEmailResult = await pool.query(
+      `UPDATE sent_emails SET attempt_count = attempt_count + 1
+       WHERE id = $1 AND status <> 'sent' RETURNING *`,
+      [sentEmailId]
+    )
+    const sentEmail: SentEmail | undefined = sentEmailResult.rows[0]
+
+    if (!sentEmail) {
+      const existing = await pool.query(
+        "SELECT provider_message_id FROM sent_emails WHERE id = $1",
+        [sentEmailId]
+      )
+      if (existing.rows.length === 0) {
+        throw new Error(`Sent email ${sentEmailId} not found`)
+      }
+
+      // Already delivered by an earlier attempt
+      return {
+        result: {
+          messageId: existing.rows[0].provider_message_id || "",
+          success: true,
+        },
+      }
+    }
+
+    const userResult = await pool.query("SELECT * FROM users WHERE id = $1", [
+      sentEmail.user_id,
+    ])
+    const user: User = userResult.rows[0]
+
+    const recipients = await this.recipientService.listForEmail(sentEmail.id)
+
+    // Recipients may have unsubscribed since the email was queued
+    const optedOut = await this.suppressionService.findSuppressed(
+      user.id,
+      recipients
+        .filter((recipient) => recipient.status === "pending")
+        .map((recipient) => recipient.email)
+    )
+    const newlySuppressed = recipients.filter(
+      (recipient) =>
+        recipient.status === "pending" &&
+        optedOut.has(recipient.email.toLowerCase())
+    )
+
+    if (newlySuppressed.length > 0) {
+      newlySuppressed.forEach((recipient) => (recipient.status = "suppressed"))
+      await this.recipientService.markSuppressed(
+        newlySuppressed.map((recipient) => recipient.id)
+      )
+      await pool.query(
+        `UPDATE sent_emails SET suppressed_recipients = ARRAY(
+           SELECT DISTINCT UNNEST(suppressed_recipients || $1::text[])
+         ) WHERE id = $2`,
+        [newlySuppressed.map((recipient) => recipient.email), sentEmail.id]
+      )
+    }
+
+    if (deriveEmailStatus(recipients) === "suppressed") {
+      await pool.query(
+        `UPDATE sent_emails SET status = 'suppressed', next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [sentEmail.id]
+      )
+      return {
+        result: {
+          messageId: "",
+          success: false,
+          error: "All recipients are on the suppression list",
+        },
+        suppressed: true,
+      }
+    }
+
+    // Earlier attempts may already have reached some addresses
+    const pending = recipients.filter((recipient) => recipient.status === "pending")
+    if (pending.length === 0) {
+      return {
+        result: { messageId: sentEmail.provider_message_id || "", success: true },
+      }
+    }
+
+    const addresses = (kind: RecipientKind) =>
+      pending
+        .filter((recipient) => recipient.kind === kind)
+        .map((recipient) => recipient.email)
+    const to = addresses("to")
+
+    let sendResult: EmailSendResult
+    let transportName: string | undefined
+    try {
+      const sender = sentEmail.sender_identity_id
+        ? await this.senderIdentityService.senderFor(sentEmail.sender_identity_id)
+        : undefined
+      if (sender === null) {
+        throw new Error("Sender identity was deleted or is no longer verified")
+      }
+      const account = sender
+        ? undefined
+        : (await this.accountService.forSending(user.id, sentEmail.connected_account_id)) ||
+          undefined
+      // The identity brings its own server, so SMTP_* need not be configured
+      const transport = sender
+        ? mailTransports.get("smtp")!
+        : mailTransports.resolve(user, transportOverride || sentEmail.transport, account)
+      transportName = transport.name
+
+      // Record the account only when it is the one actually sending. An
+      // override replaces the recorded transport, so later retries use it too.
+      await pool.query(
+        `UPDATE sent_emails
+         SET transport = CASE WHEN $4 THEN $1 ELSE COALESCE(transport, $1) END,
+             connected_account_id = COALESCE($3, connected_account_id)
+         WHERE id = $2`,
+        [
+          transport.name,
+          sentEmail.id,
+          account && transport.name === account.provider ? account.id : null,
+          !sender && !!transportOverride,
+        ]
+      )
+
+      const message: OutgoingEmail = {
+        to,
+        cc: addresses("cc"),
+        bcc: addresses("bcc"),
+        replyTo: sentEmail.reply_to,
+        subject: sentEmail.subject,
+        // Tracking is added here so the stored body stays as rendered
+        html: sentEmail.track_engagement
+          ? this.trackingService.instrument(sentEmail.id, sentEmail.body_html)
+          : sentEmail.body_html,
+        text: sentEmail.body_text,
+        attachments: await this.attachmentService.loadForDelivery(sentEmail.id),
+        // One-click unsubscribe only makes sense when the email has a single addressee
+        unsubscribeUrl:
+          to.length === 1
+            ? this.suppressionService.unsubscribeUrl(user.id, to[0])
+            : undefined,
+        ...(await this.threadHeaders(sentEmail)),
+        sender,
+      }
+      sendResult = await transport.send(user, message, account)
+    } catch (error) {
+      // No usable transport or unreadable attachments; retrying will not help
+      sendResult = {
+        messageId: "",
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorClass: "permanent",
+      }
+    }
+
+    await this.recordAttempt(sentEmail.id, transportName, sendResult)
+    if (sendResult.success && sendResult.threadId) {
+      // Replies are matched to Nylas sends by thread, see ReplySyncService
+      await pool.query(
+        "UPDATE sent_emails SET provider_thread_id = COALESCE(provider_thread_id, $1) WHERE id = $2",
+        [sendResult.threadId, sentEmail.id]
+      )
+    }
+    await this.recipientService.recordAttempt(
+      pending,
+      sendResult,
+      sentEmail.attempt_count >= MAX_ATTEMPTS
+    )
+
+    // The email's status follows from where each of its addresses now stands
+    const updated = await this.recipientService.listForEmail(sentEmail.id)
+    const status = deriveEmailStatus(updated)
+    const failure = updated.find(
+      (recipient) => recipient.status !== "sent" && recipient.error_message
+    )
+
+    if (status !== "pending") {
+      await this.emailService.updateSentEmailStatus(
+        sentEmail.id,
+        status,
+        sendResult.success ? sendResult.messageId : undefined,
+        failure?.error_message,
+        { errorClass: failure?.error_class }
+      )
+      return { result: sendResult }
+    }
+
+    const retryAt = new Date(
+      Date.now() + nextRetryDelayMs(sentEmail.attempt_count)
+    )
+    await this.emailService.updateSentEmailStatus(
+      sentEmail.id,
+      "pending",
+      sendResult.success ? sendResult.messageId : undefined,
+      failure?.error_message,
+      { errorClass: failure?.error_class, nextAttemptAt: retryAt }
+    )
+
+    return { result: sendResult, retryAt }
+  }
+
+  /**
+   * Give up on an email whose delivery threw before its outcome was
+   * recorded, e.g. on a database error, so it is not left pending with no
+   * job to send it. Addresses still pending are marked failed with the error.
+   */
+  public async abandon(sentEmailId: string, errorMessage: string): Promise<void> {
+    await pool.query(
+      `UPDATE sent_email_recipients SET status = 'failed', error_message = $2, error_class = 'permanent'
+       WHERE sent_email_id = $1 AND status = 'pending'`,
+      [sentEmailId, errorMessage]
+    )
+    const recipients = await this.recipientService.listForEmail(sentEmailId)
+    const status = recipients.some((recipient) => recipient.status === "sent") ? "partial" : "failed"
+
+    await pool.query(
+      `UPDATE sent_emails
+       SET status = $2, error_message = $3, error_class = 'permanent', next_attempt_at = NULL,
+           sent_at = CASE WHEN $2 = 'partial' THEN COALESCE(sent_at, CURRENT_TIMESTAMP) END, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'pending'`,
+      [sentEmailId, status, errorMessage]
+    )
+  }
+
+  public async getAttempts(sentEmailId: string): Promise<EmailDeliveryAttempt[]> {
+    const result = await pool.query(
+      "SELECT * FROM email_delivery_attempts WHERE sent_email_id = $1 ORDER BY created_at",
+      [sentEmailId]
+    )
+    return result.rows
+  }
+
+  /**
+   * Threading fields for a follow-up, from the earlier sends it replies to.
+   * SMTP-based transports return RFC 5322 Message-IDs, which go into
+   * In-Reply-To and References; Nylas returns its own message id, which only
+   * Nylas can thread on.
+   */
+  private async threadHeaders(
+    sentEmail: SentEmail
+  ): Promise<Partial<OutgoingEmail>> {
+    if (!sentEmail.in_reply_to_id) {
+      return {}
+    }
+
+    const result = await pool.query(
+      `WITH RECURSIVE chain AS (
+         SELECT in_reply_to_id, provider_message_id, transport, 0 AS depth
+         FROM sent_emails WHERE id = $1
+         UNION ALL
+         SELECT se.in_reply_to_id, se.provider_message_id, se.transport, chain.depth + 1
+         FROM sent_emails se JOIN chain ON se.id = chain.in_reply_to_id
+       )
+       SELECT provider_message_id, transport FROM chain ORDER BY depth DESC`,
+      [sentEmail.in_reply_to_id]
+    )
+    const chain: Pick<SentEmail, "provider_message_id" | "transport">[] = result.rows
+    const parent = chain[chain.length - 1]
+    const isMessageId = (id?: string): id is string => !!id && id.startsWith("<")
+
+    return {
+      inReplyTo: isMessageId(parent?.provider_message_id)
+        ? parent.provider_message_id
+        : undefined,
+      references: chain
+        .map((email) => email.provider_message_id)
+        .filter(isMessageId),
+      replyToMessageId:
+        parent?.transport === "nylas" ? parent.provider_message_id : undefined,
+    }
+  }
+
+  private async recordAttempt(
+    sentEmailId: string,
+    transport: string | undefined,
+    result: EmailSendResult
+  ): Promise<void> {
+    await pool.query(
+      `INSERT INTO email_delivery_attempts (sent_email_id, transport, success, provider_message_id, error_message, error_class)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        sentEmailId,
+        transport ?? null,
+        result.success,
+        result.success ? result.messageId : null,
+        result.error ?? null,
+        result.success ? null : result.errorClass ?? "transient",
+      ]
+    )
+  }
+}
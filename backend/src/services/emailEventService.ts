@@ -0,0 +1,169 @@
+import pool from "../database/connection"
+import { EmailEvent, InboundEmailEvent, SentEmailRecipient } from "../types"
+import { RecipientService, deriveEmailStatus } from "./recipientService"
+import { SuppressionService } from "./suppressionService"
+
+export interface IngestResult {
+  recorded: number
+  // Events for unknown messages and webhooks delivered more than once
+  ignored: number
+}
+
+// SMTP message ids are stored with angle brackets, providers often omit them
+const messageIdVariants = (messageId: string) => {
+  const bare = messageId.trim().replace(/^<|>$/g, "")
+  return [bare, `<${bare}>`]
+}
+
+export class EmailEventService {
+  constructor(
+    private recipientService: RecipientService = new RecipientService(),
+    private suppressionService: SuppressionService = new SuppressionService()
+  ) {}
+
+  /**
+   * Record provider events on the emails they refer to. Hard bounces mark
+   * the recipient bounced, and hard bounces and complaints suppress the
+   * address for the sending user.
+   */
+  public async ingest(
+    provider: string,
+    events: InboundEmailEvent[]
+  ): Promise<IngestResult> {
+    let recorded = 0
+
+    for (const event of events) {
+      if (await this.record(provider, event)) {
+        recorded++
+      }
+    }
+
+    return { recorded, ignored: events.length - recorded }
+  }
+
+  /**
+   * Record an open or click reported by the tracking routes. Emails deleted
+   * since sending are skipped.
+   */
+  public async recordEngagement(
+    sentEmailId: string,
+    type: "opened" | "clicked",
+    url?: string
+  ): Promise<void> {
+    const recipients = await this.recipientService.listForEmail(sentEmailId)
+    const recipient = this.matchRecipient(recipients)
+
+    await pool.query(
+      `INSERT INTO email_events (sent_email_id, recipient_id, provider, event_type, email, url, occurred_at)
+       SELECT id, $2, 'tracking', $3, $4, $5, CURRENT_TIMESTAMP FROM sent_emails WHERE id = $1`,
+      [sentEmailId, recipient?.id ?? null, type, recipient?.email ?? null, url ?? null]
+    )
+  }
+
+  public async listForEmail(sentEmailId: string): Promise<EmailEvent[]> {
+    const result = await pool.query(
+      "SELECT * FROM email_events WHERE sent_email_id = $1 ORDER BY occurred_at, created_at",
+      [sentEmailId]
+    )
+    return result.rows
+  }
+
+  private async record(
+    provider: string,
+    event: InboundEmailEvent
+  ): Promise<boolean> {
+    const variants = messageIdVariants(event.messageId)
+    const sentEmailResult = await pool.query(
+      `SELECT id, user_id, status FROM sent_emails se
+       WHERE se.provider_message_id = ANY($1::text[])
+          OR EXISTS (
+            SELECT 1 FROM sent_email_recipients r
+            WHERE r.sent_email_id = se.id AND r.provider_message_id = ANY($1::text[])
+          )
+       LIMIT 1`,
+      [variants]
+    )
+    const sentEmail = sentEmailResult.rows[0]
+
+    if (!sentEmail) {
+      return false
+    }
+
+    const recipients = await this.recipientService.listForEmail(sentEmail.id)
+    const recipient = this.matchRecipient(recipients, event.recipient)
+    const email = event.recipient || recipient?.email
+
+    const inserted = await pool.query(
+      `INSERT INTO email_events (sent_email_id, recipient_id, provider, provider_event_id, event_type, bounce_type, email, description, payload, occurred_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (provider, provider_event_id) DO NOTHING
+       RETURNING id`,
+      [
+        sentEmail.id,
+        recipient?.id ?? null,
+        provider,
+        event.providerEventId ?? null,
+        event.type,
+        event.bounceType ?? null,
+        email ?? null,
+        event.description ?? null,
+        JSON.stringify(event.payload ?? null),
+        event.occurredAt,
+      ]
+    )
+
+    // Redelivered webhook; its effects were applied the first time
+    if (inserted.rows.length === 0) {
+      return false
+    }
+
+    const hardBounce = event.type === "bounced" && event.bounceType === "hard"
+
+    if (hardBounce && recipient) {
+      await pool.query(
+        `UPDATE sent_email_recipients SET status = 'bounced', error_message = $1, error_class = 'permanent'
+         WHERE id = $2`,
+        [event.description || "Bounced", recipient.id]
+      )
+      recipient.status = "bounced"
+
+      // Only settled emails are re-derived; a pending one is still in the worker's hands
+      if (["sent", "partial", "bounced"].includes(sentEmail.status)) {
+        await pool.query(
+          `UPDATE sent_emails SET status = $1, error_message = COALESCE($2, error_message), updated_at = CURRENT_TIMESTAMP
+           WHERE id = $3`,
+          [deriveEmailStatus(recipients), event.description ?? null, sentEmail.id]
+        )
+      }
+    }
+
+    if ((hardBounce || event.type === "complained") && email) {
+      await this.suppressionService.add(
+        sentEmail.user_id,
+        [email],
+        hardBounce ? "bounce" : "complaint"
+      )
+    }
+
+    return true
+  }
+
+  /**
+   * The recipient an event is about. Events without an address can only be
+   * attributed when the message went to a single address.
+   */
+  private matchRecipient(
+    recipients: SentEmailRecipient[],
+    email?: string
+  ): SentEmailRecipient | undefined {
+    if (email) {
+      const normalized = email.trim().toLowerCase()
+      return recipients.find(
+        (recipient) => recipient.email.toLowerCase() === normalized
+      )
+    }
+
+    const reached = recipients.filter((recipient) => recipient.status === "sent")
+    return reached.length === 1 ? reached[0] : undefined
+  }
+}
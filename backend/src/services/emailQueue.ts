@@ -0,0 +1,118 @@
+import { PoolClient } from "pg"
+import pool from "../database/connection"
+import { EmailJob } from "../types"
+
+// A running job whose lock is older than this is assumed to belong to a dead worker
+const STALE_LOCK_SECONDS = parseInt(process.env.EMAIL_JOB_LOCK_TIMEOUT_S || "300")
+
+export class EmailQueue {
+  // Live workers refresh their lock well before it goes stale
+  public readonly heartbeatIntervalMs = (STALE_LOCK_SECONDS * 1000) / 3
+
+  /**
+   * Queue a sent_emails row for delivery. Pass the client of an open
+   * transaction to enqueue atomically with the sent_emails insert, and a
+   * transport name to override the one recorded on the email.
+   */
+  public async enqueue(
+    sentEmailId: string,
+    client: PoolClient | typeof pool = pool,
+    transport?: string
+  ): Promise<EmailJob> {
+    const result = await client.query(
+      `INSERT INTO email_jobs (sent_email_id, transport, status, run_at)
+       VALUES ($1, $2, 'queued', CURRENT_TIMESTAMP) RETURNING *`,
+      [sentEmailId, transport ?? null]
+    )
+
+    return result.rows[0]
+  }
+
+  /**
+   * Claim the next due job. SKIP LOCKED lets several workers drain the
+   * queue concurrently without picking the same job twice.
+   */
+  public async claimNext(workerId: string): Promise<EmailJob | null> {
+    const client = await pool.connect()
+
+    try {
+      await client.query("BEGIN")
+
+      const result = await client.query(
+        `SELECT * FROM email_jobs
+         WHERE (status = 'queued' AND run_at <= CURRENT_TIMESTAMP)
+            OR (status = 'running' AND locked_at < CURRENT_TIMESTAMP - make_interval(secs => $1))
+         ORDER BY run_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED`,
+        [STALE_LOCK_SECONDS]
+      )
+
+      if (result.rows.length === 0) {
+        await client.query("COMMIT")
+        return null
+      }
+
+      const claimed = await client.query(
+        `UPDATE email_jobs
+         SET status = 'running', locked_at = CURRENT_TIMESTAMP, locked_by = $1, attempts = attempts + 1
+         WHERE id = $2 RETURNING *`,
+        [workerId, result.rows[0].id]
+      )
+
+      await client.query("COMMIT")
+      return claimed.rows[0]
+    } catch (error) {
+      await client.query("ROLLBACK")
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Refresh the lock of a job that is still being delivered, so a slow send
+   * is not mistaken for a dead worker's and claimed a second time
+   */
+  public async heartbeat(jobId: string, workerId: string): Promise<void> {
+    await pool.query(
+      `UPDATE email_jobs SET locked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+      [jobId, workerId]
+    )
+  }
+
+  public async complete(jobId: string): Promise<void> {
+    await pool.query(
+      `UPDATE email_jobs
+       SET status = 'done', locked_at = NULL, locked_by = NULL, last_error = NULL
+       WHERE id = $1`,
+      [jobId]
+    )
+  }
+
+  /**
+   * Put a job back in the queue to run again at the given time
+   */
+  public async retryAt(
+    jobId: string,
+    runAt: Date,
+    errorMessage: string
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE email_jobs
+       SET status = 'queued', run_at = $2, locked_at = NULL, locked_by = NULL, last_error = $3
+       WHERE id = $1`,
+      [jobId, runAt, errorMessage]
+    )
+  }
+
+  public async fail(jobId: string, errorMessage: string): Promise<void> {
+    await pool.query(
+      `UPDATE email_jobs
+       SET status = 'failed', locked_at = NULL, locked_by = NULL, last_error = $2
+       WHERE id = $1`,
+      [jobId, errorMessage]
+    )
+  }
+}
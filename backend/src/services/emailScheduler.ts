@@ -0,0 +1,56 @@
+import pool from "../database/connection"
+import { EmailQueue } from "./emailQueue"
+
+const RELEASE_BATCH_SIZE = 100
+
+/**
+ * Parse a send_at timestamp, rejecting invalid and past values
+ */
+export function parseSendAt(value: string): Date | null {
+  const sendAt = new Date(value)
+  if (isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) {
+    return null
+  }
+  return sendAt
+}
+
+export class EmailScheduler {
+  constructor(private queue: EmailQueue = new EmailQueue()) {}
+
+  /**
+   * Move scheduled emails whose send_at has passed to pending and queue them.
+   * Returns the number of emails released.
+   */
+  public async releaseDue(): Promise<number> {
+    const client = await pool.connect()
+
+    try {
+      await client.query("BEGIN")
+
+      const result = await client.query(
+        `UPDATE sent_emails SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+         WHERE id IN (
+           SELECT id FROM sent_emails
+           WHERE status = 'scheduled' AND send_at <= CURRENT_TIMESTAMP
+           ORDER BY send_at
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING id`,
+        [RELEASE_BATCH_SIZE]
+      )
+
+      for (const row of result.rows) {
+        await this.queue.enqueue(row.id, client)
+      }
+
+      await client.query("COMMIT")
+      return result.rows.length
+    } catch (error) {
+      await client.query("ROLLBACK")
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+}
@@ -1,13 +1,24 @@
 import nodemailer from "nodemailer"
 import { google } from "googleapis"
-import { User, SentEmail } from "../types"
+import {
+  ConnectedAccount,
+  OutgoingEmail,
+  EmailSendResult,
+  DeliveryErrorClass,
+  SentEmail,
+} from "../types"
 import pool from "../database/connection"
+import { buildMailOptions } from "./mailMessage"
+import { classifySendError, rejectedRecipients } from "./deliveryErrors"
+import { decryptSecret, encryptSecret } from "./secretBox"
 
 export class EmailService {
-  private oauth2Client: any
-
-  constructor() {
-    this.oauth2Client = new google.auth.OAuth2(
+  /**
+   * A client per call: credentials are set on the client, so a shared one
+   * could send as another account when sends for different accounts overlap
+   */
+  private createOAuthClient() {
+    return new google.auth.OAuth2(
       process.env.GMAIL_CLIENT_ID,
       process.env.GMAIL_CLIENT_SECRET,
       process.env.GMAIL_REDIRECT_URI
@@ -20,7 +31,7 @@ export class EmailService {
       "https://www.googleapis.com/auth/userinfo.email",
     ]
 
-    return this.oauth2Client.generateAuthUrl({
+    return this.createOAuthClient().generateAuthUrl({
       access_type: "offline",
       scope: scopes,
       prompt: "consent",
@@ -34,7 +45,7 @@ export class EmailService {
     refresh_token: string
     expires_at: Date
   }> {
-    const { tokens } = await this.oauth2Client.getToken(code)
+    const { tokens } = await this.createOAuthClient().getToken(code)
 
     const expiresAt = new Date()
     if (tokens.expiry_date) {
@@ -50,100 +61,122 @@ export class EmailService {
     }
   }
 
- 
-  private async refreshAccessToken(user: User): Promise<string> {
-    if (!user.gmail_refresh_token) {
-      throw new Error("No refresh token available")
+  /**
+   * Address of the Gmail account an access token belongs to
+   */
+  public async getAccountEmail(accessToken: string): Promise<string> {
+    const oauth2Client = this.createOAuthClient()
+    oauth2Client.setCredentials({ access_token: accessToken })
+
+    const { data } = await google
+      .oauth2({ version: "v2", auth: oauth2Client })
+      .userinfo.get()
+
+    if (!data.email) {
+      throw new Error("Gmail account has no email address")
     }
+    return data.email
+  }
 
-    this.oauth2Client.setCredentials({
-      refresh_token: user.gmail_refresh_token,
-    })
+  /**
+   * A new access token for a Gmail refresh token
+   */
+  public async refreshTokens(
+    refreshToken: string
+  ): Promise<{ access_token: string; expires_at: Date }> {
+    const oauth2Client = this.createOAuthClient()
+    oauth2Client.setCredentials({ refresh_token: refreshToken })
+
+    const { credentials } = await oauth2Client.refreshAccessToken()
+    if (!credentials.access_token) {
+      throw new Error("Gmail did not return an access token")
+    }
 
-    const { credentials } = await this.oauth2Client.refreshAccessToken()
+    // expiry_date is a timestamp in milliseconds
+    const expiresAt = credentials.expiry_date
+      ? new Date(credentials.expiry_date)
+      : new Date(Date.now() + 3600 * 1000)
 
-    // Update user's access token in database
-    const expiresAt = new Date()
-    expiresAt.setSeconds(
-      expiresAt.getSeconds() + (credentials.expiry_date || 3600)
-    )
+    return { access_token: credentials.access_token, expires_at: expiresAt }
+  }
+
+  private async refreshAccessToken(account: ConnectedAccount): Promise<string> {
+    if (!account.refresh_token) {
+      throw new Error("No refresh token available")
+    }
+
+    const tokens = await this.refreshTokens(decryptSecret(account.refresh_token))
 
+    // Update the account's access token in database
     await pool.query(
-      "UPDATE users SET gmail_access_token = $1, gmail_token_expires_at = $2 WHERE id = $3",
-      [credentials.access_token, expiresAt, user.id]
+      "UPDATE connected_accounts SET access_token = $1, token_expires_at = $2 WHERE id = $3",
+      [encryptSecret(tokens.access_token), tokens.expires_at, account.id]
     )
 
-    return credentials.access_token
+    return tokens.access_token
   }
 
   /**
-   * Get valid access token for user
+   * Get valid access token for a Gmail account, decrypted
    */
-  private async getValidAccessToken(user: User): Promise<string> {
+  private async getValidAccessToken(account: ConnectedAccount): Promise<string> {
     // Check if current token is still valid
-    if (user.gmail_access_token && user.gmail_token_expires_at) {
+    if (account.access_token && account.token_expires_at) {
       const now = new Date()
-      const expiresAt = new Date(user.gmail_token_expires_at)
+      const expiresAt = new Date(account.token_expires_at)
 
       // If token expires in more than 5 minutes, use it
       if (expiresAt.getTime() - now.getTime() > 5 * 60 * 1000) {
-        return user.gmail_access_token
+        return decryptSecret(account.access_token)
       }
     }
 
     // Token is expired or about to expire, refresh it
-    return await this.refreshAccessToken(user)
+    return await this.refreshAccessToken(account)
   }
 
   /**
    * Create nodemailer transporter with OAuth2
    */
-  private async createTransporter(user: User): Promise<nodemailer.Transporter> {
-    const accessToken = await this.getValidAccessToken(user)
+  private async createTransporter(account: ConnectedAccount): Promise<nodemailer.Transporter> {
+    const accessToken = await this.getValidAccessToken(account)
 
     return nodemailer.createTransport({
       service: "gmail",
       auth: {
         type: "OAuth2",
-        user: user.email,
+        user: account.email,
         clientId: process.env.GMAIL_CLIENT_ID,
         clientSecret: process.env.GMAIL_CLIENT_SECRET,
-        refreshToken: user.gmail_refresh_token,
+        refreshToken: decryptSecret(account.refresh_token!),
         accessToken: accessToken,
       },
     })
   }
 
   /**
-   * Send email using user's Gmail account
+   * Send email from one of the user's connected Gmail accounts
    */
   public async sendEmail(
-    user: User,
-    recipients: string[],
-    subject: string,
-    htmlBody: string,
-    textBody?: string
-  ): Promise<{ messageId: string; success: boolean; error?: string }> {
+    account: ConnectedAccount,
+    message: OutgoingEmail
+  ): Promise<EmailSendResult> {
     try {
-      if (!user.gmail_refresh_token) {
-        throw new Error("User has not authorized Gmail access")
+      if (!account.refresh_token) {
+        throw new Error("Gmail account has not authorized offline access")
       }
 
-      const transporter = await this.createTransporter(user)
+      const transporter = await this.createTransporter(account)
 
-      const mailOptions = {
-        from: user.email, // Send as the user
-        to: recipients.join(", "),
-        subject: subject,
-        html: htmlBody,
-        text: textBody || this.htmlToText(htmlBody),
-      }
-
-      const result = await transporter.sendMail(mailOptions)
+      // Send as the account's owner
+      const result = await transporter.sendMail(
+        buildMailOptions(account.email, message)
+      )
 
       return {
         messageId: result.messageId,
         success: true,
+        rejected: rejectedRecipients(result),
       }
     } catch (error) {
       console.error("Email sending error:", error)
@@ -151,46 +184,38 @@ export class EmailService {
         messageId: "",
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
+        errorClass: classifySendError(error),
       }
     }
   }
 
   /**
-   * Simple HTML to text conversion
-   */
-  private htmlToText(html: string): string {
-    return html
-      .replace(/<br\s*\/?>/gi, "\n")
-      .replace(/<\/p>/gi, "\n\n")
-      .replace(/<\/div>/gi, "\n")
-      .replace(/<\/h[1-6]>/gi, "\n\n")
-      .replace(/<[^>]*>/g, "")
-      .replace(/&nbsp;/g, " ")
-      .replace(/&amp;/g, "&")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">")
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'")
-      .replace(/\n\s*\n\s*\n/g, "\n\n")
-      .trim()
-  }
-
-  /**
-   * Update sent email status in database
+   * Update sent email status in database. A message id from an earlier
+   * partial delivery is kept when the latest attempt has none.
    */
   public async updateSentEmailStatus(
     sentEmailId: string,
-    status: "sent" | "failed",
+    status: SentEmail["status"],
     providerMessageId?: string,
-    errorMessage?: string
+    errorMessage?: string,
+    retry: { errorClass?: DeliveryErrorClass; nextAttemptAt?: Date } = {}
   ): Promise<void> {
-    const sentAt = status === "sent" ? new Date() : null
+    const sentAt = status === "sent" || status === "partial" ? new Date() : null
 
     await pool.query(
       `UPDATE sent_emails 
-       SET status = $1, provider_message_id = $2, error_message = $3, sent_at = $4, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $5`,
-      [status, providerMessageId, errorMessage, sentAt, sentEmailId]
+       SET status = $1, provider_message_id = COALESCE($2, provider_message_id), error_message = $3, sent_at = $4,
+           error_class = $5, next_attempt_at = $6, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $7`,
+      [
+        status,
+        providerMessageId,
+        errorMessage,
+        sentAt,
+        retry.errorClass ?? null,
+        retry.nextAttemptAt ?? null,
+        sentEmailId,
+      ]
     )
   }
 }
@@ -0,0 +1,70 @@
+import { EmailWorker } from "./emailWorker"
+import { EmailQueue } from "./emailQueue"
+import { EmailDeliveryService } from "./emailDelivery"
+import { EmailScheduler } from "./emailScheduler"
+import { EmailJob } from "../types"
+
+describe("EmailWorker.processNext", () => {
+  const job = { id: "job-1", sent_email_id: "email-1" } as EmailJob
+
+  const setup = (deliver: jest.Mock) => {
+    const queue = {
+      heartbeatIntervalMs: 60 * 1000,
+      claimNext: jest.fn().mockResolvedValue(job),
+      heartbeat: jest.fn().mockResolvedValue(undefined),
+      complete: jest.fn().mockResolvedValue(undefined),
+      retryAt: jest.fn().mockResolvedValue(undefined),
+      fail: jest.fn().mockResolvedValue(undefined),
+    }
+    const delivery = { deliver, abandon: jest.fn().mockResolvedValue(undefined) }
+    const worker = new EmailWorker(
+      queue as unknown as EmailQueue,
+      delivery as unknown as EmailDeliveryService,
+      {} as EmailScheduler
+    )
+    return { worker, queue, delivery }
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("returns false when the queue is empty", async () => {
+    const { worker, queue } = setup(jest.fn())
+    queue.claimNext.mockResolvedValue(null)
+
+    await expect(worker.processNext()).resolves.toBe(false)
+  })
+
+  it("completes the job of a delivered email", async () => {
+    const { worker, queue, delivery } = setup(
+      jest.fn().mockResolvedValue({ result: { messageId: "<m1>", success: true } })
+    )
+
+    await expect(worker.processNext()).resolves.toBe(true)
+    expect(queue.complete).toHaveBeenCalledWith("job-1")
+    expect(delivery.abandon).not.toHaveBeenCalled()
+  })
+
+  it("reschedules the job when delivery asks for a retry", async () => {
+    const retryAt = new Date()
+    const { worker, queue } = setup(
+      jest.fn().mockResolvedValue({ result: { messageId: "", success: false, error: "Busy" }, retryAt })
+    )
+
+    await worker.processNext()
+    expect(queue.retryAt).toHaveBeenCalledWith("job-1", retryAt, "Busy")
+  })
+
+  it("fails the job and the email when delivery throws", async () => {
+    const { worker, queue, delivery } = setup(jest.fn().mockRejectedValue(new Error("connection terminated")))
+
+    await expect(worker.processNext()).resolves.toBe(true)
+    expect(queue.fail).toHaveBeenCalledWith("job-1", "connection terminated")
+    expect(delivery.abandon).toHaveBeenCalledWith("email-1", "connection terminated")
+  })
+})
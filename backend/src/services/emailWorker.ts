@@ -0,0 +1,108 @@
+import os from "os"
+import { EmailQueue } from "./emailQueue"
+import { EmailDeliveryService } from "./emailDelivery"
+import { EmailScheduler } from "./emailScheduler"
+
+export class EmailWorker {
+  private readonly workerId = `${os.hostname()}:${process.pid}`
+  private running = false
+  private timer?: NodeJS.Timeout
+  private idle?: Promise<void>
+
+  constructor(
+    private queue: EmailQueue = new EmailQueue(),
+    private delivery: EmailDeliveryService = new EmailDeliveryService(),
+    private scheduler: EmailScheduler = new EmailScheduler(queue),
+    private pollIntervalMs: number = parseInt(
+      process.env.EMAIL_WORKER_POLL_MS || "1000"
+    )
+  ) {}
+
+  public start(): void {
+    this.running = true
+    console.log(`Email worker ${this.workerId} started`)
+    this.schedule(0)
+  }
+
+  /**
+   * Stop polling and wait for the job in flight to finish
+   */
+  public async stop(): Promise<void> {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+    }
+    await this.idle
+  }
+
+  /**
+   * Claim and process a single job. Returns false when the queue is empty.
+   */
+  public async processNext(): Promise<boolean> {
+    const job = await this.queue.claimNext(this.workerId)
+    if (!job) {
+      return false
+    }
+
+    const heartbeat = setInterval(() => {
+      this.queue
+        .heartbeat(job.id, this.workerId)
+        .catch((error) => console.error(`Email job ${job.id} heartbeat error:`, error))
+    }, this.queue.heartbeatIntervalMs)
+
+    try {
+      const { result, retryAt, suppressed } = await this.delivery.deliver(
+        job.sent_email_id,
+        job.transport
+      )
+      const errorMessage =
+        result.error || result.rejected?.[0]?.error || "Unknown error"
+
+      // A retry can follow an accepted message when some addresses were
+      // refused temporarily. A suppressed email was handled as intended.
+      if (retryAt) {
+        await this.queue.retryAt(job.id, retryAt, errorMessage)
+      } else if (result.success || suppressed) {
+        await this.queue.complete(job.id)
+      } else {
+        await this.queue.fail(job.id, errorMessage)
+      }
+    } catch (error) {
+      console.error(`Email job ${job.id} error:`, error)
+      const errorMessage = error instanceof Error ? error.message : "Unknown error"
+      await this.queue.fail(job.id, errorMessage)
+      // Without a job the email would otherwise stay pending for good
+      await this.delivery.abandon(job.sent_email_id, errorMessage)
+    } finally {
+      clearInterval(heartbeat)
+    }
+
+    return true
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return
+    }
+
+    this.timer = setTimeout(() => {
+      this.idle = this.drain()
+    }, delayMs)
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      const released = await this.scheduler.releaseDue()
+      if (released > 0) {
+        console.log(`Released ${released} scheduled email(s)`)
+      }
+
+      // Keep going while there is work, then back off to the poll interval
+      while (this.running && (await this.processNext())) {}
+    } catch (error) {
+      console.error("Email worker error:", error)
+    }
+
+    this.schedule(this.pollIntervalMs)
+  }
+}
@@ -0,0 +1,54 @@
+import { frontMatterErrorMessage, parseFrontMatter } from "./frontMatter"
+
+describe("parseFrontMatter", () => {
+  it("reads a closed block as typed variables and leaves it out of the body", () => {
+    const { data, body, error } = parseFrontMatter(
+      "---\nclient: Acme\ndue: 2024-05-01\nopen: 3\ntasks: [Design, Review]\n---\n# Kickoff"
+    )
+
+    expect(error).toBeUndefined()
+    expect(data).toEqual({ client: "Acme", due: "2024-05-01", open: 3, tasks: ["Design", "Review"] })
+    expect(body).toBe("# Kickoff")
+  })
+
+  it("accepts CRLF line endings", () => {
+    expect(parseFrontMatter("---\r\nclient: Acme\r\n---\r\nBody")).toEqual({ data: { client: "Acme" }, body: "Body" })
+  })
+
+  it("leaves a note that opens with a horizontal rule untouched", () => {
+    const unclosed = "---\n\nForwarded message"
+    expect(parseFrontMatter(unclosed)).toEqual({ data: {}, body: unclosed })
+
+    const ruled = "---\nJust a paragraph between rules\n---\nMore"
+    expect(parseFrontMatter(ruled)).toEqual({ data: {}, body: ruled })
+  })
+
+  it("leaves blocks that are empty, lists or invalid YAML untouched", () => {
+    for (const content of ["---\n---\nBody", "---\n- a\n- b\n---\nBody", "---\nJust [unclosed\n---\nBody"]) {
+      expect(parseFrontMatter(content)).toEqual({ data: {}, body: content })
+    }
+  })
+
+  it("reports invalid YAML with its line when the block opens with a key", () => {
+    const { data, body, error } = parseFrontMatter("---\nclient: Acme\n  due: soon\n---\nBody")
+
+    expect(data).toEqual({})
+    expect(body).toBe("Body")
+    expect(error).toEqual({ message: expect.stringContaining("bad indentation"), line: 3 })
+    expect(parseFrontMatter("---\nkey: [unclosed\n---\nBody").error?.line).toBe(3)
+  })
+
+  it("only reads a block at the very start", () => {
+    const content = "Intro\n---\nclient: Acme\n---\n"
+    expect(parseFrontMatter(content)).toEqual({ data: {}, body: content })
+  })
+
+  it("reports a key that is not a variable name with its line", () => {
+    const { data, body, error } = parseFrontMatter("---\nclient: Acme\ndue date: soon\n---\nBody")
+
+    expect(data).toEqual({})
+    expect(body).toBe("Body")
+    expect(error).toEqual({ message: expect.stringContaining('"due date"'), line: 3 })
+    expect(frontMatterErrorMessage(error!)).toMatch(/^Invalid note front matter on line 3: /)
+  })
+})
@@ -0,0 +1,84 @@
+import yaml from "js-yaml"
+import { FrontMatter, FrontMatterError } from "../types"
+
+// A block between --- lines at the very start of a note
+const FRONT_MATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?^---[ \t]*(?:\r?\n|$)/m
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+// First non-blank line of a block meant as front matter: a key followed by a colon
+const KEY_VALUE_PATTERN = /^\s*[^\s#:-][^:]*:(?:[ \t]|$)/
+
+// Line of a top-level key, counted in the note (the opening --- is line 1)
+const keyLine = (source: string, key: string): number | undefined => {
+  const index = source.split(/\r?\n/).findIndex((line) => line.startsWith(`${key}:`))
+  return index === -1 ? undefined : index + 2
+}
+
+/**
+ * Split a note into its YAML front matter and the Markdown body. Values keep
+ * their YAML types (strings, numbers, booleans, lists and nested objects);
+ * dates stay strings so templates format them with formatDate. Only a closed
+ * block that parses to a mapping is front matter; anything else, such as a
+ * note opening with a --- horizontal rule, is left in the body untouched,
+ * unless it opens with a `key:` line. Such a block, or one with a key that is
+ * not a valid variable name, gets an `error` saying what is wrong and where,
+ * `data` is empty, and the block is still left out of the body.
+ */
+export function parseFrontMatter(content: string): FrontMatter {
+  const match = content.match(FRONT_MATTER_PATTERN)
+  const untouched: FrontMatter = { data: {}, body: content }
+
+  if (!match || match.index !== 0) {
+    return untouched
+  }
+
+  const source = match[1]
+  const body = content.slice(match[0].length)
+  const meantAsFrontMatter = KEY_VALUE_PATTERN.test(source.split(/\r?\n/).find((line) => line.trim()) || "")
+
+  let data: unknown
+  try {
+    data = yaml.load(source, { schema: yaml.CORE_SCHEMA })
+  } catch (error) {
+    if (!(error instanceof yaml.YAMLException)) {
+      throw error
+    }
+    if (!meantAsFrontMatter) {
+      return untouched
+    }
+    return {
+      data: {},
+      body,
+      error: {
+        message: error.reason || error.message,
+        line: error.mark ? error.mark.line + 2 : undefined,
+      },
+    }
+  }
+
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    if (!meantAsFrontMatter) {
+      return untouched
+    }
+    return { data: {}, body, error: { message: "Front matter must be a list of key: value lines" } }
+  }
+
+  const badKey = Object.keys(data).find((key) => !VARIABLE_NAME_PATTERN.test(key))
+  if (badKey !== undefined) {
+    return {
+      data: {},
+      body,
+      error: {
+        message: `"${badKey}" is not a valid variable name (letters, digits and _, not starting with a digit)`,
+        line: keyLine(source, badKey),
+      },
+    }
+  }
+
+  return { data: data as Record<string, unknown>, body }
+}
+
+export function frontMatterErrorMessage(error: FrontMatterError): string {
+  return error.line
+    ? `Invalid note front matter on line ${error.line}: ${error.message}`
+    : `Invalid note front matter: ${error.message}`
+}
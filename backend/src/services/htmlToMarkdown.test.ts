@@ -0,0 +1,53 @@
+import { htmlToMarkdown } from "./htmlToMarkdown"
+
+describe("htmlToMarkdown", () => {
+  it("keeps headings, emphasis and links", () => {
+    expect(
+      htmlToMarkdown('<h2>Plan</h2><p>Read <strong>this</strong> <em>first</em>: <a href="https://example.com/doc">the doc</a></p>')
+    ).toBe("## Plan\n\nRead **this** _first_: [the doc](https://example.com/doc)")
+  })
+
+  it("writes a link whose text is its URL as an autolink", () => {
+    expect(htmlToMarkdown('<a href="https://example.com">https://example.com</a>')).toBe("<https://example.com>")
+  })
+
+  it("converts nested lists with indented continuation lines", () => {
+    expect(htmlToMarkdown("<ol><li>One<ul><li>A</li><li>B</li></ul></li><li>Two</li></ol>")).toBe(
+      "1. One\n   - A\n   - B\n2. Two"
+    )
+  })
+
+  it("quotes blockquotes and fences preformatted code", () => {
+    expect(htmlToMarkdown("<blockquote><p>Earlier</p><p>message</p></blockquote>")).toBe("> Earlier\n>\n> message")
+    expect(htmlToMarkdown("<pre><code>const a = 1\nconst b = 2\n</code></pre>")).toBe(
+      "```\nconst a = 1\nconst b = 2\n```"
+    )
+  })
+
+  it("flattens layout tables to one line per row", () => {
+    expect(htmlToMarkdown("<table><tr><td>Item</td><td>Qty</td></tr><tr><td>Pens</td><td>2</td></tr></table>")).toBe(
+      "Item | Qty\nPens | 2"
+    )
+  })
+
+  it("drops scripts, styles, tracking pixels and cid: images", () => {
+    expect(
+      htmlToMarkdown(
+        '<style>p{}</style><script>x()</script><p>Hi</p><img src="https://t.example.com/o.gif" width="1"><img src="cid:logo">'
+      )
+    ).toBe("Hi")
+    expect(htmlToMarkdown('<img src="https://example.com/a.png" alt="Chart">')).toBe(
+      "![Chart](https://example.com/a.png)"
+    )
+  })
+
+  it("escapes characters that would start Markdown formatting", () => {
+    expect(htmlToMarkdown("<p>2 * 3 = 6 and snake_case [x]</p>")).toBe("2 \\* 3 = 6 and snake\\_case \\[x\\]")
+  })
+
+  it("turns line breaks into newlines and collapses blank lines", () => {
+    expect(htmlToMarkdown("<div>Line one<br>Line two</div><p></p><p></p><p>Next</p>")).toBe(
+      "Line one\nLine two\n\nNext"
+    )
+  })
+})
@@ -0,0 +1,132 @@
+import { JSDOM } from "jsdom"
+
+// Node.nodeType values
+const ELEMENT_NODE = 1
+const TEXT_NODE = 3
+
+// Mail clients wrap everything in these; they carry no structure of their own
+const SKIPPED_TAGS = new Set(["HEAD", "SCRIPT", "STYLE", "TITLE", "META", "LINK"])
+const BLOCK_TAGS = new Set([
+  "P", "DIV", "SECTION", "ARTICLE", "HEADER", "FOOTER", "MAIN", "CENTER",
+  "TABLE", "TBODY", "THEAD", "TFOOT", "FORM",
+])
+
+// Characters that would otherwise start Markdown formatting inside plain text
+const escapeText = (text: string) => text.replace(/([\\`*_\[\]])/g, "\\$1")
+
+/**
+ * Convert an email's HTML body to Markdown for a note. Headings, emphasis,
+ * links, images, lists, quotes, code and table rows are kept; layout markup
+ * is flattened to paragraphs.
+ */
+export function htmlToMarkdown(html: string): string {
+  const document = new JSDOM(`<body>${html}</body>`).window.document
+
+  return convertChildren(document.body)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+function convertChildren(node: Node): string {
+  return Array.from(node.childNodes).map(convertNode).join("")
+}
+
+function convertNode(node: Node): string {
+  if (node.nodeType === TEXT_NODE) {
+    return escapeText((node.textContent || "").replace(/\s+/g, " "))
+  }
+  if (node.nodeType !== ELEMENT_NODE) {
+    return ""
+  }
+
+  const element = node as Element
+  const tag = element.tagName
+
+  if (SKIPPED_TAGS.has(tag)) {
+    return ""
+  }
+
+  const heading = /^H([1-6])$/.exec(tag)
+  if (heading) {
+    return `\n\n${"#".repeat(Number(heading[1]))} ${inline(element)}\n\n`
+  }
+
+  switch (tag) {
+    case "BR":
+      // Notes render single newlines as line breaks
+      return "\n"
+    case "HR":
+      return "\n\n---\n\n"
+    case "STRONG":
+    case "B":
+      return wrap(convertChildren(element), "**")
+    case "EM":
+    case "I":
+      return wrap(convertChildren(element), "_")
+    case "CODE":
+      return element.closest("pre") ? element.textContent || "" : `\`${element.textContent || ""}\``
+    case "PRE":
+      return `\n\n\`\`\`\n${(element.textContent || "").replace(/\n$/, "")}\n\`\`\`\n\n`
+    case "A": {
+      const href = element.getAttribute("href")
+      const text = convertChildren(element).trim()
+      if (!href || href.startsWith("#") || !text) {
+        return text
+      }
+      return text === href ? `<${href}>` : `[${text}](${href})`
+    }
+    case "IMG": {
+      const src = element.getAttribute("src")
+      // Tracking pixels and inline cid: images cannot be shown from a note
+      if (!src || src.startsWith("cid:") || element.getAttribute("width") === "1") {
+        return ""
+      }
+      return `![${escapeText(element.getAttribute("alt") || "")}](${src})`
+    }
+    case "BLOCKQUOTE": {
+      const quoted = convertChildren(element).trim().replace(/\n{3,}/g, "\n\n")
+      return `\n\n${quoted.split("\n").map((line) => `> ${line}`.trimEnd()).join("\n")}\n\n`
+    }
+    case "UL":
+    case "OL":
+      return `\n\n${convertList(element, tag === "OL")}\n\n`
+    case "TR": {
+      const cells = Array.from(element.children)
+        .filter((cell) => cell.tagName === "TD" || cell.tagName === "TH")
+        .map((cell) => inline(cell))
+        .filter(Boolean)
+      return cells.length ? `${cells.join(" | ")}\n` : ""
+    }
+    default:
+      return BLOCK_TAGS.has(tag)
+        ? `\n\n${convertChildren(element)}\n\n`
+        : convertChildren(element)
+  }
+}
+
+function convertList(list: Element, ordered: boolean): string {
+  return Array.from(list.children)
+    .filter((item) => item.tagName === "LI")
+    .map((item, index) => {
+      const marker = ordered ? `${index + 1}. ` : "- "
+      const [first, ...rest] = convertChildren(item)
+        .trim()
+        .replace(/\n{2,}/g, "\n")
+        .split("\n")
+      // Continuation lines, including nested lists, are indented under the marker
+      return [marker + first, ...rest.map((line) => " ".repeat(marker.length) + line)].join("\n")
+    })
+    .join("\n")
+}
+
+// Text of an element on a single line
+function inline(element: Element): string {
+  return convertChildren(element).replace(/\s*\n\s*/g, " ").trim()
+}
+
+// Emphasis markers must hug the text, so surrounding spaces are kept outside
+function wrap(text: string, marker: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text
+}
@@ -0,0 +1,320 @@
+import dns from "dns"
+import http from "http"
+import https from "https"
+import net from "net"
+import { JSDOM } from "jsdom"
+import { v4 as uuidv4 } from "uuid"
+import { EmailAttachment } from "../types"
+import {
+  AttachmentService,
+  ALLOWED_ATTACHMENT_TYPES,
+  ATTACHMENT_MAX_BYTES,
+} from "./attachmentService"
+
+const FETCH_TIMEOUT_MS = parseInt(
+  process.env.INLINE_IMAGE_FETCH_TIMEOUT_MS || "5000"
+)
+const MAX_REDIRECTS = 3
+
+const IMAGE_TYPES = ALLOWED_ATTACHMENT_TYPES.filter((type) =>
+  type.startsWith("image/")
+)
+
+// Images uploaded to the app are referenced by their download URL
+const APP_ATTACHMENT_SRC =
+  /^(?:https?:\/\/[^/]+)?\/api\/attachments\/([0-9a-f-]{36})$/i
+const DATA_URI_SRC = /^data:(image\/[a-z+.-]+);base64,(.+)$/i
+
+// Remote images are fetched server-side, so never reach into private networks
+const blockedAddresses = new net.BlockList()
+blockedAddresses.addSubnet("0.0.0.0", 8)
+blockedAddresses.addSubnet("10.0.0.0", 8)
+blockedAddresses.addSubnet("100.64.0.0", 10)
+blockedAddresses.addSubnet("127.0.0.0", 8)
+blockedAddresses.addSubnet("169.254.0.0", 16)
+blockedAddresses.addSubnet("172.16.0.0", 12)
+blockedAddresses.addSubnet("192.168.0.0", 16)
+blockedAddresses.addAddress("::", "ipv6")
+blockedAddresses.addAddress("::1", "ipv6")
+blockedAddresses.addSubnet("fc00::", 7, "ipv6")
+blockedAddresses.addSubnet("fe80::", 10, "ipv6")
+// IPv4-mapped (::ffff:10.0.0.1) and NAT64 addresses reach the IPv4 host they embed
+blockedAddresses.addSubnet("::ffff:0:0", 96, "ipv6")
+blockedAddresses.addSubnet("64:ff9b::", 96, "ipv6")
+
+const isBlocked = (address: string, family: number) =>
+  blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+
+// Resolves like dns.lookup but fails on private addresses. The request
+// connects to the address checked here, so a second resolution cannot
+// swap in a different host.
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "")
+      return
+    }
+
+    const blocked = addresses.find(({ address, family }) => isBlocked(address, family))
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`Refusing to fetch from private address ${blocked?.address || hostname}`), "")
+      return
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+interface ResolvedImage {
+  filename: string
+  contentType: string
+  content: Buffer
+}
+
+interface RemoteResponse {
+  status: number
+  location?: string
+  contentType: string
+  // Left out when the response is not an image or is over the size cap
+  content: Buffer | null
+}
+
+export interface InlinedHtml {
+  html: string
+  attachments: EmailAttachment[]
+  // Sources left as they were because they could not be embedded
+  skipped: string[]
+}
+
+export class InlineImageService {
+  constructor(
+    private attachmentService: AttachmentService = new AttachmentService()
+  ) {}
+
+  /**
+   * Embed the images referenced by <img src> as inline attachments and
+   * rewrite their src to cid:. Images that cannot be resolved, or that do
+   * not fit in budgetBytes, keep their original src.
+   *
+   * The created attachments are unlinked; the caller links them to the
+   * sent email like any other upload, or calls discard if it cannot.
+   */
+  public async embed(
+    userId: string,
+    html: string,
+    budgetBytes: number
+  ): Promise<InlinedHtml> {
+    const dom = new JSDOM(`<body>${html}</body>`)
+    const body = dom.window.document.body
+    const images = Array.from(body.querySelectorAll("img"))
+    const sources = Array.from(
+      new Set(
+        images
+          .map((image) => image.getAttribute("src") || "")
+          .filter((src) => src && !src.startsWith("cid:"))
+      )
+    )
+
+    if (sources.length === 0) {
+      return { html, attachments: [], skipped: [] }
+    }
+
+    const attachments: EmailAttachment[] = []
+    const skipped: string[] = []
+    const contentIds = new Map<string, string>()
+    let remaining = budgetBytes
+
+    for (const src of sources) {
+      const image = await this.resolve(userId, src).catch((error) => {
+        console.warn(`Could not embed inline image ${src}:`, error.message)
+        return null
+      })
+
+      if (!image || image.content.length > remaining) {
+        skipped.push(src)
+        continue
+      }
+
+      const contentId = `${uuidv4()}@notes-email`
+      const attachment = await this.attachmentService
+        .create(
+          userId,
+          {
+            originalname: image.filename,
+            mimetype: image.contentType,
+            size: image.content.length,
+            buffer: image.content,
+          },
+          contentId
+        )
+        .catch(async (error) => {
+          await this.discard(userId, attachments.map(({ id }) => id))
+          throw error
+        })
+      attachments.push(attachment)
+      contentIds.set(src, contentId)
+      remaining -= image.content.length
+    }
+
+    images.forEach((image) => {
+      const contentId = contentIds.get(image.getAttribute("src") || "")
+      if (contentId) {
+        image.setAttribute("src", `cid:${contentId}`)
+      }
+    })
+
+    return { html: body.innerHTML, attachments, skipped }
+  }
+
+  /**
+   * Remove attachments created by embed when the send they were made for
+   * is not recorded. Failures are logged, not thrown, so they never hide
+   * the error that caused the cleanup.
+   */
+  public async discard(userId: string, attachmentIds: string[]): Promise<void> {
+    for (const id of attachmentIds) {
+      await this.attachmentService.deleteUnsent(id, userId).catch((error) => {
+        console.error(`Could not remove inline image attachment ${id}:`, error)
+      })
+    }
+  }
+
+  private async resolve(
+    userId: string,
+    src: string
+  ): Promise<ResolvedImage | null> {
+    const appAttachment = src.match(APP_ATTACHMENT_SRC)
+    if (appAttachment) {
+      const attachment = await this.attachmentService.getForUser(
+        appAttachment[1],
+        userId
+      )
+      if (!attachment || !IMAGE_TYPES.includes(attachment.content_type)) {
+        return null
+      }
+
+      return {
+        filename: attachment.filename,
+        contentType: attachment.content_type,
+        content: await this.attachmentService.readContent(attachment),
+      }
+    }
+
+    const dataUri = src.match(DATA_URI_SRC)
+    if (dataUri) {
+      const contentType = dataUri[1].toLowerCase()
+      const content = Buffer.from(dataUri[2], "base64")
+      if (!IMAGE_TYPES.includes(contentType) || content.length > ATTACHMENT_MAX_BYTES) {
+        return null
+      }
+
+      return { filename: this.filenameFor("image", contentType), contentType, content }
+    }
+
+    if (/^https?:\/\//i.test(src)) {
+      return this.fetchRemote(src)
+    }
+
+    return null
+  }
+
+  private async fetchRemote(src: string): Promise<ResolvedImage | null> {
+    let url = new URL(src)
+
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      const response = await this.get(url)
+
+      if (response.status >= 300 && response.status < 400 && response.location) {
+        url = new URL(response.location, url)
+        continue
+      }
+
+      if (!response.content) {
+        return null
+      }
+
+      const name = decodeURIComponent(url.pathname.split("/").pop() || "")
+      return {
+        filename: this.filenameFor(name.replace(/\.[^.]*$/, "") || "image", response.contentType),
+        contentType: response.contentType,
+        content: response.content,
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * One GET without following redirects. The body is only read for image
+   * responses, and the request is dropped as soon as it passes
+   * ATTACHMENT_MAX_BYTES instead of buffering whatever the server sends.
+   */
+  private get(url: URL): Promise<RemoteResponse> {
+    // Literal addresses are connected to directly, without a lookup
+    const host = url.hostname.replace(/^\[|\]$/g, "")
+    const family = net.isIP(host)
+    if (family && isBlocked(host, family)) {
+      return Promise.reject(new Error(`Refusing to fetch from private address ${host}`))
+    }
+
+    return new Promise((resolve, reject) => {
+      const client = url.protocol === "https:" ? https : http
+      const request = client.get(
+        url,
+        { lookup: publicLookup, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) },
+        (response) => {
+          const status = response.statusCode || 0
+          const location = response.headers.location
+          const contentType = (response.headers["content-type"] || "")
+            .split(";")[0]
+            .trim()
+            .toLowerCase()
+          const declaredLength = parseInt(response.headers["content-length"] || "0")
+          const skip = () => {
+            request.destroy()
+            resolve({ status, location, contentType, content: null })
+          }
+
+          if (
+            status < 200 ||
+            status >= 300 ||
+            !IMAGE_TYPES.includes(contentType) ||
+            declaredLength > ATTACHMENT_MAX_BYTES
+          ) {
+            skip()
+            return
+          }
+
+          const chunks: Buffer[] = []
+          let size = 0
+          response.on("data", (chunk: Buffer) => {
+            size += chunk.length
+            if (size > ATTACHMENT_MAX_BYTES) {
+              skip()
+              return
+            }
+            chunks.push(chunk)
+          })
+          response.on("end", () => {
+            if (response.complete) {
+              resolve({ status, location, contentType, content: Buffer.concat(chunks) })
+            } else {
+              reject(new Error("Image download was cut off"))
+            }
+          })
+          response.on("error", reject)
+        }
+      )
+      request.on("error", reject)
+    })
+  }
+
+  private filenameFor(base: string, contentType: string): string {
+    const extension = contentType.split("/")[1].replace("jpeg", "jpg")
+    return `${base}.${extension}`
+  }
+}
@@ -0,0 +1,62 @@
+import nodemailer from "nodemailer"
+import { OutgoingEmail } from "../types"
+
+/**
+ * Build nodemailer mail options shared by every nodemailer-based transport
+ */
+export function buildMailOptions(
+  from: string,
+  message: OutgoingEmail
+): nodemailer.SendMailOptions {
+  return {
+    from,
+    to: message.to.join(", "),
+    cc: message.cc?.length ? message.cc.join(", ") : undefined,
+    bcc: message.bcc?.length ? message.bcc.join(", ") : undefined,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    html: message.html,
+    text: message.text || htmlToText(message.html),
+    attachments: message.attachments?.map((attachment) => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: attachment.content,
+      cid: attachment.cid,
+    })),
+    inReplyTo: message.inReplyTo,
+    references: message.references?.length ? message.references : undefined,
+    headers: message.unsubscribeUrl
+      ? unsubscribeHeaders(message.unsubscribeUrl)
+      : undefined,
+  }
+}
+
+/**
+ * List-Unsubscribe headers with RFC 8058 one-click support
+ */
+export function unsubscribeHeaders(url: string): Record<string, string> {
+  return {
+    "List-Unsubscribe": `<${url}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  }
+}
+
+/**
+ * Simple HTML to text conversion
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>/gi, "\n\n")
+    .replace(/<\/div>/gi, "\n")
+    .replace(/<\/h[1-6]>/gi, "\n\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n\s*\n\s*\n/g, "\n\n")
+    .trim()
+}
@@ -1,11 +1,14 @@
 import Nylas from "nylas"
-import { User } from "../types"
+import { OutgoingEmail, EmailSendResult } from "../types"
+import { classifySendError } from "./deliveryErrors"
+import { unsubscribeHeaders } from "./mailMessage"
 
-export interface EmailSendResult {
-  messageId: string
-  success: boolean
-  error?: string
-}
+// Nylas expects { name, email } participants; use the email username as name
+const toParticipants = (emails: string[]) =>
+  emails.map((email) => ({
+    name: email.split("@")[0],
+    email: email,
+  }))
 
 export class NylasEmailService {
   private nylas: Nylas
@@ -54,20 +57,14 @@ export class NylasEmailService {
 
   public async sendEmail(
     grantId: string,
-    recipients: string[],
-    subject: string,
-    bodyHtml: string,
-    bodyText: string
+    message: OutgoingEmail
   ): Promise<EmailSendResult> {
     try {
       // Create message object for Nylas v3 API (exact format from your curl example)
       const messageData: any = {
-        subject: subject,
-        body: bodyHtml, // HTML content goes in 'body' field
-        to: recipients.map((email) => ({
-          name: email.split("@")[0], // Use email username as name
-          email: email,
-        })),
+        subject: message.subject,
+        body: message.html, // HTML content goes in 'body' field
+        to: toParticipants(message.to),
         // tracking_options: {
         //   opens: true,
         //   links: true,
@@ -76,13 +73,46 @@ export class NylasEmailService {
         // },
       }
 
+      if (message.cc?.length) {
+        messageData.cc = toParticipants(message.cc)
+      }
+      if (message.bcc?.length) {
+        messageData.bcc = toParticipants(message.bcc)
+      }
+      if (message.replyTo) {
+        messageData.reply_to = toParticipants([message.replyTo])
+      }
+      // Nylas sets the threading headers itself from its own message id
+      if (message.replyToMessageId) {
+        messageData.reply_to_message_id = message.replyToMessageId
+      }
+
+      // JSON sends carry attachments base64-encoded (Nylas caps these at 3MB total)
+      if (message.attachments?.length) {
+        messageData.attachments = message.attachments.map((attachment) => ({
+          filename: attachment.filename,
+          content_type: attachment.contentType,
+          content: attachment.content.toString("base64"),
+          size: attachment.content.length,
+          ...(attachment.cid
+            ? { content_id: attachment.cid, is_inline: true }
+            : {}),
+        }))
+      }
+
+      if (message.unsubscribeUrl) {
+        messageData.custom_headers = Object.entries(
+          unsubscribeHeaders(message.unsubscribeUrl)
+        ).map(([name, value]) => ({ name, value }))
+      }
+
       // Add plain text version if provided
-      if (bodyText) {
-        messageData.text = bodyText
+      if (message.text) {
+        messageData.text = message.text
       }
 
       // Use correct Nylas v3 API endpoint for sending messages
-      const endpoint = `https://api.us.nylas.com/v3/grants/${`dcbd389c-d486-4d70-8c82-022dc738806e`}/messages/send`
+      const endpoint = `https://api.us.nylas.com/v3/grants/${grantId}/messages/send`
 
       const response = await fetch(endpoint, {
         method: "POST",
@@ -108,7 +138,9 @@ export class NylasEmailService {
           errorMessage = responseText.substring(0, 200) // First 200 chars of error
         }
 
-        throw new Error(errorMessage)
+        const error: any = new Error(errorMessage)
+        error.status = response.status
+        throw error
       }
 
       const responseText = await response.text()
@@ -126,6 +158,7 @@ export class NylasEmailService {
       return {
         messageId: result.data?.id || result.id || "",
         success: true,
+        threadId: result.data?.thread_id,
       }
     } catch (error: any) {
       console.error("Nylas email sending error:", error)
@@ -133,22 +166,39 @@ export class NylasEmailService {
         messageId: "",
         success: false,
         error: error.message || "Failed to send email",
+        errorClass: classifySendError(error),
       }
     }
   }
 
   /**
-   * Get messages using Nylas v3 API (like your curl example)
+   * Get messages using Nylas v3 API (like your curl example). The reply
+   * sync pages through messages received after a point in time, with their
+   * headers.
    */
   public async getMessages(
     grantId: string,
     limit: number = 5,
-    unread: boolean = false
+    unread: boolean = false,
+    options: {
+      receivedAfter?: Date
+      receivedBefore?: Date
+      pageToken?: string
+      includeHeaders?: boolean
+    } = {}
   ): Promise<any> {
     try {
       const params = new URLSearchParams({
         limit: limit.toString(),
         ...(unread && { unread: "true" }),
+        ...(options.receivedAfter && {
+          received_after: Math.floor(options.receivedAfter.getTime() / 1000).toString(),
+        }),
+        ...(options.receivedBefore && {
+          received_before: Math.floor(options.receivedBefore.getTime() / 1000).toString(),
+        }),
+        ...(options.pageToken && { page_token: options.pageToken }),
+        ...(options.includeHeaders && { fields: "include_headers" }),
       })
 
       const response = await fetch(
@@ -176,79 +226,76 @@ export class NylasEmailService {
   }
 
   /**
-   * Get user's email account info using v3 API
+   * Get a single message using v3 API. Resolves to null when the grant has
+   * no such message.
+   */
+  public async getMessage(grantId: string, messageId: string): Promise<any> {
+    const response = await fetch(
+      `https://api.us.nylas.com/v3/grants/${grantId}/messages/${encodeURIComponent(messageId)}`,
+      {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+      }
+    )
+
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error?.message || `HTTP ${response.status}`)
+    }
+
+    const result = await response.json()
+    return result.data
+  }
+
+  /**
+   * Get the mailbox address and name of a grant using v3 API. Resolves to
+   * null when Nylas does not return an address: connected accounts are
+   * keyed by address, so guessing one could replace another mailbox's grant.
    */
   public async getAccountInfo(
     grantId: string
   ): Promise<{ email: string; name: string } | null> {
     try {
-      console.log(
-        "Getting account info for grantId:",
-        grantId.substring(0, 20) + "..."
-      )
-
-      // Try different API endpoints for Nylas v3
-      const endpoints = [
+      const response = await fetch(
         `https://api.us.nylas.com/v3/grants/${grantId}`,
-        `https://api.us.nylas.com/v3/accounts`,
-      ]
-
-      for (const endpoint of endpoints) {
-        try {
-          console.log("Trying endpoint:", endpoint)
-
-          const response = await fetch(endpoint, {
-            method: "GET",
-            headers: {
-              Accept: "application/json",
-              Authorization: `Bearer ${this.apiKey}`,
-            },
-          })
-
-          console.log("Response status:", response.status)
-
-          if (response.ok) {
-            const result = await response.json()
-            console.log("API Response:", JSON.stringify(result, null, 2))
-
-            // Handle different response structures
-            let accountData = result
-            if (result.data) {
-              accountData = Array.isArray(result.data)
-                ? result.data[0]
-                : result.data
-            }
-
-            const email =
-              accountData.email ||
-              accountData.email_address ||
-              accountData.primary_email_address ||
-              ""
-            const name = accountData.name || accountData.display_name || email
-
-            if (email) {
-              console.log("Found account info:", { email, name })
-              return { email, name }
-            }
-          } else {
-            const errorText = await response.text()
-            console.log(
-              `Endpoint ${endpoint} failed:`,
-              response.status,
-              errorText
-            )
-          }
-        } catch (endpointError) {
-          console.log(`Endpoint ${endpoint} error:`, endpointError)
+        {
+          method: "GET",
+          headers: {
+            Accept: "application/json",
+            Authorization: `Bearer ${this.apiKey}`,
+          },
         }
+      )
+
+      if (!response.ok) {
+        console.error(
+          "Nylas account info failed:",
+          response.status,
+          await response.text()
+        )
+        return null
       }
 
-      // If all endpoints fail, return a default based on grant ID
-      console.log("All endpoints failed, using fallback")
-      return {
-        email: "unknown@example.com",
-        name: "Nylas User",
+      const result = await response.json()
+      const accountData = result.data || result
+      const email =
+        accountData.email ||
+        accountData.email_address ||
+        accountData.primary_email_address ||
+        ""
+
+      if (!email) {
+        console.error("Nylas grant has no email address")
+        return null
       }
+
+      return { email, name: accountData.name || accountData.display_name || email }
     } catch (error) {
       console.error("Nylas account info error:", error)
       return null
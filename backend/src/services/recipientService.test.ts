@@ -0,0 +1,44 @@
+import { deriveEmailStatus } from "./recipientService"
+import { SentEmailRecipient } from "../types"
+
+type Recipient = Pick<SentEmailRecipient, "kind" | "status">
+
+const to = (status: Recipient["status"]): Recipient => ({ kind: "to", status })
+const cc = (status: Recipient["status"]): Recipient => ({ kind: "cc", status })
+
+describe("deriveEmailStatus", () => {
+  it("is sent when every address got the email", () => {
+    expect(deriveEmailStatus([to("sent"), cc("sent")])).toBe("sent")
+  })
+
+  it("stays pending while any address awaits an attempt", () => {
+    expect(deriveEmailStatus([to("sent"), cc("pending")])).toBe("pending")
+    expect(deriveEmailStatus([to("failed"), to("pending")])).toBe("pending")
+  })
+
+  it("is partial when some addresses got it and others did not", () => {
+    expect(deriveEmailStatus([to("sent"), to("failed")])).toBe("partial")
+    expect(deriveEmailStatus([to("sent"), cc("bounced")])).toBe("partial")
+    expect(deriveEmailStatus([to("dead"), cc("sent")])).toBe("partial")
+  })
+
+  it("reports the worst outcome when no address got it", () => {
+    expect(deriveEmailStatus([to("dead"), to("failed")])).toBe("dead")
+    expect(deriveEmailStatus([to("bounced"), to("failed")])).toBe("failed")
+    expect(deriveEmailStatus([to("bounced"), cc("bounced")])).toBe("bounced")
+  })
+
+  it("ignores suppressed addresses", () => {
+    expect(deriveEmailStatus([to("sent"), to("suppressed")])).toBe("sent")
+    expect(deriveEmailStatus([to("pending"), cc("suppressed")])).toBe("pending")
+  })
+
+  it("is suppressed when every To address is suppressed and nothing was sent", () => {
+    expect(deriveEmailStatus([to("suppressed"), to("suppressed")])).toBe("suppressed")
+    expect(deriveEmailStatus([to("suppressed"), cc("pending")])).toBe("suppressed")
+  })
+
+  it("keeps a delivery that already went out to Cc addresses", () => {
+    expect(deriveEmailStatus([to("suppressed"), cc("sent")])).toBe("sent")
+  })
+})
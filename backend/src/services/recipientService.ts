@@ -0,0 +1,174 @@
+import { PoolClient } from "pg"
+import pool from "../database/connection"
+import {
+  EmailSendResult,
+  RecipientKind,
+  SentEmail,
+  SentEmailRecipient,
+} from "../types"
+
+type RecipientStatus = SentEmailRecipient["status"]
+
+/**
+ * Aggregate status of an email from the status of its recipients.
+ *
+ * Nothing is delivered once every To address is suppressed. Otherwise
+ * suppressed addresses are ignored: the email stays pending while any
+ * address awaits an attempt, and is partial when some addresses got it
+ * and others failed for good or bounced afterwards.
+ */
+export function deriveEmailStatus(
+  recipients: Pick<SentEmailRecipient, "kind" | "status">[]
+): SentEmail["status"] {
+  const to = recipients.filter((recipient) => recipient.kind === "to")
+  if (
+    to.every((recipient) => recipient.status === "suppressed") &&
+    !recipients.some((recipient) => recipient.status === "sent")
+  ) {
+    return "suppressed"
+  }
+
+  const statuses = recipients
+    .map((recipient) => recipient.status)
+    .filter((status) => status !== "suppressed")
+
+  if (statuses.includes("pending")) {
+    return "pending"
+  }
+  if (statuses.every((status) => status === "sent")) {
+    return "sent"
+  }
+  if (statuses.includes("sent")) {
+    return "partial"
+  }
+  if (statuses.includes("dead")) {
+    return "dead"
+  }
+  return statuses.every((status) => status === "bounced") ? "bounced" : "failed"
+}
+
+export class RecipientService {
+  /**
+   * Create the per-address rows of a newly stored email. Addresses already
+   * known to be suppressed are recorded as such and never attempted.
+   */
+  public async createForEmail(
+    client: PoolClient,
+    sentEmailId: string,
+    recipients: { to: string[]; cc?: string[]; bcc?: string[] },
+    suppressed: string[] = []
+  ): Promise<void> {
+    const skipped = new Set(suppressed.map((email) => email.toLowerCase()))
+    const rows = (["to", "cc", "bcc"] as RecipientKind[]).flatMap((kind) =>
+      Array.from(new Set(recipients[kind] || [])).map((email) => ({
+        email,
+        kind,
+        status: skipped.has(email.toLowerCase()) ? "suppressed" : "pending",
+      }))
+    )
+
+    await client.query(
+      `INSERT INTO sent_email_recipients (sent_email_id, email, kind, status)
+       SELECT $1, r.email, r.kind, r.status
+       FROM UNNEST($2::text[], $3::text[], $4::text[]) AS r(email, kind, status)
+       ON CONFLICT (sent_email_id, kind, email) DO NOTHING`,
+      [
+        sentEmailId,
+        rows.map((row) => row.email),
+        rows.map((row) => row.kind),
+        rows.map((row) => row.status),
+      ]
+    )
+  }
+
+  public async listForEmail(
+    sentEmailId: string,
+    client: PoolClient | typeof pool = pool
+  ): Promise<SentEmailRecipient[]> {
+    const result = await client.query(
+      `SELECT * FROM sent_email_recipients WHERE sent_email_id = $1
+       ORDER BY CASE kind WHEN 'to' THEN 0 WHEN 'cc' THEN 1 ELSE 2 END, created_at, email`,
+      [sentEmailId]
+    )
+    return result.rows
+  }
+
+  public async markSuppressed(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return
+    }
+
+    await pool.query(
+      `UPDATE sent_email_recipients SET status = 'suppressed', error_message = NULL, error_class = NULL
+       WHERE id = ANY($1::uuid[])`,
+      [ids]
+    )
+  }
+
+  /**
+   * Record the outcome of one delivery attempt on the addresses it was sent
+   * to. Transient failures leave an address pending for the next attempt
+   * unless the attempt budget is exhausted, which dead-letters it.
+   */
+  public async recordAttempt(
+    attempted: SentEmailRecipient[],
+    result: EmailSendResult,
+    attemptsExhausted: boolean
+  ): Promise<void> {
+    const failureStatus = (errorClass: string): RecipientStatus =>
+      errorClass === "permanent" ? "failed" : attemptsExhausted ? "dead" : "pending"
+
+    const rejected = new Map(
+      (result.rejected || []).map((recipient) => [
+        recipient.email.toLowerCase(),
+        recipient,
+      ])
+    )
+
+    for (const recipient of attempted) {
+      const rejection = result.success
+        ? rejected.get(recipient.email.toLowerCase())
+        : {
+            error: result.error || "Unknown error",
+            errorClass: result.errorClass || "transient",
+          }
+
+      if (!rejection) {
+        await pool.query(
+          `UPDATE sent_email_recipients
+           SET status = 'sent', provider_message_id = $1, error_message = NULL, error_class = NULL,
+               sent_at = CURRENT_TIMESTAMP
+           WHERE id = $2`,
+          [result.messageId || null, recipient.id]
+        )
+        continue
+      }
+
+      await pool.query(
+        `UPDATE sent_email_recipients SET status = $1, error_message = $2, error_class = $3
+         WHERE id = $4`,
+        [
+          failureStatus(rejection.errorClass),
+          rejection.error,
+          rejection.errorClass,
+          recipient.id,
+        ]
+      )
+    }
+  }
+
+  /**
+   * Move failed and dead addresses back to pending for a manual retry
+   */
+  public async resetFailed(
+    client: PoolClient,
+    sentEmailId: string
+  ): Promise<number> {
+    const result = await client.query(
+      `UPDATE sent_email_recipients SET status = 'pending', error_message = NULL, error_class = NULL
+       WHERE sent_email_id = $1 AND status IN ('failed', 'dead')`,
+      [sentEmailId]
+    )
+    return result.rowCount ?? 0
+  }
+}
@@ -0,0 +1,230 @@
+import { JSDOM } from "jsdom"
+import DOMPurify from "dompurify"
+import pool from "../database/connection"
+import { ConnectedAccount, ReceivedReply } from "../types"
+import { NylasEmailService } from "./nylasEmailService"
+import { nylasGrant } from "./connectedAccountService"
+import { htmlToText } from "./mailMessage"
+
+const purify = DOMPurify(new JSDOM("").window as any)
+
+const SYNC_INTERVAL_S = parseInt(process.env.REPLY_SYNC_INTERVAL_S || "300")
+const SYNC_LOOKBACK_DAYS = parseInt(process.env.REPLY_SYNC_LOOKBACK_DAYS || "30")
+// Providers can index a message a little after its date
+const SYNC_OVERLAP_MS = 5 * 60 * 1000
+const PAGE_SIZE = 50
+const MAX_PAGES = 10
+
+export interface ReplySyncResult {
+  fetched: number
+  linked: number
+}
+
+// Message-ids listed in an In-Reply-To or References header
+const headerMessageIds = (value?: string): string[] =>
+  value?.match(/<[^<>\s]+>/g) || []
+
+export class ReplySyncService {
+  constructor(
+    private nylasService: NylasEmailService = new NylasEmailService()
+  ) {}
+
+  /**
+   * Sync every connected Nylas mailbox whose owner has delivered emails and
+   * whose last sync is older than REPLY_SYNC_INTERVAL_S. Returns the number
+   * of replies linked.
+   */
+  public async syncDue(): Promise<number> {
+    const result = await pool.query(
+      `SELECT * FROM connected_accounts ca
+       WHERE ca.provider = 'nylas' AND ca.access_token IS NOT NULL
+         AND (ca.replies_synced_at IS NULL OR ca.replies_synced_at < CURRENT_TIMESTAMP - make_interval(secs => $1))
+         AND EXISTS (
+           SELECT 1 FROM sent_emails se WHERE se.user_id = ca.user_id AND se.provider_message_id IS NOT NULL
+         )`,
+      [SYNC_INTERVAL_S]
+    )
+
+    let linked = 0
+    for (const account of result.rows) {
+      try {
+        linked += (await this.syncAccount(account)).linked
+      } catch (error) {
+        console.error(`Reply sync for account ${account.id} failed:`, error)
+      }
+    }
+
+    return linked
+  }
+
+  /**
+   * Sync every Nylas mailbox the user has connected
+   */
+  public async syncUser(userId: string): Promise<ReplySyncResult> {
+    const result = await pool.query(
+      "SELECT * FROM connected_accounts WHERE user_id = $1 AND provider = 'nylas' AND access_token IS NOT NULL",
+      [userId]
+    )
+
+    const total: ReplySyncResult = { fetched: 0, linked: 0 }
+    for (const account of result.rows) {
+      const synced = await this.syncAccount(account)
+      total.fetched += synced.fetched
+      total.linked += synced.linked
+    }
+
+    return total
+  }
+
+  /**
+   * Pull the messages a mailbox received since the last sync and store the
+   * ones that reply to an email its owner sent. The first sync looks back
+   * REPLY_SYNC_LOOKBACK_DAYS.
+   *
+   * Nylas lists messages newest first, so a sync cut short after MAX_PAGES
+   * has checked the newest messages only. It keeps replies_synced_at and
+   * records in replies_sync_before where it stopped; the next sync goes on
+   * from there, and once it gets through, the cursor moves up to that
+   * point so messages that arrived meanwhile are checked too.
+   */
+  public async syncAccount(account: ConnectedAccount): Promise<ReplySyncResult> {
+    const startedAt = new Date()
+    const since = account.replies_synced_at
+      ? new Date(new Date(account.replies_synced_at).getTime() - SYNC_OVERLAP_MS)
+      : new Date(startedAt.getTime() - SYNC_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+    const before = account.replies_sync_before ? new Date(account.replies_sync_before) : undefined
+
+    let fetched = 0
+    let linked = 0
+    let pageToken: string | undefined
+    let oldest: number | undefined
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response = await this.nylasService.getMessages(
+        nylasGrant(account),
+        PAGE_SIZE,
+        false,
+        { receivedAfter: since, receivedBefore: before, pageToken, includeHeaders: true }
+      )
+      const messages: any[] = response.data || []
+      fetched += messages.length
+
+      for (const message of messages) {
+        if (await this.link(account, message)) {
+          linked++
+        }
+        if (typeof message.date === "number") {
+          oldest = Math.min(oldest ?? message.date, message.date)
+        }
+      }
+
+      pageToken = response.next_cursor
+      if (!pageToken) {
+        break
+      }
+    }
+
+    if (pageToken) {
+      // Nylas dates are in seconds; a second is added so messages sharing the oldest date are not missed
+      if (oldest !== undefined) {
+        await pool.query(
+          "UPDATE connected_accounts SET replies_sync_before = $1 WHERE id = $2",
+          [new Date((oldest + 1) * 1000), account.id]
+        )
+      }
+    } else {
+      await pool.query(
+        "UPDATE connected_accounts SET replies_synced_at = $1, replies_sync_before = NULL WHERE id = $2",
+        [before || startedAt, account.id]
+      )
+    }
+
+    return { fetched, linked }
+  }
+
+  public async listForEmail(sentEmailId: string): Promise<ReceivedReply[]> {
+    const result = await pool.query(
+      "SELECT * FROM received_replies WHERE sent_email_id = $1 ORDER BY received_at",
+      [sentEmailId]
+    )
+    return result.rows
+  }
+
+  /**
+   * Store a Nylas message as a reply when it answers one of the user's sent
+   * emails: by In-Reply-To/References for emails sent with an RFC 5322
+   * Message-ID (Gmail, SMTP), or by thread for emails sent through Nylas.
+   * Returns false for unrelated messages and ones stored before.
+   */
+  private async link(account: ConnectedAccount, message: any): Promise<boolean> {
+    const header = (name: string): string | undefined =>
+      message.headers?.find(
+        (entry: any) => entry.name?.toLowerCase() === name
+      )?.value
+    const from = message.from?.[0] || {}
+
+    // The owner's own messages, including the sends themselves, share the thread
+    if (from.email?.toLowerCase() === account.email.toLowerCase()) {
+      return false
+    }
+    const ownIds = [message.id, header("message-id")].filter(Boolean)
+    const own = await pool.query(
+      "SELECT 1 FROM sent_emails WHERE user_id = $1 AND provider_message_id = ANY($2::text[]) LIMIT 1",
+      [account.user_id, ownIds]
+    )
+    if (own.rows.length > 0) {
+      return false
+    }
+
+    const referenced = [
+      ...headerMessageIds(header("in-reply-to")),
+      ...headerMessageIds(header("references")),
+    ]
+
+    // A header match names the exact email; a thread match picks its latest send
+    const sentEmailResult = await pool.query(
+      `SELECT se.id FROM sent_emails se
+       WHERE se.user_id = $1
+         AND (
+           se.provider_message_id = ANY($2::text[])
+           OR se.provider_thread_id = $3
+           OR EXISTS (
+             SELECT 1 FROM sent_email_recipients r
+             WHERE r.sent_email_id = se.id AND r.provider_message_id = ANY($2::text[])
+           )
+         )
+       ORDER BY (se.provider_message_id = ANY($2::text[])) IS TRUE DESC, se.sent_at DESC NULLS LAST
+       LIMIT 1`,
+      [account.user_id, referenced, message.thread_id ?? null]
+    )
+    const sentEmail = sentEmailResult.rows[0]
+
+    if (!sentEmail) {
+      return false
+    }
+
+    const bodyHtml = purify.sanitize(message.body || "")
+    const inserted = await pool.query(
+      `INSERT INTO received_replies (user_id, sent_email_id, provider, provider_message_id, provider_thread_id, from_email, from_name, subject, snippet, body_html, body_text, received_at)
+       VALUES ($1, $2, 'nylas', $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (user_id, provider, provider_message_id) DO NOTHING
+       RETURNING id`,
+      [
+        account.user_id,
+        sentEmail.id,
+        message.id,
+        message.thread_id ?? null,
+        from.email ?? null,
+        from.name ?? null,
+        message.subject ?? null,
+        message.snippet ?? null,
+        bodyHtml,
+        htmlToText(bodyHtml),
+        // Nylas dates are in seconds
+        message.date ? new Date(message.date * 1000) : new Date(),
+      ]
+    )
+
+    return inserted.rows.length > 0
+  }
+}
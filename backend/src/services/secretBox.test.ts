@@ -0,0 +1,96 @@
+import crypto from "crypto"
+
+type SecretBox = typeof import("./secretBox")
+
+// The keyring is read once per module, so each configuration gets a fresh copy
+const loadWithKeys = (env: { ENCRYPTION_KEYS?: string; ENCRYPTION_KEY?: string }): SecretBox => {
+  process.env.ENCRYPTION_KEYS = env.ENCRYPTION_KEYS ?? ""
+  process.env.ENCRYPTION_KEY = env.ENCRYPTION_KEY ?? ""
+
+  let secretBox: SecretBox | undefined
+  jest.isolateModules(() => {
+    secretBox = require("./secretBox")
+  })
+  return secretBox!
+}
+
+describe("secretBox", () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it("round-trips a secret under the first master key", () => {
+    const { encryptSecret, decryptSecret, isEncrypted } = loadWithKeys({ ENCRYPTION_KEYS: "k1:first-secret" })
+
+    const encrypted = encryptSecret("refresh-token")
+    expect(encrypted.startsWith("v2:k1:")).toBe(true)
+    expect(encrypted).not.toContain("refresh-token")
+    expect(isEncrypted(encrypted)).toBe(true)
+    expect(decryptSecret(encrypted)).toBe("refresh-token")
+  })
+
+  it("uses a fresh data key for every value", () => {
+    const { encryptSecret } = loadWithKeys({ ENCRYPTION_KEY: "only-secret" })
+    expect(encryptSecret("same")).not.toBe(encryptSecret("same"))
+  })
+
+  it("uses ENCRYPTION_KEY with id default when ENCRYPTION_KEYS is unset", () => {
+    const { encryptSecret, currentKeyId } = loadWithKeys({ ENCRYPTION_KEY: "only-secret" })
+    expect(currentKeyId()).toBe("default")
+    expect(encryptSecret("token").startsWith("v2:default:")).toBe(true)
+  })
+
+  it("refuses tampered values", () => {
+    const { encryptSecret, decryptSecret } = loadWithKeys({ ENCRYPTION_KEYS: "k1:first-secret" })
+    const parts = encryptSecret("token").split(":")
+    parts[7] = Buffer.from("forged").toString("base64")
+
+    expect(() => decryptSecret(parts.join(":"))).toThrow()
+    expect(() => decryptSecret("plain-token")).toThrow("Unrecognized encrypted value")
+  })
+
+  it("reads values written before a rotation and re-wraps them under the new key", () => {
+    const before = loadWithKeys({ ENCRYPTION_KEYS: "k1:first-secret" })
+    const encrypted = before.encryptSecret("token")
+
+    const after = loadWithKeys({ ENCRYPTION_KEYS: "k2:second-secret,k1:first-secret" })
+    expect(after.decryptSecret(encrypted)).toBe("token")
+
+    const rewrapped = after.rewrapSecret(encrypted)!
+    expect(rewrapped.startsWith("v2:k2:")).toBe(true)
+    expect(after.rewrapSecret(rewrapped)).toBeNull()
+
+    const rotated = loadWithKeys({ ENCRYPTION_KEYS: "k2:second-secret" })
+    expect(rotated.decryptSecret(rewrapped)).toBe("token")
+    expect(() => rotated.decryptSecret(encrypted)).toThrow('Unknown encryption key "k1"')
+  })
+
+  it("reads v1 values sealed directly with ENCRYPTION_KEY", () => {
+    const key = crypto.createHash("sha256").update("legacy-secret").digest()
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv)
+    const ciphertext = Buffer.concat([cipher.update("old-token"), cipher.final()])
+    const legacy = ["v1", iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+      .join(":")
+
+    const { decryptSecret, rewrapSecret } = loadWithKeys({ ENCRYPTION_KEY: "legacy-secret" })
+    expect(decryptSecret(legacy)).toBe("old-token")
+    expect(decryptSecret(rewrapSecret(legacy)!)).toBe("old-token")
+  })
+
+  it("requires a master key", () => {
+    const { assertEncryptionKey, encryptSecret } = loadWithKeys({})
+    process.env.JWT_SECRET = "jwt-secret"
+
+    expect(() => assertEncryptionKey()).toThrow("ENCRYPTION_KEYS or ENCRYPTION_KEY must be set")
+    expect(() => encryptSecret("token")).toThrow("ENCRYPTION_KEYS or ENCRYPTION_KEY must be set")
+  })
+
+  it("rejects malformed ENCRYPTION_KEYS entries", () => {
+    const { assertEncryptionKey } = loadWithKeys({ ENCRYPTION_KEYS: "k1:" })
+    expect(() => assertEncryptionKey()).toThrow("ENCRYPTION_KEYS entries must look like id:secret")
+  })
+})
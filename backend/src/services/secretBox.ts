@@ -0,0 +1,161 @@
+import crypto from "crypto"
+
+interface MasterKey {
+  id: string
+  key: Buffer
+}
+
+const deriveKey = (secret: string): Buffer =>
+  crypto.createHash("sha256").update(secret).digest()
+
+const VERSION = "v2"
+// Values from before envelope encryption: sealed directly with ENCRYPTION_KEY
+const LEGACY_VERSION = "v1"
+
+let keyring: MasterKey[] | undefined
+
+/**
+ * Master keys from ENCRYPTION_KEYS (comma-separated `id:secret` pairs). The
+ * first one encrypts new values; the others are kept so values written
+ * before a rotation can still be read. Without it, ENCRYPTION_KEY is the
+ * only key, with id `default`. One of them must be set: credentials are
+ * never encrypted with another secret, or with none.
+ */
+function masterKeys(): MasterKey[] {
+  if (!keyring) {
+    const entries = (process.env.ENCRYPTION_KEYS || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+
+    keyring =
+      entries.length > 0
+        ? entries.map((entry) => {
+            const separator = entry.indexOf(":")
+            if (separator <= 0 || separator === entry.length - 1) {
+              throw new Error("ENCRYPTION_KEYS entries must look like id:secret")
+            }
+            return { id: entry.slice(0, separator), key: deriveKey(entry.slice(separator + 1)) }
+          })
+        : [{ id: "default", key: deriveKey(legacySecret()) }]
+  }
+  return keyring
+}
+
+function legacySecret(): string {
+  const secret = process.env.ENCRYPTION_KEY || ""
+  if (!secret) {
+    throw new Error("ENCRYPTION_KEYS or ENCRYPTION_KEY must be set to encrypt stored credentials")
+  }
+  return secret
+}
+
+/**
+ * Fail startup when no master key is configured, rather than on the first
+ * credential that is stored or read
+ */
+export function assertEncryptionKey(): void {
+  masterKeys()
+}
+
+// AES-256-GCM, as `iv`, `tag` and `ciphertext` in base64
+function seal(key: Buffer, plaintext: Buffer): string[] {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64"))
+}
+
+function open(key: Buffer, [iv, tag, ciphertext]: string[]): Buffer {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64"))
+  decipher.setAuthTag(Buffer.from(tag, "base64"))
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()])
+}
+
+// The master key an envelope was sealed with and its data key
+function unwrap(parts: string[]): { keyId: string; dataKey: Buffer } {
+  const [, keyId, ...wrapped] = parts
+  const master = masterKeys().find((candidate) => candidate.id === keyId)
+  if (!master) {
+    throw new Error(`Unknown encryption key "${keyId}"`)
+  }
+  return { keyId, dataKey: open(master.key, wrapped.slice(0, 3)) }
+}
+
+function parse(encrypted: string): string[] {
+  const parts = encrypted.split(":")
+  const expected = parts[0] === VERSION ? 8 : parts[0] === LEGACY_VERSION ? 4 : 0
+  if (parts.length !== expected) {
+    throw new Error("Unrecognized encrypted value")
+  }
+  return parts
+}
+
+export function currentKeyId(): string {
+  return masterKeys()[0].id
+}
+
+// Whether a stored value was written by encryptSecret (of any version)
+export function isEncrypted(value: string): boolean {
+  try {
+    parse(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Encrypt a secret with envelope encryption: a fresh data key encrypts the
+ * value and the current master key encrypts the data key, both with
+ * AES-256-GCM. The result is self-describing
+ * (`v2:keyId:wrapped data key:iv:tag:ciphertext`, base64) so it can be
+ * decrypted after the current key changes.
+ */
+export function encryptSecret(plaintext: string): string {
+  const master = masterKeys()[0]
+  const dataKey = crypto.randomBytes(32)
+
+  return [
+    VERSION,
+    master.id,
+    ...seal(master.key, dataKey),
+    ...seal(dataKey, Buffer.from(plaintext, "utf8")),
+  ].join(":")
+}
+
+/**
+ * Decrypt a value made by encryptSecret. Throws when it was tampered with
+ * or its master key is no longer configured.
+ */
+export function decryptSecret(encrypted: string): string {
+  const parts = parse(encrypted)
+
+  if (parts[0] === LEGACY_VERSION) {
+    return open(deriveKey(legacySecret()), parts.slice(1)).toString("utf8")
+  }
+
+  const { dataKey } = unwrap(parts)
+  return open(dataKey, parts.slice(5)).toString("utf8")
+}
+
+/**
+ * Re-encrypt a value under the current master key, or return null when it
+ * already is. Only the data key is re-wrapped, the value itself is left
+ * as it is.
+ */
+export function rewrapSecret(encrypted: string): string | null {
+  const parts = parse(encrypted)
+
+  if (parts[0] === LEGACY_VERSION) {
+    return encryptSecret(decryptSecret(encrypted))
+  }
+
+  const { keyId, dataKey } = unwrap(parts)
+  const master = masterKeys()[0]
+  if (keyId === master.id) {
+    return null
+  }
+  return [VERSION, master.id, ...seal(master.key, dataKey), ...parts.slice(5)].join(":")
+}
@@ -0,0 +1,195 @@
+import nodemailer from "nodemailer"
+import pool from "../database/connection"
+import { SenderIdentity, SenderIdentityInput, SmtpSender, SmtpTlsMode } from "../types"
+import { isValidContactEmail } from "./contactService"
+import { decryptSecret, encryptSecret } from "./secretBox"
+import { smtpSenderOptions } from "./transports/smtpTransport"
+
+const TLS_MODES: SmtpTlsMode[] = ["tls", "starttls", "none"]
+// A test connection should fail fast instead of holding the request open
+const VERIFY_TIMEOUT_MS = 10 * 1000
+
+// What the API returns: the stored password never leaves the server
+export type PublicSenderIdentity = Omit<SenderIdentity, "password_encrypted"> & {
+  has_password: boolean
+}
+
+const toPublic = ({ password_encrypted, ...identity }: SenderIdentity): PublicSenderIdentity => ({
+  ...identity,
+  has_password: !!password_encrypted,
+})
+
+/**
+ * Check the fields of a sender identity. Returns an error message, or null
+ * when the input is usable.
+ */
+export function validateSenderIdentity(input: Partial<SenderIdentityInput>): string | null {
+  if (!input.name?.trim()) {
+    return "Name is required"
+  }
+  if (!input.from_email || !isValidContactEmail(input.from_email.trim())) {
+    return "A valid from_email is required"
+  }
+  if (!input.host?.trim()) {
+    return "Host is required"
+  }
+  const port = Number(input.port)
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    return "Port must be between 1 and 65535"
+  }
+  if (!TLS_MODES.includes(input.tls_mode as SmtpTlsMode)) {
+    return `tls_mode must be one of ${TLS_MODES.join(", ")}`
+  }
+  return null
+}
+
+export class SenderIdentityService {
+  public async list(userId: string): Promise<PublicSenderIdentity[]> {
+    const result = await pool.query(
+      "SELECT * FROM sender_identities WHERE user_id = $1 ORDER BY name",
+      [userId]
+    )
+    return result.rows.map(toPublic)
+  }
+
+  /**
+   * Save a new identity and test its connection straight away, so the
+   * caller learns whether it can send with it
+   */
+  public async create(userId: string, input: SenderIdentityInput): Promise<PublicSenderIdentity> {
+    const result = await pool.query(
+      `INSERT INTO sender_identities
+       (user_id, name, from_name, from_email, host, port, tls_mode, username, password_encrypted)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        userId,
+        input.name.trim(),
+        input.from_name?.trim() || null,
+        input.from_email.trim(),
+        input.host.trim(),
+        Number(input.port),
+        input.tls_mode,
+        input.username?.trim() || null,
+        input.password ? encryptSecret(input.password) : null,
+      ]
+    )
+
+    return this.test(result.rows[0])
+  }
+
+  /**
+   * Update an identity and test the connection again. The stored password
+   * is kept when none is given, and dropped along with the username.
+   */
+  public async update(
+    userId: string,
+    id: string,
+    input: SenderIdentityInput
+  ): Promise<PublicSenderIdentity | null> {
+    const username = input.username?.trim() || null
+    const result = await pool.query(
+      `UPDATE sender_identities
+       SET name = $3, from_name = $4, from_email = $5, host = $6, port = $7, tls_mode = $8,
+           username = $9,
+           password_encrypted = CASE WHEN $9::text IS NULL THEN NULL ELSE COALESCE($10, password_encrypted) END,
+           verified_at = NULL, last_error = NULL
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [
+        id,
+        userId,
+        input.name.trim(),
+        input.from_name?.trim() || null,
+        input.from_email.trim(),
+        input.host.trim(),
+        Number(input.port),
+        input.tls_mode,
+        username,
+        input.password ? encryptSecret(input.password) : null,
+      ]
+    )
+
+    return result.rows.length > 0 ? this.test(result.rows[0]) : null
+  }
+
+  public async remove(userId: string, id: string): Promise<boolean> {
+    const result = await pool.query(
+      "DELETE FROM sender_identities WHERE id = $1 AND user_id = $2 RETURNING id",
+      [id, userId]
+    )
+    return result.rows.length > 0
+  }
+
+  public async verify(userId: string, id: string): Promise<PublicSenderIdentity | null> {
+    const identity = await this.find(userId, id)
+    return identity ? this.test(identity) : null
+  }
+
+  // Whether the user may send with an identity right now
+  public async isVerified(userId: string, id: string): Promise<boolean> {
+    const identity = await this.find(userId, id)
+    return !!identity?.verified_at
+  }
+
+  /**
+   * Connection settings for delivering through an identity, or null when it
+   * was deleted or has not passed a test connection since it last changed
+   */
+  public async senderFor(id: string): Promise<SmtpSender | null> {
+    const result = await pool.query(
+      "SELECT * FROM sender_identities WHERE id = $1 AND verified_at IS NOT NULL",
+      [id]
+    )
+    return result.rows.length > 0 ? this.toSender(result.rows[0]) : null
+  }
+
+  private async find(userId: string, id: string): Promise<SenderIdentity | null> {
+    const result = await pool.query(
+      "SELECT * FROM sender_identities WHERE id = $1 AND user_id = $2",
+      [id, userId]
+    )
+    return result.rows[0] || null
+  }
+
+  // Open a connection and log in without sending anything, recording the outcome
+  private async test(identity: SenderIdentity): Promise<PublicSenderIdentity> {
+    let error: string | null = null
+    try {
+      await nodemailer
+        .createTransport({
+          ...smtpSenderOptions(this.toSender(identity)),
+          connectionTimeout: VERIFY_TIMEOUT_MS,
+          greetingTimeout: VERIFY_TIMEOUT_MS,
+          socketTimeout: VERIFY_TIMEOUT_MS,
+        })
+        .verify()
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Connection failed"
+    }
+
+    const result = await pool.query(
+      `UPDATE sender_identities
+       SET verified_at = CASE WHEN $2::text IS NULL THEN CURRENT_TIMESTAMP END, last_error = $2
+       WHERE id = $1
+       RETURNING *`,
+      [identity.id, error]
+    )
+    return toPublic(result.rows[0])
+  }
+
+  private toSender(identity: SenderIdentity): SmtpSender {
+    const from = identity.from_name
+      ? `"${identity.from_name.replace(/["\\]/g, "")}" <${identity.from_email}>`
+      : identity.from_email
+
+    return {
+      host: identity.host,
+      port: identity.port,
+      tlsMode: identity.tls_mode,
+      username: identity.username || undefined,
+      password: identity.password_encrypted ? decryptSecret(identity.password_encrypted) : undefined,
+      from,
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import crypto from "crypto"
+
+// Secret for the public links put into sent mail (unsubscribe, tracking).
+// Read when used, after dotenv has loaded the environment.
+const linkSecret = () => process.env.UNSUBSCRIBE_SECRET || ""
+
+// Externally reachable base URL of this API, used to build those links
+export const PUBLIC_API_URL = (
+  process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3001}`
+).replace(/\/$/, "")
+
+/**
+ * Fail startup without a link secret. The API and the worker both sign
+ * links (unsubscribe links at send time, tracking links at delivery), so
+ * they must share the same UNSUBSCRIBE_SECRET for the links to verify.
+ */
+export function assertLinkSecret(): void {
+  if (!linkSecret()) {
+    throw new Error("UNSUBSCRIBE_SECRET must be set to sign unsubscribe and tracking links")
+  }
+}
+
+export function signLink(payload: string): string {
+  assertLinkSecret()
+  return crypto.createHmac("sha256", linkSecret()).update(payload).digest("base64url")
+}
+
+export function verifyLinkSignature(payload: string, signature: string): boolean {
+  if (!linkSecret() || !signature) {
+    return false
+  }
+
+  const expected = Buffer.from(signLink(payload))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
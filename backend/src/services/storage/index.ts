@@ -0,0 +1,21 @@
+import { StorageDriver } from "./storageDriver"
+import { LocalDiskStorage } from "./localDiskStorage"
+
+export type { StorageDriver } from "./storageDriver"
+
+const drivers: Record<string, () => StorageDriver> = {
+  local: () => new LocalDiskStorage(),
+}
+
+const createStorage = (): StorageDriver => {
+  const name = process.env.ATTACHMENT_STORAGE || "local"
+  const factory = drivers[name]
+
+  if (!factory) {
+    throw new Error(`Unknown attachment storage driver: ${name}`)
+  }
+
+  return factory()
+}
+
+export const attachmentStorage = createStorage()
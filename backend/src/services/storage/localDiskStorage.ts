@@ -0,0 +1,40 @@
+import fs from "fs/promises"
+import path from "path"
+import { StorageDriver } from "./storageDriver"
+
+/**
+ * Stores files under a local directory (ATTACHMENTS_DIR)
+ */
+export class LocalDiskStorage implements StorageDriver {
+  public readonly name = "local"
+
+  constructor(
+    private rootDir: string = process.env.ATTACHMENTS_DIR || "./uploads"
+  ) {}
+
+  public async put(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolve(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, content)
+  }
+
+  public async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key))
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir)
+    const filePath = path.resolve(root, key)
+
+    // Keys are generated server-side, but never allow escaping the root
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+
+    return filePath
+  }
+}
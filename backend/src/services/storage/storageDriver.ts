@@ -0,0 +1,13 @@
+/**
+ * Backend for storing uploaded attachment contents. Keys are opaque strings
+ * generated by the caller; drivers decide how they map to physical storage.
+ */
+export interface StorageDriver {
+  readonly name: string
+
+  put(key: string, content: Buffer): Promise<void>
+
+  get(key: string): Promise<Buffer>
+
+  delete(key: string): Promise<void>
+}
@@ -0,0 +1,113 @@
+import { PoolClient } from "pg"
+import pool from "../database/connection"
+import { Suppression, SuppressionReason } from "../types"
+import { PUBLIC_API_URL, signLink, verifyLinkSignature } from "./signedLinks"
+
+export interface FilteredRecipients {
+  to: string[]
+  cc: string[]
+  bcc: string[]
+  // Addresses removed because the user's suppression list contains them
+  suppressed: string[]
+}
+
+const normalize = (email: string) => email.trim().toLowerCase()
+
+export class SuppressionService {
+  /**
+   * Remove suppressed addresses from a message's recipients
+   */
+  public async filterRecipients(
+    userId: string,
+    recipients: { to: string[]; cc?: string[]; bcc?: string[] },
+    client: PoolClient | typeof pool = pool
+  ): Promise<FilteredRecipients> {
+    const all = [...recipients.to, ...(recipients.cc || []), ...(recipients.bcc || [])]
+    const suppressed = await this.findSuppressed(userId, all, client)
+    const allowed = (emails: string[] = []) =>
+      emails.filter((email) => !suppressed.has(normalize(email)))
+
+    return {
+      to: allowed(recipients.to),
+      cc: allowed(recipients.cc),
+      bcc: allowed(recipients.bcc),
+      suppressed: all.filter((email) => suppressed.has(normalize(email))),
+    }
+  }
+
+  public async findSuppressed(
+    userId: string,
+    emails: string[],
+    client: PoolClient | typeof pool = pool
+  ): Promise<Set<string>> {
+    if (emails.length === 0) {
+      return new Set()
+    }
+
+    const result = await client.query(
+      "SELECT email FROM suppressions WHERE user_id = $1 AND email = ANY($2::text[])",
+      [userId, emails.map(normalize)]
+    )
+    return new Set(result.rows.map((row) => row.email))
+  }
+
+  /**
+   * Suppress addresses; ones already on the list are left as they are.
+   * Returns the number of newly suppressed addresses.
+   */
+  public async add(
+    userId: string,
+    emails: string[],
+    reason: SuppressionReason
+  ): Promise<number> {
+    const unique = Array.from(new Set(emails.map(normalize)))
+    if (unique.length === 0) {
+      return 0
+    }
+
+    const result = await pool.query(
+      `INSERT INTO suppressions (user_id, email, reason)
+       SELECT $1, email, $3 FROM UNNEST($2::text[]) AS email
+       ON CONFLICT (user_id, email) DO NOTHING`,
+      [userId, unique, reason]
+    )
+    return result.rowCount ?? 0
+  }
+
+  public async remove(id: string, userId: string): Promise<Suppression | null> {
+    const result = await pool.query(
+      "DELETE FROM suppressions WHERE id = $1 AND user_id = $2 RETURNING *",
+      [id, userId]
+    )
+    return result.rows[0] || null
+  }
+
+  /**
+   * Public unsubscribe link for one recipient of one sender. The token is
+   * an HMAC over the pair, so it cannot be forged for other addresses.
+   */
+  public unsubscribeUrl(userId: string, email: string): string {
+    const payload = Buffer.from(
+      JSON.stringify({ u: userId, e: normalize(email) })
+    ).toString("base64url")
+    return `${PUBLIC_API_URL}/unsubscribe/${payload}.${signLink(payload)}`
+  }
+
+  public verifyUnsubscribeToken(
+    token: string
+  ): { userId: string; email: string } | null {
+    const [payload, signature] = token.split(".")
+    if (!payload || !verifyLinkSignature(payload, signature)) {
+      return null
+    }
+
+    try {
+      const { u, e } = JSON.parse(Buffer.from(payload, "base64url").toString())
+      return typeof u === "string" && typeof e === "string"
+        ? { userId: u, email: e }
+        : null
+    } catch {
+      return null
+    }
+  }
+}
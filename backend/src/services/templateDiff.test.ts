@@ -0,0 +1,65 @@
+import { diffLines, diffTemplateVersions } from "./templateDiff"
+import { EmailTemplateVersion } from "../types"
+
+describe("diffLines", () => {
+  it("marks identical texts as equal with both line numbers", () => {
+    expect(diffLines("Hi\nBye", "Hi\nBye")).toEqual([
+      { type: "equal", text: "Hi", old_line: 1, new_line: 1 },
+      { type: "equal", text: "Bye", old_line: 2, new_line: 2 },
+    ])
+  })
+
+  it("puts removed lines before the added lines that replace them", () => {
+    expect(diffLines("Hi {{name}}\nThanks\nBye", "Hi {{first_name}}\nThanks\nBye")).toEqual([
+      { type: "removed", text: "Hi {{name}}", old_line: 1 },
+      { type: "added", text: "Hi {{first_name}}", new_line: 1 },
+      { type: "equal", text: "Thanks", old_line: 2, new_line: 2 },
+      { type: "equal", text: "Bye", old_line: 3, new_line: 3 },
+    ])
+  })
+
+  it("numbers lines on each side after insertions and deletions", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc\nd")).toEqual([
+      { type: "equal", text: "a", old_line: 1, new_line: 1 },
+      { type: "removed", text: "b", old_line: 2 },
+      { type: "added", text: "x", new_line: 2 },
+      { type: "equal", text: "c", old_line: 3, new_line: 3 },
+      { type: "added", text: "d", new_line: 4 },
+    ])
+  })
+
+  it("treats CRLF and LF line endings alike", () => {
+    expect(diffLines("a\r\nb", "a\nb").every((line) => line.type === "equal")).toBe(true)
+  })
+
+  it("shows a change too large to compare line by line as one replaced block", () => {
+    const lines = (prefix: string) => Array.from({ length: 3000 }, (_, index) => `${prefix}${index}`)
+    const before = ["Hello", ...lines("old "), "Bye"].join("\n")
+    const after = ["Hello", ...lines("new "), "Bye"].join("\n")
+
+    const diff = diffLines(before, after)
+    expect(diff).toHaveLength(6002)
+    expect(diff[0]).toEqual({ type: "equal", text: "Hello", old_line: 1, new_line: 1 })
+    expect(diff.slice(1, 3001).every((line) => line.type === "removed")).toBe(true)
+    expect(diff.slice(3001, 6001).every((line) => line.type === "added")).toBe(true)
+    expect(diff[3001]).toEqual({ type: "added", text: "new 0", new_line: 2 })
+    expect(diff[6001]).toEqual({ type: "equal", text: "Bye", old_line: 3002, new_line: 3002 })
+  })
+})
+
+describe("diffTemplateVersions", () => {
+  const version = (number: number, body: string, variables: string[]): EmailTemplateVersion =>
+    ({ template_id: "t1", version: number, subject: "Hello", body, variables }) as EmailTemplateVersion
+
+  it("diffs subject and body and lists the variables that changed", () => {
+    const diff = diffTemplateVersions(
+      version(1, "Hi {{name}}", ["name", "company"]),
+      version(2, "Hi {{first_name}}", ["first_name", "company"])
+    )
+
+    expect(diff).toMatchObject({ template_id: "t1", from_version: 1, to_version: 2 })
+    expect(diff.subject).toEqual([{ type: "equal", text: "Hello", old_line: 1, new_line: 1 }])
+    expect(diff.body.map((line) => line.type)).toEqual(["removed", "added"])
+    expect(diff.variables).toEqual({ added: ["first_name"], removed: ["name"] })
+  })
+})
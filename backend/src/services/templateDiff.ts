@@ -0,0 +1,88 @@
+import { DiffLine, EmailTemplateVersion, TemplateVersionDiff } from "../types"
+
+// Largest LCS table built, in cells (4 bytes each); bigger changes are shown as one replaced block
+const MAX_TABLE_CELLS = 4_000_000
+
+/**
+ * Line diff of two texts from their longest common subsequence. Removed
+ * lines come before the added lines that replace them, so runs of both
+ * can be shown side by side. Unchanged lines at the start and end are
+ * matched directly; when what lies between is too large to compare line by
+ * line, it is shown as removed and then added as a whole.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split(/\r?\n/)
+  const b = after.split(/\r?\n/)
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const lines: DiffLine[] = []
+  const equal = (i: number, j: number) => lines.push({ type: "equal", text: a[i], old_line: i + 1, new_line: j + 1 })
+  const removed = (i: number) => lines.push({ type: "removed", text: a[i], old_line: i + 1 })
+  const added = (j: number) => lines.push({ type: "added", text: b[j], new_line: j + 1 })
+
+  for (let k = 0; k < start; k++) {
+    equal(k, k)
+  }
+
+  const rows = endA - start
+  const columns = endB - start
+  if ((rows + 1) * (columns + 1) > MAX_TABLE_CELLS) {
+    for (let i = start; i < endA; i++) removed(i)
+    for (let j = start; j < endB; j++) added(j)
+  } else {
+    // length(i, j): common subsequence length of a[start + i..endA] and b[start + j..endB]
+    const lengths = new Uint32Array((rows + 1) * (columns + 1))
+    const length = (i: number, j: number) => lengths[i * (columns + 1) + j]
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * (columns + 1) + j] =
+          a[start + i] === b[start + j] ? length(i + 1, j + 1) + 1 : Math.max(length(i + 1, j), length(i, j + 1))
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && a[start + i] === b[start + j]) {
+        equal(start + i++, start + j++)
+      } else if (j === columns || (i < rows && length(i + 1, j) >= length(i, j + 1))) {
+        removed(start + i++)
+      } else {
+        added(start + j++)
+      }
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    equal(endA + k, endB + k)
+  }
+
+  return lines
+}
+
+export function diffTemplateVersions(
+  from: EmailTemplateVersion,
+  to: EmailTemplateVersion
+): TemplateVersionDiff {
+  return {
+    template_id: from.template_id,
+    from_version: from.version,
+    to_version: to.version,
+    subject: diffLines(from.subject, to.subject),
+    body: diffLines(from.body, to.body),
+    variables: {
+      added: to.variables.filter((name) => !from.variables.includes(name)),
+      removed: from.variables.filter((name) => !to.variables.includes(name)),
+    },
+  }
+}
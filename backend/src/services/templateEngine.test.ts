@@ -0,0 +1,73 @@
+import { TemplateEngine } from "./templateEngine"
+import { EmailTemplate, Note } from "../types"
+
+const engine = new TemplateEngine()
+const variables = (body: string) => engine.extractTemplateVariables("", body)
+const template = (body: string) => ({ subject: "Hello", body }) as EmailTemplate
+
+describe("extractTemplateVariables", () => {
+  it("finds variables, helper arguments and nested paths by their root name", () => {
+    expect(variables('{{client}} {{formatDate due "long" timezone=zone}} {{#if (eq status "done")}}{{owner.name}}{{/if}}')).toEqual([
+      "client",
+      "due",
+      "zone",
+      "status",
+      "owner",
+    ])
+  })
+
+  it("skips names local to #each and #with blocks", () => {
+    expect(variables("{{#each items}}{{name}} {{this}} {{@index}} {{../client}}{{/each}}")).toEqual(["items", "client"])
+    expect(variables("{{#with owner}}{{name}}{{else}}{{fallback}}{{/with}}")).toEqual(["owner", "fallback"])
+    expect(variables("{{#each items as |item i|}}{{item.name}} {{i}} {{@root.client}}{{/each}}")).toEqual([
+      "items",
+      "client",
+    ])
+  })
+
+  it("skips partial names, comments and literals", () => {
+    expect(variables('{{> footer company=company}}{{!-- {{hidden}} --}}{{default name "there"}} {{true}}')).toEqual([
+      "company",
+      "name",
+    ])
+  })
+})
+
+describe("missingVariables", () => {
+  it("lists required variables nothing supplies", () => {
+    expect(engine.missingVariables(template("{{client}} {{due}}"), { client: "Acme" })).toEqual(["due"])
+  })
+
+  it("treats variables that are tested or have a default as optional", () => {
+    const body = '{{#if due}}Due {{due}}{{/if}}{{#each tasks}}{{title}}{{/each}} Hi {{default name "there"}}'
+    expect(engine.missingVariables(template(body), {})).toEqual([])
+    expect(engine.missingVariables(template(`${body} {{due}}`), {})).toEqual(["due"])
+  })
+
+  it("includes the partials the template includes and its layout", () => {
+    const parts = {
+      partials: { signature: "{{sender}}", item: "{{title}}", unused: "{{never}}" },
+      layout: "<h1>{{brand}}</h1>{{{body}}}",
+    }
+    const body = "{{> signature}}{{#each tasks}}{{> item}}{{/each}}{{> item title=client}}"
+
+    expect(engine.missingVariables(template(body), { client: "Acme" }, parts)).toEqual(["sender", "brand"])
+  })
+})
+
+describe("renderTemplate", () => {
+  const note = (content: string) =>
+    ({ title: "Kickoff", content, created_at: new Date(), updated_at: new Date() }) as Note
+
+  it("renders front matter variables and reports the missing ones", () => {
+    const rendered = engine.renderTemplate(template("<p>{{client}} {{due}}</p>"), note("---\nclient: Acme\n---\nBody"))
+
+    expect(rendered.body_html).toBe("<p>Acme </p>")
+    expect(rendered.missing_variables).toEqual(["due"])
+  })
+
+  it("keeps a leading horizontal rule in the note content", () => {
+    const rendered = engine.renderTemplate(template("{{note_content}}"), note("---\n\nForwarded"))
+    expect(rendered.variables_used.note_content).toBe("---\n\nForwarded")
+  })
+})
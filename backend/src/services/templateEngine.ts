@@ -2,7 +2,9 @@ import Handlebars from 'handlebars';
 import { JSDOM } from 'jsdom';
 import DOMPurify from 'dompurify';
 import * as marked from 'marked';
-import { Note, EmailTemplate } from '../types';
+import { Note, EmailTemplate, EmailTemplateVersion, TemplateParts, FrontMatter } from '../types';
+import { TEMPLATE_HELPER_NAMES, registerTemplateHelpers } from './templateHelpers';
+import { parseFrontMatter } from './frontMatter';
 
 // Setup DOMPurify with JSDOM for server-side HTML sanitization
 const window = new JSDOM('').window;
@@ -14,13 +16,39 @@ marked.setOptions({
   gfm: true,
 });
 
+// Helpers Handlebars provides itself
+const BUILTIN_HELPERS = ['if', 'unless', 'each', 'with', 'lookup', 'log'];
+const KNOWN_HELPERS = new Set([...BUILTIN_HELPERS, ...TEMPLATE_HELPER_NAMES]);
+// Block helpers that test their argument, so a missing value is expected
+const CONDITIONAL_BLOCKS = new Set(['if', 'unless', 'each', 'with']);
+// Blocks whose contents resolve names against their argument instead of the outer context
+const CONTEXT_BLOCKS = new Set(['each', 'with']);
+
+// Where a template expression sits while walking its syntax tree
+interface VariableScope {
+  depth: number; // Context-changing blocks around it; ../ climbs one each
+  locals: Set<string>; // Block params, e.g. |item| in {{#each items as |item|}}
+  guarded: Set<string>; // Variables an enclosing block tests
+}
+
+// Variables every note provides; front matter and contact fields cannot redefine them
+export const NOTE_VARIABLES = [
+  'note_title', 'note_content', 'note_content_html', 'note_created_at', 'note_updated_at',
+  'today', 'now', 'current_year', 'current_month', 'current_date'
+];
+
 export class TemplateEngine {
   private extractNoteVariables(note: Note): Record<string, any> {
-    const variables: Record<string, any> = {
-      // Note metadata
+    const { data, body } = this.noteFrontMatter(note.content);
+
+    return {
+      // Front matter values, e.g. "due: 2024-05-01" becomes {{due}}
+      ...data,
+
+      // Note metadata, without the front matter block
       note_title: note.title,
-      note_content: note.content,
-      note_content_html: this.markdownToHtml(note.content),
+      note_content: body,
+      note_content_html: this.markdownToHtml(body),
       note_created_at: note.created_at.toISOString(),
       note_updated_at: note.updated_at.toISOString(),
       
@@ -33,20 +61,46 @@ export class TemplateEngine {
       current_month: new Date().toLocaleString('default', { month: 'long' }),
       current_date: new Date().toLocaleDateString(),
     };
+  }
 
-    // Try to extract custom variables from note content
-    // Look for patterns like {{variable_name}} in the note content
-    const customVariableMatches = note.content.match(/\{\{([^}]+)\}\}/g);
-    if (customVariableMatches) {
-      customVariableMatches.forEach(match => {
-        const variableName = match.replace(/[{}]/g, '').trim();
-        if (!variables[variableName]) {
-          variables[variableName] = `[${variableName}]`; // Placeholder for missing variables
-        }
-      });
+  /**
+   * A note's front matter and Markdown body. Keys that would shadow the
+   * built-in note variables are reported as an error.
+   */
+  public noteFrontMatter(content: string): FrontMatter {
+    const frontMatter = parseFrontMatter(content);
+    const reserved = Object.keys(frontMatter.data).find(key => NOTE_VARIABLES.includes(key));
+
+    if (reserved) {
+      return {
+        data: {},
+        body: frontMatter.body,
+        error: { message: `"${reserved}" is a built-in variable and cannot be set in front matter` }
+      };
     }
+    return frontMatter;
+  }
+
+  // Required variables of the template that a note's content leaves unsupplied, before any per-recipient ones
+  public missingNoteVariables(template: EmailTemplate | EmailTemplateVersion, content: string, parts: TemplateParts = { partials: {} }): string[] {
+    const { data } = this.noteFrontMatter(content);
+    const supplied = Object.fromEntries(NOTE_VARIABLES.map(name => [name, true]));
+    return this.missingVariables(template, { ...data, ...supplied }, parts);
+  }
 
-    return variables;
+  // Required variables of the template, the partials it includes and its layout
+  // that the note, its front matter and the extra variables don't supply
+  public missingVariables(template: EmailTemplate | EmailTemplateVersion, variables: Record<string, any>, parts: TemplateParts = { partials: {} }): string[] {
+    const references = this.variableReferences(template.subject + ' ' + template.body, parts.partials);
+    if (parts.layout) {
+      this.variableReferences(parts.layout, parts.partials).forEach((required, name) => {
+        // The layout's body is the rendered template
+        if (name !== 'body') references.set(name, references.get(name) || required);
+      });
+    }
+    return Array.from(references)
+      .filter(([name, required]) => required && !(name in variables))
+      .map(([name]) => name);
   }
 
     private markdownToHtml(markdown: string): string {
@@ -68,16 +122,36 @@ export class TemplateEngine {
   }
 
 
-  public renderTemplate(template: EmailTemplate, note: Note): { subject: string; body_html: string; body_text: string; variables_used: Record<string, any> } {
-    const variables = this.extractNoteVariables(note);
+  // Helpers and partials are registered in a fresh environment per render,
+  // so one user's partials are never visible to another's
+  private environment(parts: TemplateParts): typeof Handlebars {
+    const handlebars = Handlebars.create();
+    registerTemplateHelpers(handlebars, { markdownToHtml: (markdown) => this.markdownToHtml(markdown) });
+    Object.entries(parts.partials).forEach(([name, content]) => handlebars.registerPartial(name, content));
+    return handlebars;
+  }
+
+  /**
+   * Render a template against a note. The template can also be a version
+   * snapshot from its history, to reproduce an earlier send. Extra variables
+   * (e.g. mail-merge columns) are added alongside the note variables and
+   * take precedence. With a layout, the rendered body is placed at its
+   * {{{body}}}.
+   */
+  public renderTemplate(template: EmailTemplate | EmailTemplateVersion, note: Note, extraVariables: Record<string, any> = {}, parts: TemplateParts = { partials: {} }): { subject: string; body_html: string; body_text: string; variables_used: Record<string, any>; missing_variables: string[] } {
+    const variables = { ...this.extractNoteVariables(note), ...extraVariables };
+    const handlebars = this.environment(parts);
     
     // Compile templates
-    const subjectTemplate = Handlebars.compile(template.subject);
-    const bodyTemplate = Handlebars.compile(template.body);
+    const subjectTemplate = handlebars.compile(template.subject);
+    const bodyTemplate = handlebars.compile(template.body);
     
     // Render templates
     const subject = subjectTemplate(variables);
-    const bodyHtml = bodyTemplate(variables);
+    let bodyHtml = bodyTemplate(variables);
+    if (parts.layout) {
+      bodyHtml = handlebars.compile(parts.layout)({ ...variables, body: bodyHtml });
+    }
     
     // Sanitize HTML output
     const sanitizedHtml = this.sanitizeHtml(bodyHtml);
@@ -89,7 +163,8 @@ export class TemplateEngine {
       subject,
       body_html: sanitizedHtml,
       body_text: bodyText,
-      variables_used: variables
+      variables_used: variables,
+      missing_variables: this.missingVariables(template, variables, parts)
     };
   }
 
@@ -121,13 +196,13 @@ export class TemplateEngine {
     const errors: string[] = [];
     
     try {
-      Handlebars.compile(subject);
+      this.checkHelpers(subject);
     } catch (error) {
       errors.push(`Subject template error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
     
     try {
-      Handlebars.compile(body);
+      this.checkHelpers(body);
     } catch (error) {
       errors.push(`Body template error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -138,32 +213,158 @@ export class TemplateEngine {
     };
   }
 
+  /**
+   * Parse a template source and reject calls to helpers outside the
+   * built-in set, which would otherwise only fail when sending.
+   */
+  public checkHelpers(source: string): void {
+    const unknown = new Set<string>();
+
+    const visit = (node: any) => {
+      if (!node || typeof node !== 'object') return;
+      const called = ['MustacheStatement', 'BlockStatement', 'SubExpression'].includes(node.type)
+        && node.path?.type === 'PathExpression'
+        && (node.params.length > 0 || node.hash);
+      if (called && !KNOWN_HELPERS.has(node.path.original)) {
+        unknown.add(node.path.original);
+      }
+      Object.values(node).forEach((child) => (Array.isArray(child) ? child.forEach(visit) : visit(child)));
+    };
+
+    visit(Handlebars.parse(source));
+    if (unknown.size > 0) {
+      throw new Error(`Unknown helper: ${Array.from(unknown).join(', ')}`);
+    }
+  }
+
+  /**
+   * Names of the partials a template source includes. Throws on invalid
+   * syntax.
+   */
+  public referencedPartials(source: string): string[] {
+    const names = new Set<string>();
+
+    const visit = (node: any) => {
+      if (!node || typeof node !== 'object') return;
+      if ((node.type === 'PartialStatement' || node.type === 'PartialBlockStatement') && node.name.type === 'PathExpression') {
+        // @partial-block is Handlebars' own, not a user partial
+        if (!node.name.original.startsWith('@')) {
+          names.add(node.name.original);
+        }
+      }
+      Object.values(node).forEach((child) => (Array.isArray(child) ? child.forEach(visit) : visit(child)));
+    };
+
+    visit(Handlebars.parse(source));
+    return Array.from(names);
+  }
+
   /**
    * Extract variable names from template
    */
   public extractTemplateVariables(subject: string, body: string): string[] {
-    const variables = new Set<string>();
-    const content = subject + ' ' + body;
-    
-    // Match Handlebars variables: {{variable}} or {{#each variable}}
-    const matches = content.match(/\{\{[^}]+\}\}/g);
-    
-    if (matches) {
-      matches.forEach(match => {
-        const variable = match
-          .replace(/[{}]/g, '')
-          .replace(/^#each\s+/, '')
-          .replace(/^if\s+/, '')
-          .replace(/^unless\s+/, '')
-          .trim()
-          .split('.')[0]; // Take only the root variable name
-        
-        if (variable && !variable.startsWith('/') && variable !== 'this') {
-          variables.add(variable);
+    return Array.from(this.variableReferences(subject + ' ' + body).keys());
+  }
+
+  /**
+   * The top-level variables a template source reads, each mapped to whether
+   * it is required. Names local to a block ({{this}}, @index, block params
+   * and fields of the items in {{#each}} or {{#with}}) are not variables.
+   * A variable is optional when every use of it is tested by #if, #unless,
+   * #each or #with, or falls back with default. The given partials are
+   * read where they are included with the current context; one included
+   * with a context of its own reads that, not the top level. Throws on
+   * invalid syntax.
+   */
+  private variableReferences(source: string, partials: Record<string, string> = {}): Map<string, boolean> {
+    const references = new Map<string, boolean>();
+    const including = new Set<string>();
+
+    const rootName = (path: any, scope: VariableScope): string | undefined => {
+      if (path.data) {
+        // @root.name reads the top level; @index, @key and the like are Handlebars' own
+        return path.parts[0] === 'root' ? path.parts[1] : undefined;
+      }
+      // this.name and ./name skip block params and read the current context
+      const explicit = /^(this\b|\.\/)/.test(path.original);
+      if (!explicit && path.depth === 0 && scope.locals.has(path.parts[0])) return undefined;
+      return path.depth === scope.depth ? path.parts[0] : undefined;
+    };
+
+    const expression = (node: any, scope: VariableScope, required: boolean) => {
+      if (node.type === 'SubExpression') {
+        call(node, scope, required);
+      } else if (node.type === 'PathExpression') {
+        const name = rootName(node, scope);
+        if (name) {
+          references.set(name, references.get(name) || (required && !scope.guarded.has(name)));
         }
+      }
+    };
+
+    // A mustache, subexpression or block opening: either a helper call or a plain variable
+    const call = (node: any, scope: VariableScope, required: boolean) => {
+      if (node.params.length === 0 && !node.hash) {
+        if (!KNOWN_HELPERS.has(node.path.original)) expression(node.path, scope, required);
+        return;
+      }
+      node.params.forEach((param: any, index: number) =>
+        expression(param, scope, required && !(node.path.original === 'default' && index === 0)));
+      node.hash?.pairs.forEach((pair: any) => expression(pair.value, scope, required));
+    };
+
+    const block = (node: any, scope: VariableScope) => {
+      const name = node.path.original;
+      const section = node.params.length === 0 && !node.hash && !KNOWN_HELPERS.has(name);
+      const conditional = section || CONDITIONAL_BLOCKS.has(name);
+      call(node, scope, !conditional);
+
+      const tested = section ? node.path : node.params[0];
+      const testedName = conditional && tested ? rootName(tested, scope) : undefined;
+      const guarded = testedName ? new Set([...scope.guarded, testedName]) : scope.guarded;
+
+      statements(node.program, {
+        depth: section || CONTEXT_BLOCKS.has(name) ? scope.depth + 1 : scope.depth,
+        locals: new Set([...scope.locals, ...(node.program?.blockParams || [])]),
+        guarded
       });
-    }
-    
-    return Array.from(variables);
+      statements(node.inverse, { ...scope, guarded });
+    };
+
+    const statements = (program: any, scope: VariableScope) => {
+      program?.body.forEach((node: any) => {
+        if (node.type === 'MustacheStatement') {
+          call(node, scope, true);
+        } else if (node.type === 'BlockStatement') {
+          block(node, scope);
+        } else if (node.type === 'PartialStatement' || node.type === 'PartialBlockStatement') {
+          // The partial's name is not a variable, but the context and hash passed to it are
+          node.params.forEach((param: any) => expression(param, scope, true));
+          node.hash?.pairs.forEach((pair: any) => expression(pair.value, scope, true));
+          const name = node.name.type === 'PathExpression' ? node.name.original : undefined;
+          if (name && Object.prototype.hasOwnProperty.call(partials, name) && node.params.length === 0 && !including.has(name)) {
+            // Hash values are set on the context the partial sees
+            including.add(name);
+            statements(Handlebars.parse(partials[name]), {
+              ...scope,
+              locals: new Set([...scope.locals, ...(node.hash?.pairs.map((pair: any) => pair.key) || [])])
+            });
+            including.delete(name);
+          }
+          statements(node.program, scope);
+        }
+      });
+    };
+
+    statements(Handlebars.parse(source), { depth: 0, locals: new Set(), guarded: new Set() });
+    return references;
   }
 }
+
+// Error for a send that leaves required template variables unsupplied
+export function missingVariablesMessage(missing: string[], recipient?: string): string {
+  const names = missing.join(', ');
+  return recipient
+    ? `Nothing supplies the template variables ${names} for ${recipient}`
+    : `Nothing supplies the template variables ${names}; add them to the note's front matter`;
+}
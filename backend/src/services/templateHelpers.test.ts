@@ -0,0 +1,76 @@
+import Handlebars from "handlebars"
+import { registerTemplateHelpers, TEMPLATE_HELPER_DOCS, TEMPLATE_HELPER_NAMES } from "./templateHelpers"
+
+const render = (source: string, data: Record<string, unknown> = {}) => {
+  const handlebars = Handlebars.create()
+  registerTemplateHelpers(handlebars, { markdownToHtml: (markdown) => `<p>${markdown}</p>` })
+  return handlebars.compile(source)(data)
+}
+
+describe("template helpers", () => {
+  it("documents every helper it registers", () => {
+    expect(TEMPLATE_HELPER_DOCS.map((doc) => doc.name)).toEqual(TEMPLATE_HELPER_NAMES)
+    TEMPLATE_HELPER_DOCS.forEach((doc) => {
+      expect(doc.signature.startsWith(doc.name)).toBe(true)
+      expect(() => Handlebars.precompile(doc.example)).not.toThrow()
+    })
+  })
+
+  describe("formatDate", () => {
+    const date = "2024-03-05T14:30:00Z"
+
+    it("formats with a named format, timezone and locale", () => {
+      expect(render("{{formatDate d}}", { d: date })).toBe("Mar 5, 2024")
+      expect(render('{{formatDate d "iso"}}', { d: date })).toBe("2024-03-05T14:30:00.000Z")
+      expect(render('{{formatDate d "long" locale="de-DE"}}', { d: date })).toBe("5. März 2024")
+      expect(render('{{formatDate d "time" timezone="Asia/Tokyo"}}', { d: date })).toBe("11:30 PM")
+    })
+
+    it("renders missing or invalid dates as empty", () => {
+      expect(render("{{formatDate d}}")).toBe("")
+      expect(render("{{formatDate d}}", { d: "not a date" })).toBe("")
+    })
+
+    it("falls back to the defaults for an unknown timezone", () => {
+      expect(render('{{formatDate d "time" timezone="Mars/Olympus"}}', { d: date })).toBe("2:30 PM")
+    })
+  })
+
+  it("truncates text with a suffix", () => {
+    expect(render("{{truncate t 8}}", { t: "Hello there world" })).toBe("Hello...")
+    expect(render('{{truncate t 8 "…"}}', { t: "Hello there world" })).toBe("Hello t…")
+    expect(render("{{truncate t 50}}", { t: "Short" })).toBe("Short")
+  })
+
+  it("falls back to a default for missing or empty values", () => {
+    expect(render('Hi {{default name "there"}}', { name: "" })).toBe("Hi there")
+    expect(render('Hi {{default name "there"}}', { name: "Ann" })).toBe("Hi Ann")
+  })
+
+  it("pluralizes by count", () => {
+    expect(render('{{pluralize n "task"}}', { n: 1 })).toBe("task")
+    expect(render('{{pluralize n "task"}}', { n: "3" })).toBe("tasks")
+    expect(render('{{pluralize n "person" "people"}}', { n: 2 })).toBe("people")
+  })
+
+  it("changes case and joins lists", () => {
+    expect(render("{{upper s}} {{lower s}}", { s: "MiXed" })).toBe("MIXED mixed")
+    expect(render('{{join tags " / "}}', { tags: ["a", "b"] })).toBe("a / b")
+    expect(render("{{join tags}}", { tags: "single" })).toBe("single")
+  })
+
+  it("renders Markdown without escaping the HTML", () => {
+    expect(render("{{markdown s}}", { s: "text" })).toBe("<p>text</p>")
+  })
+
+  it("compares numeric strings as numbers", () => {
+    const check = (expression: string, data: Record<string, unknown>) =>
+      render(`{{#if ${expression}}}yes{{else}}no{{/if}}`, data)
+
+    expect(check("(gt n 9)", { n: "10" })).toBe("yes")
+    expect(check("(lt n 9)", { n: "10" })).toBe("no")
+    expect(check('(eq status "done")', { status: "done" })).toBe("yes")
+    expect(check("(ne a b)", { a: "1", b: 1 })).toBe("no")
+    expect(check("(gte n 3)", { n: 3 })).toBe("yes")
+  })
+})
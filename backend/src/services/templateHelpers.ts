@@ -0,0 +1,209 @@
+import Handlebars from "handlebars"
+import { TemplateHelperDoc } from "../types"
+
+const DEFAULT_LOCALE = "en-US"
+const DEFAULT_TIMEZONE = "UTC"
+const MAX_TRUNCATE_LENGTH = 10000
+
+const DATE_FORMATS: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { dateStyle: "short" },
+  medium: { dateStyle: "medium" },
+  long: { dateStyle: "long" },
+  full: { dateStyle: "full" },
+  time: { timeStyle: "short" },
+  datetime: { dateStyle: "medium", timeStyle: "short" },
+}
+
+// What a helper gets from the engine besides its arguments
+interface HelperContext {
+  markdownToHtml: (markdown: string) => string
+}
+
+interface TemplateHelper extends TemplateHelperDoc {
+  run: (args: unknown[], hash: Record<string, unknown>, context: HelperContext) => unknown
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === ""
+
+const text = (value: unknown) => (isBlank(value) ? "" : String(value))
+
+// Merge columns arrive as strings, so numeric-looking values compare as numbers
+const comparable = (value: unknown) => {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value
+  return typeof number === "number" && !Number.isNaN(number) ? number : text(value)
+}
+
+const compare = (test: (a: number | string, b: number | string) => boolean) =>
+  (args: unknown[]) => test(comparable(args[0]), comparable(args[1]))
+
+// A bad timezone or locale from a template falls back to the defaults rather than failing the send
+const dateFormatter = (locale: string, timeZone: string, options: Intl.DateTimeFormatOptions) => {
+  try {
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone })
+  } catch {
+    return new Intl.DateTimeFormat(DEFAULT_LOCALE, { ...options, timeZone: DEFAULT_TIMEZONE })
+  }
+}
+
+/**
+ * The helpers every template can use. They only transform the values passed
+ * to them: none reach outside the render, and bad input renders as an empty
+ * or unchanged value instead of throwing.
+ */
+const HELPERS: TemplateHelper[] = [
+  {
+    name: "formatDate",
+    category: "formatting",
+    signature: 'formatDate date [format] [timezone="UTC"] [locale="en-US"]',
+    description:
+      "Format a date. format is short, medium (default), long, full, time, datetime or iso.",
+    example: '{{formatDate note_created_at "long" timezone="Europe/Berlin" locale="de-DE"}}',
+    run: ([value, format], hash) => {
+      const date = value instanceof Date ? value : new Date(text(value))
+      if (isBlank(value) || Number.isNaN(date.getTime())) {
+        return ""
+      }
+      if (format === "iso") {
+        return date.toISOString()
+      }
+
+      const options = DATE_FORMATS[text(format)] || DATE_FORMATS.medium
+      return dateFormatter(
+        text(hash.locale) || DEFAULT_LOCALE,
+        text(hash.timezone) || DEFAULT_TIMEZONE,
+        options
+      ).format(date)
+    },
+  },
+  {
+    name: "truncate",
+    category: "text",
+    signature: 'truncate text length [suffix="..."]',
+    description: "Shorten text to at most length characters, ending with the suffix when cut.",
+    example: "{{truncate note_content 140}}",
+    run: ([value, length, suffix]) => {
+      const content = text(value)
+      const limit = Math.min(Math.max(Math.floor(Number(length)) || 0, 0), MAX_TRUNCATE_LENGTH)
+      const ending = typeof suffix === "string" ? suffix : "..."
+
+      if (content.length <= limit) {
+        return content
+      }
+      return content.slice(0, Math.max(limit - ending.length, 0)).trimEnd() + ending
+    },
+  },
+  {
+    name: "default",
+    category: "text",
+    signature: "default value fallback",
+    description: "The value, or the fallback when the value is missing or empty.",
+    example: '{{default first_name "there"}}',
+    run: ([value, fallback]) => (isBlank(value) ? fallback : value),
+  },
+  {
+    name: "pluralize",
+    category: "text",
+    signature: "pluralize count singular [plural]",
+    description: "The singular word when count is 1, otherwise the plural (singular + s by default).",
+    example: '{{open_tasks}} {{pluralize open_tasks "task"}}',
+    run: ([count, singular, plural]) =>
+      Number(count) === 1 ? text(singular) : typeof plural === "string" ? plural : `${text(singular)}s`,
+  },
+  {
+    name: "upper",
+    category: "text",
+    signature: "upper text",
+    description: "Text in upper case.",
+    example: "{{upper company}}",
+    run: ([value]) => text(value).toUpperCase(),
+  },
+  {
+    name: "lower",
+    category: "text",
+    signature: "lower text",
+    description: "Text in lower case.",
+    example: "{{lower email}}",
+    run: ([value]) => text(value).toLowerCase(),
+  },
+  {
+    name: "markdown",
+    category: "formatting",
+    signature: "markdown text",
+    description: "Render Markdown as sanitized HTML, e.g. a merge column written in Markdown.",
+    example: "{{markdown summary}}",
+    run: ([value], _hash, context) => new Handlebars.SafeString(context.markdownToHtml(text(value))),
+  },
+  {
+    name: "join",
+    category: "lists",
+    signature: 'join list [separator=", "]',
+    description: "Join the items of a list into one string.",
+    example: '{{join tags " / "}}',
+    run: ([list, separator]) =>
+      Array.isArray(list)
+        ? list.map(text).join(typeof separator === "string" ? separator : ", ")
+        : text(list),
+  },
+  {
+    name: "eq",
+    category: "logic",
+    signature: "eq a b",
+    description: "True when a equals b. Use inside {{#if}}.",
+    example: '{{#if (eq status "done")}}Finished{{/if}}',
+    run: compare((a, b) => a === b),
+  },
+  {
+    name: "ne",
+    category: "logic",
+    signature: "ne a b",
+    description: "True when a differs from b.",
+    example: '{{#if (ne plan "free")}}Thanks for subscribing{{/if}}',
+    run: compare((a, b) => a !== b),
+  },
+  {
+    name: "gt",
+    category: "logic",
+    signature: "gt a b",
+    description: "True when a is greater than b. Numbers compare as numbers.",
+    example: "{{#if (gt open_tasks 0)}}You have work left{{/if}}",
+    run: compare((a, b) => a > b),
+  },
+  {
+    name: "gte",
+    category: "logic",
+    signature: "gte a b",
+    description: "True when a is greater than or equal to b.",
+    example: "{{#if (gte score 90)}}Excellent{{/if}}",
+    run: compare((a, b) => a >= b),
+  },
+  {
+    name: "lt",
+    category: "logic",
+    signature: "lt a b",
+    description: "True when a is less than b.",
+    example: "{{#if (lt days_left 3)}}Due soon{{/if}}",
+    run: compare((a, b) => a < b),
+  },
+  {
+    name: "lte",
+    category: "logic",
+    signature: "lte a b",
+    description: "True when a is less than or equal to b.",
+    example: "{{#if (lte stock 0)}}Sold out{{/if}}",
+    run: compare((a, b) => a <= b),
+  },
+]
+
+export const TEMPLATE_HELPER_DOCS: TemplateHelperDoc[] = HELPERS.map(({ run, ...doc }) => doc)
+
+export const TEMPLATE_HELPER_NAMES = HELPERS.map((helper) => helper.name)
+
+export function registerTemplateHelpers(handlebars: typeof Handlebars, context: HelperContext): void {
+  HELPERS.forEach((helper) => {
+    // Handlebars passes its options object after the template's arguments
+    handlebars.registerHelper(helper.name, (...params: any[]) => {
+      const options: Handlebars.HelperOptions = params.pop()
+      return helper.run(params, options.hash || {}, context)
+    })
+  })
+}
@@ -0,0 +1,251 @@
+import pool from "../database/connection"
+import {
+  TemplatePartial,
+  TemplatePartialKind,
+  TemplatePartialVersion,
+  TemplateParts,
+} from "../types"
+import { TemplateEngine } from "./templateEngine"
+
+export const PARTIAL_KINDS: TemplatePartialKind[] = ["partial", "layout"]
+const NAME_PATTERN = /^[a-zA-Z][\w-]{0,99}$/
+const LAYOUT_BODY = /\{\{\{\s*body\s*\}\}\}/
+
+/**
+ * Handlebars partials and layouts a user shares across templates. They are
+ * resolved at render time, so editing one changes every template using it
+ * from the next send on. Deleted ones are only marked deleted, so emails
+ * sent with them can still be rendered as sent.
+ */
+export class TemplatePartialService {
+  constructor(private templateEngine: TemplateEngine = new TemplateEngine()) {}
+
+  public async list(userId: string, kind?: TemplatePartialKind): Promise<TemplatePartial[]> {
+    const result = await pool.query(
+      "SELECT * FROM template_partials WHERE user_id = $1 AND deleted_at IS NULL AND ($2::text IS NULL OR kind = $2) ORDER BY kind, name",
+      [userId, kind || null]
+    )
+    return result.rows
+  }
+
+  public async find(userId: string, id: string): Promise<TemplatePartial | null> {
+    const result = await pool.query(
+      "SELECT * FROM template_partials WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL",
+      [id, userId]
+    )
+    return result.rows[0] || null
+  }
+
+  /**
+   * Check a partial or layout before saving it. Returns an error message, or
+   * null when it can be saved.
+   */
+  public async validate(
+    userId: string,
+    input: { name: string; kind: TemplatePartialKind; content: string }
+  ): Promise<string | null> {
+    if (!NAME_PATTERN.test(input.name || "")) {
+      return "Name must start with a letter and contain only letters, digits, - and _"
+    }
+    if (!PARTIAL_KINDS.includes(input.kind)) {
+      return `kind must be one of ${PARTIAL_KINDS.join(", ")}`
+    }
+    if (!input.content?.trim()) {
+      return "Content is required"
+    }
+    if (input.kind === "layout" && !LAYOUT_BODY.test(input.content)) {
+      return "A layout must place the template body with {{{body}}}"
+    }
+    try {
+      this.templateEngine.checkHelpers(input.content)
+    } catch (error) {
+      return `Template syntax error: ${error instanceof Error ? error.message : "Unknown error"}`
+    }
+
+    // Only partials can be included, so only they can form a cycle
+    return this.checkReferences(userId, [input.content], input.kind === "partial" ? input.name : undefined)
+  }
+
+  /**
+   * Check that template sources only include partials the user has, and
+   * that saving `savingName` with these sources creates no include cycle.
+   * Returns an error message, or null when they are fine.
+   */
+  public async checkReferences(
+    userId: string,
+    sources: string[],
+    savingName?: string
+  ): Promise<string | null> {
+    let references: string[]
+    try {
+      references = sources.flatMap((source) => this.templateEngine.referencedPartials(source))
+    } catch (error) {
+      return `Template syntax error: ${error instanceof Error ? error.message : "Unknown error"}`
+    }
+
+    const partials = await this.list(userId, "partial")
+    const includes = new Map(
+      partials.map((partial) => [partial.name, this.safeReferences(partial.content)])
+    )
+    if (savingName) {
+      includes.set(savingName, references)
+    }
+
+    const unknown = references.filter((name) => !includes.has(name))
+    if (unknown.length > 0) {
+      return `Unknown partial: ${Array.from(new Set(unknown)).join(", ")}`
+    }
+
+    // A partial that ends up including itself would recurse forever at render time
+    if (savingName) {
+      const seen = new Set<string>()
+      const pending = [...references]
+      while (pending.length > 0) {
+        const name = pending.pop()!
+        if (name === savingName) {
+          return `Partial "${savingName}" would include itself`
+        }
+        if (!seen.has(name)) {
+          seen.add(name)
+          pending.push(...(includes.get(name) || []))
+        }
+      }
+    }
+
+    return null
+  }
+
+  public async create(
+    userId: string,
+    input: { name: string; kind: TemplatePartialKind; content: string }
+  ): Promise<TemplatePartial> {
+    const result = await pool.query(
+      "INSERT INTO template_partials (user_id, name, kind, content) VALUES ($1, $2, $3, $4) RETURNING *",
+      [userId, input.name, input.kind, input.content]
+    )
+    return result.rows[0]
+  }
+
+  // Only the content can change: templates include partials by name
+  public async update(userId: string, id: string, content: string): Promise<TemplatePartial | null> {
+    const result = await pool.query(
+      "UPDATE template_partials SET content = $3 WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL RETURNING *",
+      [id, userId, content]
+    )
+    return result.rows[0] || null
+  }
+
+  // The current content is archived first, as marking the row deleted moves
+  // updated_at, which partsFor reads as the time that content was saved
+  public async remove(userId: string, id: string): Promise<boolean> {
+    const result = await pool.query(
+      `WITH archived AS (
+         INSERT INTO template_partial_versions (partial_id, version, content, created_at)
+         SELECT id, version, content, updated_at FROM template_partials
+         WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL
+         RETURNING partial_id
+       )
+       UPDATE template_partials SET deleted_at = CURRENT_TIMESTAMP
+       WHERE id IN (SELECT partial_id FROM archived) RETURNING id`,
+      [id, userId]
+    )
+    return result.rows.length > 0
+  }
+
+  // Names of the templates and partials that would break without this one
+  public async usages(userId: string, partial: TemplatePartial): Promise<string[]> {
+    if (partial.kind === "layout") {
+      const result = await pool.query(
+        "SELECT name FROM email_templates WHERE user_id = $1 AND layout_id = $2 AND is_active = true ORDER BY name",
+        [userId, partial.id]
+      )
+      return result.rows.map((row) => row.name)
+    }
+
+    const [templates, partials] = await Promise.all([
+      pool.query(
+        "SELECT name, subject, body FROM email_templates WHERE user_id = $1 AND is_active = true ORDER BY name",
+        [userId]
+      ),
+      this.list(userId),
+    ])
+
+    return [
+      ...templates.rows
+        .filter((template) => this.safeReferences(template.subject, template.body).includes(partial.name))
+        .map((template) => template.name),
+      ...partials
+        .filter((other) => other.id !== partial.id && this.safeReferences(other.content).includes(partial.name))
+        .map((other) => other.name),
+    ]
+  }
+
+  // Newest first, with the current content as the first entry
+  public async versions(userId: string, id: string): Promise<TemplatePartialVersion[] | null> {
+    const partial = await this.find(userId, id)
+    if (!partial) {
+      return null
+    }
+
+    const result = await pool.query(
+      "SELECT * FROM template_partial_versions WHERE partial_id = $1 ORDER BY version DESC",
+      [id]
+    )
+    return [
+      {
+        id: partial.id,
+        partial_id: partial.id,
+        version: partial.version,
+        content: partial.content,
+        created_at: partial.updated_at,
+      },
+      ...result.rows,
+    ]
+  }
+
+  /**
+   * Everything a template of this user needs to render, with its layout if
+   * any. With `at`, each partial has the content it had then: its current
+   * content if unchanged since, else the last version saved before, else
+   * its first version; partials created after `at` are left out and ones
+   * deleted since are still there. The layout is found by id even once
+   * deleted.
+   */
+  public async partsFor(userId: string, layoutId?: string | null, at?: Date): Promise<TemplateParts> {
+    const result = await pool.query(
+      `SELECT p.name, p.kind,
+              CASE WHEN $3::timestamp IS NULL OR p.updated_at <= $3 THEN p.content
+                   ELSE COALESCE(
+                     (SELECT v.content FROM template_partial_versions v
+                      WHERE v.partial_id = p.id AND v.created_at <= $3 ORDER BY v.version DESC LIMIT 1),
+                     (SELECT v.content FROM template_partial_versions v
+                      WHERE v.partial_id = p.id ORDER BY v.version LIMIT 1),
+                     p.content)
+              END AS content
+       FROM template_partials p
+       WHERE p.user_id = $1
+         AND (p.id = $2::uuid
+              OR p.kind = 'partial' AND CASE WHEN $3::timestamp IS NULL THEN p.deleted_at IS NULL
+                                             ELSE p.created_at <= $3 AND (p.deleted_at IS NULL OR p.deleted_at > $3)
+                                        END)`,
+      [userId, layoutId || null, at || null]
+    )
+    const rows: Pick<TemplatePartial, "name" | "kind" | "content">[] = result.rows
+
+    return {
+      partials: Object.fromEntries(
+        rows.filter((row) => row.kind === "partial").map((row) => [row.name, row.content])
+      ),
+      layout: rows.find((row) => row.kind === "layout")?.content,
+    }
+  }
+
+  // References of stored sources, which were validated when saved
+  private safeReferences(...sources: string[]): string[] {
+    try {
+      return sources.flatMap((source) => this.templateEngine.referencedPartials(source))
+    } catch {
+      return []
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import pool from "../database/connection"
+import { EmailTemplate, EmailTemplateVersion } from "../types"
+
+// Archived versions plus the template's own content as the current one
+const VERSIONS_QUERY = `
+  SELECT * FROM (
+    SELECT v.id, v.template_id, v.version, v.subject, v.body, v.variables, v.created_at, false AS is_current
+    FROM email_template_versions v
+    WHERE v.template_id = $1
+    UNION ALL
+    SELECT t.id, t.id, t.version, t.subject, t.body, t.variables, t.updated_at, true
+    FROM email_templates t
+    WHERE t.id = $1
+  ) versions`
+
+/**
+ * History of a template's subject and body. The update trigger
+ * (`create_template_version`) archives the previous content whenever either
+ * changes, so every version but the current one lives in
+ * `email_template_versions`.
+ */
+export class TemplateVersionService {
+  // Newest first, or null when the user has no such template
+  public async list(userId: string, templateId: string): Promise<EmailTemplateVersion[] | null> {
+    if (!(await this.owns(userId, templateId))) {
+      return null
+    }
+
+    const result = await pool.query(`${VERSIONS_QUERY} ORDER BY version DESC`, [templateId])
+    return result.rows
+  }
+
+  /**
+   * One version of a template. With includeDeleted, versions of deleted
+   * templates are found too, since emails sent with them are still listed.
+   */
+  public async find(
+    userId: string,
+    templateId: string,
+    version: number,
+    includeDeleted = false
+  ): Promise<EmailTemplateVersion | null> {
+    if (!(await this.owns(userId, templateId, includeDeleted))) {
+      return null
+    }
+
+    const result = await pool.query(`${VERSIONS_QUERY} WHERE version = $2`, [templateId, version])
+    return result.rows[0] || null
+  }
+
+  /**
+   * Bring back the subject and body of an old version. The trigger archives
+   * the current content, so the rollback becomes a new version rather than
+   * rewriting history. Returns null when the template or version is missing.
+   */
+  public async rollback(
+    userId: string,
+    templateId: string,
+    version: number
+  ): Promise<EmailTemplate | null> {
+    const target = await this.find(userId, templateId, version)
+    if (!target) {
+      return null
+    }
+
+    const result = await pool.query(
+      `UPDATE email_templates
+       SET subject = $3, body = $4, variables = $5, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND is_active = true
+       RETURNING *`,
+      [templateId, userId, target.subject, target.body, JSON.stringify(target.variables)]
+    )
+    return result.rows[0] || null
+  }
+
+  private async owns(userId: string, templateId: string, includeDeleted = false): Promise<boolean> {
+    const result = await pool.query(
+      "SELECT 1 FROM email_templates WHERE id = $1 AND user_id = $2 AND (is_active = true OR $3)",
+      [templateId, userId, includeDeleted]
+    )
+    return result.rows.length > 0
+  }
+}
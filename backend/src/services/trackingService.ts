@@ -0,0 +1,63 @@
+import { JSDOM } from "jsdom"
+import { PUBLIC_API_URL, signLink, verifyLinkSignature } from "./signedLinks"
+
+const TRACKED_PROTOCOLS = new Set(["http:", "https:"])
+
+export class TrackingService {
+  /**
+   * Route the links of rendered HTML through the click redirect and append
+   * an open pixel. Only http(s) links are rewritten, and never the
+   * unsubscribe link, so mailto:, anchors and opt-outs are left alone.
+   */
+  public instrument(sentEmailId: string, html: string): string {
+    const dom = new JSDOM(`<body>${html}</body>`)
+    const document = dom.window.document
+
+    document.querySelectorAll("a[href]").forEach((link) => {
+      const href = link.getAttribute("href") || ""
+      if (this.isTrackable(href)) {
+        link.setAttribute("href", this.clickUrl(sentEmailId, href))
+      }
+    })
+
+    const pixel = document.createElement("img")
+    pixel.setAttribute("src", this.openPixelUrl(sentEmailId))
+    pixel.setAttribute("width", "1")
+    pixel.setAttribute("height", "1")
+    pixel.setAttribute("alt", "")
+    pixel.setAttribute("style", "display:block;width:1px;height:1px;border:0")
+    document.body.appendChild(pixel)
+
+    return document.body.innerHTML
+  }
+
+  public openPixelUrl(sentEmailId: string): string {
+    return `${PUBLIC_API_URL}/track/open/${sentEmailId}/${signLink(`open:${sentEmailId}`)}`
+  }
+
+  public clickUrl(sentEmailId: string, url: string): string {
+    const signature = signLink(`click:${sentEmailId}:${url}`)
+    return `${PUBLIC_API_URL}/track/click/${sentEmailId}/${signature}?url=${encodeURIComponent(url)}`
+  }
+
+  public verifyOpen(sentEmailId: string, signature: string): boolean {
+    return verifyLinkSignature(`open:${sentEmailId}`, signature)
+  }
+
+  // The target is part of the signature, so the redirect cannot be pointed elsewhere
+  public verifyClick(sentEmailId: string, url: string, signature: string): boolean {
+    return verifyLinkSignature(`click:${sentEmailId}:${url}`, signature)
+  }
+
+  private isTrackable(href: string): boolean {
+    try {
+      const url = new URL(href)
+      return (
+        TRACKED_PROTOCOLS.has(url.protocol) &&
+        !href.startsWith(`${PUBLIC_API_URL}/unsubscribe/`)
+      )
+    } catch {
+      return false
+    }
+  }
+}
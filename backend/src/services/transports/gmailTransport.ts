@@ -0,0 +1,27 @@
+import { User, ConnectedAccount, OutgoingEmail, EmailSendResult } from "../../types"
+import { EmailService } from "../emailService"
+import { MailTransport } from "./mailTransport"
+
+/**
+ * Sends through a connected Gmail account using its OAuth2 tokens
+ */
+export class GmailTransport implements MailTransport {
+  public readonly name = "gmail"
+
+  constructor(private emailService: EmailService = new EmailService()) {}
+
+  public isAvailable(user: User, account?: ConnectedAccount): boolean {
+    return !!(
+      account?.provider === "gmail" &&
+      (account.access_token || account.refresh_token)
+    )
+  }
+
+  public send(
+    user: User,
+    message: OutgoingEmail,
+    account?: ConnectedAccount
+  ): Promise<EmailSendResult> {
+    return this.emailService.sendEmail(account!, message)
+  }
+}
@@ -0,0 +1,19 @@
+import { MailTransportRegistry } from "./mailTransport"
+import { GmailTransport } from "./gmailTransport"
+import { NylasTransport } from "./nylasTransport"
+import { SmtpTransport } from "./smtpTransport"
+import { OutboxTransport } from "./outboxTransport"
+
+export type { MailTransport } from "./mailTransport"
+export { MailTransportRegistry } from "./mailTransport"
+
+// Nylas is preferred over Gmail; the outbox sink is never picked implicitly
+export const mailTransports = new MailTransportRegistry([
+  "nylas",
+  "gmail",
+  "smtp",
+])
+  .register(new NylasTransport())
+  .register(new GmailTransport())
+  .register(new SmtpTransport())
+  .register(new OutboxTransport())
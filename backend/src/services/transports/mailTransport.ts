@@ -0,0 +1,81 @@
+import { User, ConnectedAccount, OutgoingEmail, EmailSendResult } from "../../types"
+
+/**
+ * A provider capable of delivering an outgoing email on behalf of a user.
+ * Providers that send as the user do so from one of their connected
+ * accounts, passed as `account`.
+ */
+export interface MailTransport {
+  readonly name: string
+
+  /**
+   * Whether this transport has what it needs to send for the given user
+   * from the given account
+   */
+  isAvailable(user: User, account?: ConnectedAccount): boolean
+
+  send(
+    user: User,
+    message: OutgoingEmail,
+    account?: ConnectedAccount
+  ): Promise<EmailSendResult>
+}
+
+export class MailTransportRegistry {
+  private transports = new Map<string, MailTransport>()
+
+  /**
+   * @param resolutionOrder transport names tried in order when no transport is requested
+   */
+  constructor(private resolutionOrder: string[] = []) {}
+
+  public register(transport: MailTransport): this {
+    this.transports.set(transport.name, transport)
+    return this
+  }
+
+  public get(name: string): MailTransport | undefined {
+    return this.transports.get(name)
+  }
+
+  public list(): string[] {
+    return Array.from(this.transports.keys())
+  }
+
+  /**
+   * Pick the transport used to send for a user.
+   *
+   * An explicitly requested transport wins, then the MAIL_TRANSPORT override,
+   * then the first transport in resolution order that can send from the
+   * account (the provider of the account, when one is given).
+   */
+  public resolve(
+    user: User,
+    requested?: string,
+    account?: ConnectedAccount
+  ): MailTransport {
+    const forced = requested || process.env.MAIL_TRANSPORT
+
+    if (forced) {
+      const transport = this.transports.get(forced)
+      if (!transport) {
+        throw new Error(`Unknown mail transport: ${forced}`)
+      }
+      if (!transport.isAvailable(user, account)) {
+        throw new Error(`Mail transport "${forced}" is not configured`)
+      }
+      return transport
+    }
+
+    for (const name of this.resolutionOrder) {
+      const transport = this.transports.get(name)
+      if (transport && transport.isAvailable(user, account)) {
+        return transport
+      }
+    }
+
+    throw new Error(
+      "No email service configured. Please connect a Nylas or Gmail account."
+    )
+  }
+}
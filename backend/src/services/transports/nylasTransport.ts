@@ -0,0 +1,27 @@
+import { User, ConnectedAccount, OutgoingEmail, EmailSendResult } from "../../types"
+import { NylasEmailService } from "../nylasEmailService"
+import { nylasGrant } from "../connectedAccountService"
+import { MailTransport } from "./mailTransport"
+
+/**
+ * Sends through the Nylas grant of a connected account
+ */
+export class NylasTransport implements MailTransport {
+  public readonly name = "nylas"
+
+  constructor(
+    private nylasService: NylasEmailService = new NylasEmailService()
+  ) {}
+
+  public isAvailable(user: User, account?: ConnectedAccount): boolean {
+    return !!(account?.provider === "nylas" && account.access_token)
+  }
+
+  public send(
+    user: User,
+    message: OutgoingEmail,
+    account?: ConnectedAccount
+  ): Promise<EmailSendResult> {
+    return this.nylasService.sendEmail(nylasGrant(account!), message)
+  }
+}
@@ -0,0 +1,61 @@
+import fs from "fs/promises"
+import path from "path"
+import nodemailer from "nodemailer"
+import { v4 as uuidv4 } from "uuid"
+import { User, ConnectedAccount, OutgoingEmail, EmailSendResult } from "../../types"
+import { buildMailOptions } from "../mailMessage"
+import { classifySendError } from "../deliveryErrors"
+import { MailTransport } from "./mailTransport"
+
+/**
+ * Local sink that writes each message as an .eml file instead of delivering it.
+ * Only used when requested explicitly or via MAIL_TRANSPORT=outbox.
+ */
+export class OutboxTransport implements MailTransport {
+  public readonly name = "outbox"
+
+  private transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  })
+
+  public isAvailable(user: User): boolean {
+    return true
+  }
+
+  public async send(
+    user: User,
+    message: OutgoingEmail,
+    account?: ConnectedAccount
+  ): Promise<EmailSendResult> {
+    try {
+      const outboxDir = process.env.OUTBOX_DIR || "./outbox"
+      const messageId = `<${uuidv4()}@outbox.local>`
+
+      const result = await this.transporter.sendMail({
+        ...buildMailOptions(account?.email || user.email, message),
+        messageId,
+      })
+
+      await fs.mkdir(outboxDir, { recursive: true })
+      await fs.writeFile(
+        path.join(outboxDir, `${Date.now()}-${uuidv4()}.eml`),
+        result.message as Buffer
+      )
+
+      return {
+        messageId,
+        success: true,
+      }
+    } catch (error) {
+      console.error("Outbox write error:", error)
+      return {
+        messageId: "",
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorClass: classifySendError(error),
+      }
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import nodemailer from "nodemailer"
+import SMTPTransport from "nodemailer/lib/smtp-transport"
+import { User, OutgoingEmail, EmailSendResult, SmtpSender } from "../../types"
+import { buildMailOptions } from "../mailMessage"
+import { classifySendError, rejectedRecipients } from "../deliveryErrors"
+import { MailTransport } from "./mailTransport"
+
+/**
+ * nodemailer options for a sender identity's SMTP server. `tls` connects
+ * over TLS from the start, `starttls` insists on upgrading, and `none` never
+ * upgrades (local test servers such as MailHog).
+ */
+export function smtpSenderOptions(sender: SmtpSender): SMTPTransport.Options {
+  return {
+    host: sender.host,
+    port: sender.port,
+    secure: sender.tlsMode === "tls",
+    requireTLS: sender.tlsMode === "starttls",
+    ignoreTLS: sender.tlsMode === "none",
+    auth: sender.username
+      ? { user: sender.username, pass: sender.password }
+      : undefined,
+  }
+}
+
+/**
+ * Sends through a generic SMTP relay configured with SMTP_* environment
+ * variables, or through the user's own SMTP server when the message carries
+ * a sender identity
+ */
+export class SmtpTransport implements MailTransport {
+  public readonly name = "smtp"
+
+  private transporter?: nodemailer.Transporter
+
+  public isAvailable(user: User): boolean {
+    return !!process.env.SMTP_HOST
+  }
+
+  public async send(
+    user: User,
+    message: OutgoingEmail
+  ): Promise<EmailSendResult> {
+    try {
+      const from = message.sender?.from || process.env.SMTP_FROM || user.email
+      // Identities are used rarely enough that a connection per message is fine
+      const transporter = message.sender
+        ? nodemailer.createTransport(smtpSenderOptions(message.sender))
+        : this.getTransporter()
+      const result = await transporter.sendMail(buildMailOptions(from, message))
+
+      return {
+        messageId: result.messageId,
+        success: true,
+        rejected: rejectedRecipients(result),
+      }
+    } catch (error) {
+      console.error("SMTP sending error:", error)
+      return {
+        messageId: "",
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorClass: classifySendError(error),
+      }
+    }
+  }
+
+  private getTransporter(): nodemailer.Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || "587"),
+        secure: process.env.SMTP_SECURE === "true",
+        auth: process.env.SMTP_USER
+          ? {
+              user: process.env.SMTP_USER,
+              pass: process.env.SMTP_PASSWORD,
+            }
+          : undefined,
+      })
+    }
+
+    return this.transporter
+  }
+}
@@ -0,0 +1,58 @@
+import { parseVCards } from "./vcardParser"
+
+describe("parseVCards", () => {
+  it("reads name, email and company from each card", () => {
+    const text = [
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      "N:Lovelace;Ada;;;",
+      "FN:Ada Lovelace",
+      "EMAIL;TYPE=work:ada@example.com",
+      "ORG:Analytical Engines;Research",
+      "END:VCARD",
+      "BEGIN:VCARD",
+      "VERSION:4.0",
+      "item1.EMAIL:mailto:grace@example.com",
+      "FN:Grace Brewster Hopper",
+      "END:VCARD",
+    ].join("\r\n")
+
+    expect(parseVCards(text)).toEqual([
+      { email: "ada@example.com", first_name: "Ada", last_name: "Lovelace", company: "Analytical Engines" },
+      { email: "grace@example.com", first_name: "Grace", last_name: "Brewster Hopper" },
+    ])
+  })
+
+  it("keeps the first email and skips cards without one", () => {
+    const text = [
+      "BEGIN:VCARD",
+      "EMAIL:first@example.com",
+      "EMAIL:second@example.com",
+      "END:VCARD",
+      "BEGIN:VCARD",
+      "FN:No Email",
+      "END:VCARD",
+    ].join("\n")
+
+    expect(parseVCards(text)).toEqual([{ email: "first@example.com" }])
+  })
+
+  it("unfolds continued lines and unescapes values", () => {
+    const text = [
+      "BEGIN:VCARD",
+      "EMAIL:long.address@exa",
+      " mple.com",
+      "N:O\\;Brien;Pat",
+      "ORG:Smith\\, Jones & Co",
+      "END:VCARD",
+    ].join("\n")
+
+    expect(parseVCards(text)).toEqual([
+      { email: "long.address@example.com", first_name: "Pat", last_name: "O;Brien", company: "Smith, Jones & Co" },
+    ])
+  })
+
+  it("returns nothing for text without cards", () => {
+    expect(parseVCards("EMAIL:stray@example.com\n")).toEqual([])
+  })
+})
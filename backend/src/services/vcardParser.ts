@@ -0,0 +1,74 @@
+import { ContactInput } from "../types"
+
+/**
+ * Parse one or more vCards (2.1, 3.0 or 4.0). Only the properties that map
+ * onto contact fields are read; cards without an email are skipped.
+ */
+export function parseVCards(text: string): ContactInput[] {
+  // Folded lines continue with a leading space or tab
+  const lines = text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n")
+
+  const contacts: ContactInput[] = []
+  let card: ContactInput | null = null
+  let fullName = ""
+
+  for (const line of lines) {
+    const separator = line.indexOf(":")
+    if (separator === -1) {
+      continue
+    }
+
+    // "item1.EMAIL;TYPE=work" -> "EMAIL"
+    const name = line
+      .slice(0, separator)
+      .split(";")[0]
+      .replace(/^.*\./, "")
+      .toUpperCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (name === "BEGIN" && value.toUpperCase() === "VCARD") {
+      card = { email: "" }
+      fullName = ""
+      continue
+    }
+
+    if (!card) {
+      continue
+    }
+
+    if (name === "END") {
+      if (card.email) {
+        if (!card.first_name && !card.last_name && fullName) {
+          const [first, ...rest] = fullName.split(/\s+/)
+          card.first_name = first
+          card.last_name = rest.join(" ") || undefined
+        }
+        contacts.push(card)
+      }
+      card = null
+    } else if (name === "EMAIL" && !card.email) {
+      card.email = unescape(value).replace(/^mailto:/i, "")
+    } else if (name === "N") {
+      const [last, first] = splitComponents(value)
+      card.first_name = first || undefined
+      card.last_name = last || undefined
+    } else if (name === "FN") {
+      fullName = unescape(value)
+    } else if (name === "ORG") {
+      card.company = splitComponents(value)[0] || undefined
+    }
+  }
+
+  return contacts
+}
+
+// Split a structured value on unescaped semicolons
+function splitComponents(value: string): string[] {
+  return value.split(/(?<!\\);/).map((component) => unescape(component).trim())
+}
+
+function unescape(value: string): string {
+  return value
+    .replace(/\\n/gi, "\n")
+    .replace(/\\([,;\\])/g, "$1")
+}
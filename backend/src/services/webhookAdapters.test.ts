@@ -0,0 +1,82 @@
+import crypto from "crypto"
+import { parseGenericEvents, parseNylasEvent, verifyWebhookSignature } from "./webhookAdapters"
+
+const SECRET = "webhook-secret"
+
+const sign = (body: Buffer, secret = SECRET) =>
+  crypto.createHmac("sha256", secret).update(body).digest("hex")
+
+describe("verifyWebhookSignature", () => {
+  const body = Buffer.from('{"type":"delivered","message_id":"m1"}')
+
+  it("accepts the hex HMAC of the raw body", () => {
+    expect(verifyWebhookSignature(body, sign(body), SECRET)).toBe(true)
+    expect(verifyWebhookSignature(body, ` ${sign(body).toUpperCase()} `, SECRET)).toBe(true)
+  })
+
+  it("rejects a signature made with another secret or over another body", () => {
+    expect(verifyWebhookSignature(body, sign(body, "other-secret"), SECRET)).toBe(false)
+    expect(verifyWebhookSignature(body, sign(Buffer.from("{}")), SECRET)).toBe(false)
+    expect(verifyWebhookSignature(body, sign(body).slice(0, 32), SECRET)).toBe(false)
+  })
+
+  it("rejects everything when the body, signature or secret is missing", () => {
+    expect(verifyWebhookSignature(undefined, sign(body), SECRET)).toBe(false)
+    expect(verifyWebhookSignature(body, undefined, SECRET)).toBe(false)
+    expect(verifyWebhookSignature(body, sign(body, ""), "")).toBe(false)
+  })
+})
+
+describe("parseNylasEvent", () => {
+  it("maps send success to a delivered event", () => {
+    const [event] = parseNylasEvent({
+      id: "evt1",
+      type: "message.send_success",
+      time: 1700000000,
+      data: { object: { id: "msg1" } },
+    })
+
+    expect(event).toMatchObject({ providerEventId: "evt1", type: "delivered", messageId: "msg1" })
+    expect(event.occurredAt).toEqual(new Date(1700000000 * 1000))
+  })
+
+  it("maps bounces by their SMTP code", () => {
+    const bounce = (code: number) =>
+      parseNylasEvent({
+        id: "evt2",
+        type: "message.bounce_detected",
+        data: { object: { origin: { id: "msg1" }, bounced_address: "a@example.com", code } },
+      })[0]
+
+    expect(bounce(550)).toMatchObject({ type: "bounced", recipient: "a@example.com", bounceType: "hard" })
+    expect(bounce(452).bounceType).toBe("soft")
+  })
+
+  it("ignores other notifications", () => {
+    expect(parseNylasEvent({ type: "message.opened", data: { object: { id: "msg1" } } })).toEqual([])
+  })
+})
+
+describe("parseGenericEvents", () => {
+  it("reads a single event or a list of events", () => {
+    expect(parseGenericEvents({ type: "delivered", message_id: "m1" })).toHaveLength(1)
+    expect(
+      parseGenericEvents({
+        events: [
+          { type: "bounced", message_id: "m1" },
+          { type: "bounced", message_id: "m2", bounce_type: "soft" },
+        ],
+      }).map((event) => event.bounceType)
+    ).toEqual(["hard", "soft"])
+  })
+
+  it("rejects events it cannot store", () => {
+    expect(() => parseGenericEvents({ type: "opened", message_id: "m1" })).toThrow("Event 1: type")
+    expect(() => parseGenericEvents({ events: [{ type: "delivered" }] })).toThrow(
+      "Event 1: message_id is required"
+    )
+    expect(() => parseGenericEvents({ type: "bounced", message_id: "m1", bounce_type: "odd" })).toThrow(
+      "bounce_type must be hard or soft"
+    )
+  })
+})
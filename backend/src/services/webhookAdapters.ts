@@ -0,0 +1,109 @@
+import crypto from "crypto"
+import { EmailEventType, InboundEmailEvent } from "../types"
+
+const EVENT_TYPES: EmailEventType[] = ["delivered", "deferred", "bounced", "complained"]
+
+/**
+ * Check a hex HMAC-SHA256 signature of the raw request body
+ */
+export function verifyWebhookSignature(
+  rawBody: Buffer | undefined,
+  signature: string | undefined,
+  secret: string | undefined
+): boolean {
+  if (!rawBody || !signature || !secret) {
+    return false
+  }
+
+  const expected = Buffer.from(
+    crypto.createHmac("sha256", secret).update(rawBody).digest("hex")
+  )
+  const actual = Buffer.from(signature.trim().toLowerCase())
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+const toDate = (value: unknown): Date => {
+  if (typeof value === "number") {
+    // Nylas timestamps are in seconds
+    return new Date(value < 1e12 ? value * 1000 : value)
+  }
+  const date = typeof value === "string" ? new Date(value) : new Date(NaN)
+  return isNaN(date.getTime()) ? new Date() : date
+}
+
+/**
+ * Translate a Nylas v3 webhook notification. Only message events that say
+ * something about delivery are kept; everything else maps to no events.
+ */
+export function parseNylasEvent(body: any): InboundEmailEvent[] {
+  const object = body?.data?.object || {}
+
+  switch (body?.type) {
+    case "message.send_success":
+      return object.id
+        ? [
+            {
+              providerEventId: body.id,
+              type: "delivered",
+              messageId: object.id,
+              occurredAt: toDate(body.time),
+              payload: body,
+            },
+          ]
+        : []
+    case "message.bounce_detected": {
+      const messageId = object.origin?.id || object.message_id
+      const code = Number(object.code)
+      return messageId
+        ? [
+            {
+              providerEventId: body.id,
+              type: "bounced",
+              messageId,
+              recipient: object.bounced_address,
+              // 4xx replies are temporary; everything else is treated as permanent
+              bounceType: code >= 400 && code < 500 ? "soft" : "hard",
+              description: object.bounce_reason || object.type,
+              occurredAt: toDate(object.bounce_date ?? body.time),
+              payload: body,
+            },
+          ]
+        : []
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Parse the generic webhook format, for relays that are not supported
+ * natively. The body is one event or `{ events: [...] }`, each with `type`,
+ * `message_id` and optional `id`, `recipient`, `bounce_type`, `description`
+ * and `occurred_at`.
+ */
+export function parseGenericEvents(body: any): InboundEmailEvent[] {
+  const events: any[] = Array.isArray(body?.events) ? body.events : [body]
+
+  return events.map((event, index) => {
+    if (!event || !EVENT_TYPES.includes(event.type)) {
+      throw new Error(`Event ${index + 1}: type must be one of ${EVENT_TYPES.join(", ")}`)
+    }
+    if (!event.message_id || typeof event.message_id !== "string") {
+      throw new Error(`Event ${index + 1}: message_id is required`)
+    }
+    if (event.bounce_type && event.bounce_type !== "hard" && event.bounce_type !== "soft") {
+      throw new Error(`Event ${index + 1}: bounce_type must be hard or soft`)
+    }
+
+    return {
+      providerEventId: event.id ? String(event.id) : undefined,
+      type: event.type,
+      messageId: event.message_id,
+      recipient: event.recipient,
+      bounceType: event.type === "bounced" ? event.bounce_type || "hard" : undefined,
+      description: event.description,
+      occurredAt: toDate(event.occurred_at),
+      payload: event,
+    }
+  })
+}
@@ -4,12 +4,24 @@ export interface User {
   id: string;
   email: string;
   name: string;
-  gmail_refresh_token?: string;
-  gmail_access_token?: string;
-  gmail_token_expires_at?: Date;
-  nylas_access_token?: string;
-  nylas_account_id?: string;
-  has_nylas_auth?: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type AccountProvider = 'gmail' | 'nylas';
+
+// A mailbox the user connected to send from
+export interface ConnectedAccount {
+  id: string;
+  user_id: string;
+  provider: AccountProvider;
+  email: string;
+  access_token?: string; // Gmail access token, or the Nylas grant ID
+  refresh_token?: string; // Gmail only
+  token_expires_at?: Date;
+  is_default: boolean;
+  replies_synced_at?: Date; // Nylas only
+  replies_sync_before?: Date; // Nylas only, while a sync is unfinished
   created_at: Date;
   updated_at: Date;
 }
@@ -18,11 +30,33 @@ export interface Note {
   id: string;
   user_id: string;
   title: string;
-  content: string; // Markdown
+  content: string; // Markdown, optionally starting with a YAML front matter block
+  source?: NoteSource;
   created_at: Date;
   updated_at: Date;
 }
 
+// Where a note saved from a received email came from
+export interface NoteSource {
+  provider: string;
+  message_id: string;
+  from?: { name?: string; email: string };
+  subject?: string;
+  date?: string;
+}
+
+export interface FrontMatterError {
+  message: string;
+  line?: number; // In the note, where the opening --- is line 1
+}
+
+// A note split into its front matter variables and Markdown body
+export interface FrontMatter {
+  data: Record<string, unknown>;
+  body: string;
+  error?: FrontMatterError;
+}
+
 export interface EmailTemplate {
   id: string;
   user_id: string;
@@ -32,6 +66,8 @@ export interface EmailTemplate {
   variables: string[]; // Variable names for hints
   version: number;
   is_active: boolean;
+  track_engagement: boolean; // Default for open/click tracking of sends
+  layout_id?: string; // Layout the body is rendered into
   created_at: Date;
   updated_at: Date;
 }
@@ -44,6 +80,63 @@ export interface EmailTemplateVersion {
   body: string;
   variables: string[];
   created_at: Date;
+  is_current?: boolean; // Set in the history API: the template's own content rather than an archived version
+}
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  old_line?: number; // 1-based, absent for added lines
+  new_line?: number; // 1-based, absent for removed lines
+}
+
+export interface TemplateVersionDiff {
+  template_id: string;
+  from_version: number;
+  to_version: number;
+  subject: DiffLine[];
+  body: DiffLine[];
+  variables: { added: string[]; removed: string[] };
+}
+
+export type TemplatePartialKind = 'partial' | 'layout';
+
+export interface TemplatePartial {
+  id: string;
+  user_id: string;
+  name: string; // Partials are included as {{> name}}
+  kind: TemplatePartialKind; // A layout wraps a template body placed at {{{body}}}
+  content: string;
+  version: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TemplatePartialVersion {
+  id: string;
+  partial_id: string;
+  version: number;
+  content: string;
+  created_at: Date;
+}
+
+// The user's partials and the template's layout, resolved for one render
+export interface TemplateParts {
+  partials: Record<string, string>; // Name -> content
+  layout?: string;
+}
+
+export type TemplateHelperCategory = 'formatting' | 'text' | 'logic' | 'lists';
+
+// Reference for one built-in template helper, shown in the template editor
+export interface TemplateHelperDoc {
+  name: string;
+  category: TemplateHelperCategory;
+  signature: string; // e.g. truncate text length [suffix]
+  description: string;
+  example: string;
 }
 
 export interface SentEmail {
@@ -52,35 +145,329 @@ export interface SentEmail {
   note_id: string;
   template_id: string;
   template_version: number;
+  layout_id?: string | null;
+  campaign_id?: string;
+  merge_variables?: Record<string, string>;
   idempotency_key: string;
   recipients: string[];
+  cc: string[];
+  bcc: string[];
+  reply_to?: string;
   subject: string;
   body_html: string;
   body_text?: string;
-  status: 'pending' | 'sent' | 'failed';
+  status: 'scheduled' | 'pending' | 'sent' | 'partial' | 'bounced' | 'failed' | 'dead' | 'cancelled' | 'suppressed';
   error_message?: string;
+  error_class?: DeliveryErrorClass;
+  attempt_count: number;
+  next_attempt_at?: Date;
   provider_message_id?: string;
+  provider_thread_id?: string;
+  transport?: string;
+  connected_account_id?: string;
+  sender_identity_id?: string;
+  send_at?: Date;
+  suppressed_recipients: string[]; // Skipped because they are on the suppression list
+  track_engagement: boolean;
+  in_reply_to_id?: string; // Earlier send this one follows up on
+  thread_id: string;
   sent_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
 
+export type RecipientKind = 'to' | 'cc' | 'bcc';
+
+export interface SentEmailRecipient {
+  id: string;
+  sent_email_id: string;
+  email: string;
+  kind: RecipientKind;
+  status: 'pending' | 'sent' | 'bounced' | 'failed' | 'dead' | 'suppressed';
+  provider_message_id?: string;
+  error_message?: string;
+  error_class?: DeliveryErrorClass;
+  sent_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type SuppressionReason = 'unsubscribe' | 'manual' | 'import' | 'bounce' | 'complaint';
+
+export interface Suppression {
+  id: string;
+  user_id: string;
+  email: string;
+  reason: SuppressionReason;
+  created_at: Date;
+}
+
+export type SmtpTlsMode = 'tls' | 'starttls' | 'none';
+
+export interface SenderIdentity {
+  id: string;
+  user_id: string;
+  name: string;
+  from_name?: string;
+  from_email: string;
+  host: string;
+  port: number;
+  tls_mode: SmtpTlsMode;
+  username?: string;
+  password_encrypted?: string;
+  verified_at?: Date;
+  last_error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SenderIdentityInput {
+  name: string;
+  from_name?: string;
+  from_email: string;
+  host: string;
+  port: number;
+  tls_mode: SmtpTlsMode;
+  username?: string;
+  password?: string; // Omit on update to keep the stored one
+}
+
+// Connection settings of a sender identity, password decrypted, for one delivery
+export interface SmtpSender {
+  host: string;
+  port: number;
+  tlsMode: SmtpTlsMode;
+  username?: string;
+  password?: string;
+  from: string; // Formatted From header
+}
+
+export interface EmailJob {
+  id: string;
+  sent_email_id: string;
+  transport?: string;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  run_at: Date;
+  locked_at?: Date;
+  locked_by?: string;
+  attempts: number;
+  last_error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EmailDeliveryAttempt {
+  id: string;
+  sent_email_id: string;
+  transport?: string;
+  success: boolean;
+  provider_message_id?: string;
+  error_message?: string;
+  error_class?: DeliveryErrorClass;
+  created_at: Date;
+}
+
+export type EmailEventType = 'delivered' | 'deferred' | 'bounced' | 'complained' | 'opened' | 'clicked';
+
+export interface EmailEvent {
+  id: string;
+  sent_email_id: string;
+  recipient_id?: string;
+  provider: string;
+  provider_event_id?: string;
+  event_type: EmailEventType;
+  bounce_type?: 'hard' | 'soft';
+  email?: string;
+  url?: string;
+  description?: string;
+  payload?: any;
+  occurred_at: Date;
+  created_at: Date;
+}
+
+// A provider webhook event translated to a provider-neutral shape
+export interface InboundEmailEvent {
+  providerEventId?: string;
+  type: EmailEventType;
+  messageId: string;
+  recipient?: string;
+  bounceType?: 'hard' | 'soft';
+  description?: string;
+  occurredAt: Date;
+  payload: any;
+}
+
+export interface ReceivedReply {
+  id: string;
+  user_id: string;
+  sent_email_id: string;
+  provider: string;
+  provider_message_id: string;
+  provider_thread_id?: string;
+  from_email?: string;
+  from_name?: string;
+  subject?: string;
+  snippet?: string;
+  body_html?: string;
+  body_text?: string;
+  received_at: Date;
+  created_at: Date;
+}
+
+export interface EmailAttachment {
+  id: string;
+  user_id: string;
+  sent_email_id?: string; // Set once a send claims the upload
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  storage_driver: string;
+  storage_key: string;
+  content_id?: string; // Inline images are referenced from body_html as cid:<content_id>
+  created_at: Date;
+}
+
 export interface AuthRequest extends Request {
   user?: User;
 }
 
+export interface WebhookRequest extends Request {
+  rawBody?: Buffer; // Unparsed body, needed to check provider signatures
+}
+
 export interface EmailPreview {
   subject: string;
   body_html: string;
   body_text?: string;
   variables_used: Record<string, any>;
+  missing_variables?: string[]; // Declared by the template but supplied by nothing
+}
+
+export interface OutgoingAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  cid?: string; // Embedded inline rather than listed as an attachment
+}
+
+export interface OutgoingEmail {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: OutgoingAttachment[];
+  unsubscribeUrl?: string; // Sent as List-Unsubscribe with one-click support
+  inReplyTo?: string; // Message-ID of the email this one replies to
+  references?: string[]; // Message-IDs of the thread, oldest first
+  replyToMessageId?: string; // Provider id of the replied-to email, for APIs that thread by their own ids
+  sender?: SmtpSender; // Send through this SMTP server instead of the transport's own
+}
+
+// transient failures are retried with backoff, permanent ones are not
+export type DeliveryErrorClass = 'transient' | 'permanent';
+
+export interface RejectedRecipient {
+  email: string;
+  error: string;
+  errorClass: DeliveryErrorClass;
+}
+
+export interface EmailSendResult {
+  messageId: string;
+  success: boolean;
+  error?: string;
+  errorClass?: DeliveryErrorClass;
+  // Addresses the provider refused while accepting the message for the rest
+  rejected?: RejectedRecipient[];
+  threadId?: string; // Provider thread, for providers that assign one
 }
 
 export interface SendEmailRequest {
   note_id: string;
   template_id: string;
   recipients: string[];
+  cc?: string[];
+  bcc?: string[];
+  reply_to?: string;
+  attachment_ids?: string[]; // IDs returned by POST /attachments
+  inline_images?: boolean; // Embed <img> sources as cid: attachments
+  track_engagement?: boolean; // Open/click tracking; defaults to the template's setting
+  in_reply_to_id?: string; // Send as a reply to this earlier sent email
+  connected_account_id?: string; // Mailbox to send from; defaults to the user's default account
+  sender_identity_id?: string; // Send through one of the user's verified SMTP identities
+  idempotency_key?: string;
+  send_at?: string; // ISO timestamp; omit to send immediately
+}
+
+// Which template version a past email is rendered again with
+export type TemplateVersionChoice = 'original' | 'latest';
+
+export interface ResendEmailRequest {
+  template_version: TemplateVersionChoice;
+  idempotency_key?: string;
+}
+
+export interface Contact {
+  id: string;
+  user_id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  company?: string;
+  fields: Record<string, string>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ContactInput {
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  company?: string;
+  fields?: Record<string, string>;
+}
+
+export interface ContactList {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Campaign {
+  id: string;
+  user_id: string;
+  note_id: string;
+  template_id: string;
+  contact_list_id?: string;
+  name: string;
+  idempotency_key: string;
+  recipient_count: number;
+  created_at: Date;
+}
+
+export type MergeRow = Record<string, string>;
+
+export interface BulkSendRequest {
+  note_id: string;
+  template_id: string;
+  name?: string;
+  csv?: string; // Raw CSV with a header row; alternative to rows
+  rows?: MergeRow[];
+  list_id?: string; // Send to a contact list; contact fields become the row variables
+  email_column?: string; // Defaults to "email"
+  column_map?: Record<string, string>; // CSV column -> template variable; omit to expose every column as-is
+  reply_to?: string;
+  track_engagement?: boolean;
+  connected_account_id?: string;
+  sender_identity_id?: string;
   idempotency_key?: string;
+  send_at?: string;
 }
 
 export interface ApiResponse<T = any> {
@@ -0,0 +1,128 @@
+import { upgrade } from "./upgradeAccounts"
+import { ConnectedAccountService } from "./services/connectedAccountService"
+import { EmailService } from "./services/emailService"
+import { NylasEmailService } from "./services/nylasEmailService"
+
+// Answers the script's queries from a users table with the given columns and rows
+const mockDatabase = {
+  columns: [] as string[],
+  users: [] as Record<string, unknown>[],
+  statements: [] as string[],
+  transactions: [] as string[][],
+}
+
+const mockQuery = (sql: string) => {
+  mockDatabase.statements.push(sql.replace(/\s+/g, " ").trim())
+  if (sql.includes("information_schema.columns")) {
+    return { rows: mockDatabase.columns.map((column_name) => ({ column_name })) }
+  }
+  if (sql.includes("SELECT id, gmail_refresh_token")) {
+    return { rows: mockDatabase.users.filter((user) => user.gmail_refresh_token) }
+  }
+  if (sql.includes("SELECT id, nylas_access_token")) {
+    return { rows: mockDatabase.users.filter((user) => user.nylas_access_token) }
+  }
+  return { rows: [], rowCount: 0 }
+}
+
+jest.mock("./database/connection", () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(async (sql: string) => mockQuery(sql)),
+    connect: jest.fn(async () => {
+      const transaction: string[] = []
+      mockDatabase.transactions.push(transaction)
+      return {
+        query: jest.fn(async (sql: string) => {
+          transaction.push(sql.replace(/\s+/g, " ").trim())
+          return mockQuery(sql)
+        }),
+        release: jest.fn(),
+      }
+    }),
+  },
+}))
+
+describe("upgrade", () => {
+  const accountService = { connect: jest.fn() }
+  const emailService = { refreshTokens: jest.fn(), getAccountEmail: jest.fn() }
+  const nylasService = { getAccountInfo: jest.fn() }
+  const run = () =>
+    upgrade(
+      accountService as unknown as ConnectedAccountService,
+      emailService as unknown as EmailService,
+      nylasService as unknown as NylasEmailService
+    )
+
+  beforeEach(() => {
+    mockDatabase.statements = []
+    mockDatabase.transactions = []
+    accountService.connect.mockReset().mockResolvedValue({ id: "account-1" })
+    emailService.refreshTokens.mockReset().mockResolvedValue({ access_token: "fresh", expires_at: new Date() })
+    emailService.getAccountEmail.mockReset().mockResolvedValue("ann@gmail.com")
+    nylasService.getAccountInfo.mockReset()
+    jest.spyOn(console, "log").mockImplementation(() => undefined)
+    jest.spyOn(console, "error").mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("copies Gmail mailboxes when users has no Nylas columns", async () => {
+    mockDatabase.columns = ["id", "gmail_refresh_token", "gmail_access_token", "gmail_token_expires_at"]
+    mockDatabase.users = [{ id: "user-1", gmail_refresh_token: "refresh" }]
+
+    await expect(run()).resolves.toBe(0)
+
+    expect(accountService.connect).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ provider: "gmail", email: "ann@gmail.com", refreshToken: "refresh" }),
+      expect.anything()
+    )
+    expect(mockDatabase.statements.some((sql) => sql.includes("nylas_access_token"))).toBe(false)
+  })
+
+  it("clears the plain-text columns in the transaction that copies them, then drops them", async () => {
+    mockDatabase.columns = ["id", "gmail_refresh_token", "gmail_access_token", "gmail_token_expires_at"]
+    mockDatabase.users = [{ id: "user-1", gmail_refresh_token: "refresh" }]
+
+    await run()
+
+    expect(mockDatabase.transactions).toEqual([
+      [
+        "BEGIN",
+        "UPDATE users SET gmail_refresh_token = NULL, gmail_access_token = NULL, gmail_token_expires_at = NULL WHERE id = $1",
+        "COMMIT",
+      ],
+    ])
+    expect(accountService.connect.mock.calls[0][2]).toBeDefined()
+    expect(mockDatabase.statements).toContain(
+      "ALTER TABLE users DROP COLUMN gmail_refresh_token, DROP COLUMN gmail_access_token, DROP COLUMN gmail_token_expires_at"
+    )
+  })
+
+  it("keeps the columns of a mailbox it cannot copy", async () => {
+    mockDatabase.columns = ["id", "gmail_refresh_token", "nylas_access_token", "nylas_account_id", "has_nylas_auth"]
+    mockDatabase.users = [
+      { id: "user-1", nylas_access_token: "grant", nylas_account_id: "unknown@example.com" },
+      { id: "user-2", gmail_refresh_token: "refresh" },
+    ]
+    nylasService.getAccountInfo.mockResolvedValue(null)
+
+    await expect(run()).resolves.toBe(1)
+
+    expect(accountService.connect).toHaveBeenCalledTimes(1)
+    expect(accountService.connect.mock.calls[0][1]).toMatchObject({ provider: "gmail" })
+    expect(mockDatabase.transactions[0]).toEqual([])
+    expect(mockDatabase.statements.some((sql) => sql.startsWith("ALTER TABLE users"))).toBe(false)
+  })
+
+  it("copies nothing when users has no mailbox columns", async () => {
+    mockDatabase.columns = ["id", "email"]
+    mockDatabase.users = []
+
+    await expect(run()).resolves.toBe(0)
+    expect(mockDatabase.transactions).toEqual([])
+  })
+})
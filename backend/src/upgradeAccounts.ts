@@ -0,0 +1,205 @@
+import dotenv from "dotenv"
+import pool from "./database/connection"
+import { AccountCredentials, ConnectedAccountService } from "./services/connectedAccountService"
+import { EmailService } from "./services/emailService"
+import { NylasEmailService } from "./services/nylasEmailService"
+
+dotenv.config()
+
+// The part of schema.sql that databases created before connected accounts lack
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS connected_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provider VARCHAR(20) NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    access_token TEXT,
+    refresh_token TEXT,
+    token_expires_at TIMESTAMP,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    replies_synced_at TIMESTAMP,
+    replies_sync_before TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, provider, email)
+);
+CREATE INDEX IF NOT EXISTS idx_connected_accounts_user_id ON connected_accounts(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_connected_accounts_default ON connected_accounts(user_id) WHERE is_default;
+CREATE OR REPLACE TRIGGER update_connected_accounts_updated_at BEFORE UPDATE ON connected_accounts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+ALTER TABLE sent_emails ADD COLUMN IF NOT EXISTS connected_account_id UUID REFERENCES connected_accounts(id) ON DELETE SET NULL;
+`
+
+// Plain-text credential columns on users, per provider. The gmail_* ones are
+// in the original schema.sql; the nylas_* ones were added by hand, so either
+// set may be missing.
+const LEGACY_COLUMNS = {
+  gmail: ["gmail_refresh_token", "gmail_access_token", "gmail_token_expires_at"],
+  nylas: ["nylas_access_token", "nylas_account_id", "has_nylas_auth"],
+}
+// Dropped along with the credentials once every mailbox is copied
+const LEGACY_SYNC_COLUMN = "replies_synced_at"
+
+// Written by the old Nylas callback when it could not read the mailbox address
+const UNKNOWN_NYLAS_EMAIL = "unknown@example.com"
+
+interface LegacyMailbox {
+  userId: string
+  // Read inside the copy, so a failure to reach the provider counts against this mailbox only
+  credentials: () => Promise<AccountCredentials>
+  repliesSyncedAt?: Date | null
+}
+
+/**
+ * Move the Gmail and Nylas credentials that used to live on `users` into
+ * `connected_accounts`, encrypted. Each mailbox is copied and its plain-text
+ * columns cleared in one transaction; once every mailbox is copied, the old
+ * columns are dropped. Nylas is connected first so it stays the default
+ * sender, as it was preferred over Gmail before. Users who already have an
+ * account of a provider only have the old columns cleared, so the script can
+ * be run again. Mailboxes whose address cannot be read are reported, keep
+ * their old columns and have to be reconnected.
+ */
+export const upgrade = async (
+  accountService = new ConnectedAccountService(),
+  emailService = new EmailService(),
+  nylasService = new NylasEmailService()
+): Promise<number> => {
+  await pool.query(SCHEMA)
+
+  const columnsResult = await pool.query(
+    "SELECT column_name FROM information_schema.columns WHERE table_name = 'users'"
+  )
+  const columns = new Set<string>(columnsResult.rows.map((row) => row.column_name))
+  const has = (column: string) => columns.has(column)
+  const present = (provider: keyof typeof LEGACY_COLUMNS) => LEGACY_COLUMNS[provider].filter(has)
+  const clearColumns = (provider: keyof typeof LEGACY_COLUMNS) =>
+    present(provider)
+      .map((column) => `${column} = NULL`)
+      .join(", ")
+
+  const mailboxes: LegacyMailbox[] = []
+  const providers: (keyof typeof LEGACY_COLUMNS)[] = []
+
+  if (has("nylas_access_token")) {
+    providers.push("nylas")
+    const nylasUsers = await pool.query(
+      `SELECT id, nylas_access_token,
+              ${has("nylas_account_id") ? "nylas_account_id" : "NULL AS nylas_account_id"},
+              ${has(LEGACY_SYNC_COLUMN) ? LEGACY_SYNC_COLUMN : `NULL AS ${LEGACY_SYNC_COLUMN}`}
+       FROM users u
+       WHERE nylas_access_token IS NOT NULL ${has("has_nylas_auth") ? "AND has_nylas_auth" : ""}
+         AND NOT EXISTS (SELECT 1 FROM connected_accounts ca WHERE ca.user_id = u.id AND ca.provider = 'nylas')`
+    )
+    nylasUsers.rows.forEach((user) =>
+      mailboxes.push({
+        userId: user.id,
+        repliesSyncedAt: user.replies_synced_at,
+        credentials: async () => {
+          const email =
+            user.nylas_account_id && user.nylas_account_id !== UNKNOWN_NYLAS_EMAIL
+              ? user.nylas_account_id
+              : (await nylasService.getAccountInfo(user.nylas_access_token))?.email
+          if (!email) {
+            throw new Error("Nylas did not return the mailbox address")
+          }
+          return { provider: "nylas", email, accessToken: user.nylas_access_token }
+        },
+      })
+    )
+  }
+
+  if (has("gmail_refresh_token")) {
+    providers.push("gmail")
+    const gmailUsers = await pool.query(
+      `SELECT id, gmail_refresh_token FROM users u
+       WHERE gmail_refresh_token IS NOT NULL
+         AND NOT EXISTS (SELECT 1 FROM connected_accounts ca WHERE ca.user_id = u.id AND ca.provider = 'gmail')`
+    )
+    gmailUsers.rows.forEach((user) =>
+      mailboxes.push({
+        userId: user.id,
+        credentials: async () => {
+          // The address was never stored, so it is read from Google with a fresh token
+          const tokens = await emailService.refreshTokens(user.gmail_refresh_token)
+          const email = await emailService.getAccountEmail(tokens.access_token)
+          return {
+            provider: "gmail",
+            email,
+            accessToken: tokens.access_token,
+            refreshToken: user.gmail_refresh_token,
+            expiresAt: tokens.expires_at,
+          }
+        },
+      })
+    )
+  }
+
+  if (providers.length === 0) {
+    console.log("users has no mailbox columns; nothing to copy")
+    return 0
+  }
+
+  // Users who connected the provider again themselves only need the old tokens removed
+  for (const provider of providers) {
+    await pool.query(
+      `UPDATE users u SET ${clearColumns(provider)}
+       WHERE ${LEGACY_COLUMNS[provider][0]} IS NOT NULL
+         AND EXISTS (SELECT 1 FROM connected_accounts ca WHERE ca.user_id = u.id AND ca.provider = $1)`,
+      [provider]
+    )
+  }
+
+  let failed = 0
+
+  for (const mailbox of mailboxes) {
+    let began = false
+    const client = await pool.connect()
+
+    try {
+      const credentials = await mailbox.credentials()
+
+      await client.query("BEGIN")
+      began = true
+      const account = await accountService.connect(mailbox.userId, credentials, client)
+      if (mailbox.repliesSyncedAt) {
+        await client.query("UPDATE connected_accounts SET replies_synced_at = $1 WHERE id = $2", [
+          mailbox.repliesSyncedAt,
+          account.id,
+        ])
+      }
+      await client.query(`UPDATE users SET ${clearColumns(credentials.provider)} WHERE id = $1`, [mailbox.userId])
+      await client.query("COMMIT")
+    } catch (error) {
+      if (began) {
+        await client.query("ROLLBACK")
+      }
+      failed++
+      console.error(`Could not copy a mailbox of user ${mailbox.userId}; it has to be reconnected:`, error)
+    } finally {
+      client.release()
+    }
+  }
+
+  console.log(`Copied ${mailboxes.length - failed} of ${mailboxes.length} mailboxes`)
+
+  // The columns stay while a mailbox is left to copy, so it can be retried
+  if (failed === 0) {
+    const drop = [...providers.flatMap(present), ...(has(LEGACY_SYNC_COLUMN) ? [LEGACY_SYNC_COLUMN] : [])]
+    await pool.query(`ALTER TABLE users ${drop.map((column) => `DROP COLUMN ${column}`).join(", ")}`)
+    console.log(`Dropped ${drop.join(", ")} from users`)
+  }
+
+  return failed
+}
+
+if (require.main === module) {
+  upgrade()
+    .then((failed) => {
+      process.exitCode = failed > 0 ? 1 : 0
+    })
+    .catch((error) => {
+      console.error("Account upgrade error:", error)
+      process.exitCode = 1
+    })
+    .finally(() => pool.end())
+}
@@ -0,0 +1,52 @@
+import dotenv from "dotenv"
+import pool from "./database/connection"
+import { EmailWorker } from "./services/emailWorker"
+import { ReplySyncService } from "./services/replySync"
+import { assertEncryptionKey } from "./services/secretBox"
+import { assertLinkSecret } from "./services/signedLinks"
+
+dotenv.config()
+assertLinkSecret()
+assertEncryptionKey()
+
+const REPLY_SYNC_POLL_MS = 60 * 1000
+
+const worker = new EmailWorker()
+const replySync = new ReplySyncService()
+let replySyncTimer: NodeJS.Timeout | undefined
+let replySyncRun: Promise<void> | undefined
+let running = true
+
+// Reply sync waits on Nylas, so it runs on its own timer instead of
+// between delivery jobs
+const syncReplies = async () => {
+  try {
+    const linked = await replySync.syncDue()
+    if (linked > 0) {
+      console.log(`Linked ${linked} new repl(ies) to sent emails`)
+    }
+  } catch (error) {
+    console.error("Reply sync error:", error)
+  }
+
+  if (running) {
+    replySyncTimer = setTimeout(() => {
+      replySyncRun = syncReplies()
+    }, REPLY_SYNC_POLL_MS)
+  }
+}
+
+const shutdown = async (signal: string) => {
+  console.log(`Received ${signal}, stopping email worker`)
+  running = false
+  clearTimeout(replySyncTimer)
+  await Promise.all([worker.stop(), replySyncRun])
+  await pool.end()
+  process.exit(0)
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"))
+process.on("SIGTERM", () => shutdown("SIGTERM"))
+
+worker.start()
+replySyncRun = syncReplies()
@@ -7,8 +7,14 @@ import NotesPage from './pages/NotesPage.tsx';
 import NoteEditor from './pages/NoteEditor.tsx';
 import TemplatesPage from './pages/TemplatesPage.tsx';
 import TemplateEditor from './pages/TemplateEditor.tsx';
+import PartialsPage from './pages/PartialsPage.tsx';
 import ComposePage from './pages/ComposePage.tsx';
 import SentEmailsPage from './pages/SentEmailsPage.tsx';
+import ContactsPage from './pages/ContactsPage.tsx';
+import SuppressionsPage from './pages/SuppressionsPage.tsx';
+import SenderIdentitiesPage from './pages/SenderIdentitiesPage.tsx';
+import AccountsPage from './pages/AccountsPage.tsx';
+import InboxPage from './pages/InboxPage.tsx';
 import AuthCallback from './pages/AuthCallback.tsx';
 import NylasCallback from './pages/NylasCallback.tsx';
 
@@ -91,6 +97,14 @@ const AppRoutes: React.FC = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/partials"
+        element={
+          <ProtectedRoute>
+            <PartialsPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/compose"
         element={
@@ -107,6 +121,46 @@ const AppRoutes: React.FC = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/contacts"
+        element={
+          <ProtectedRoute>
+            <ContactsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/suppressions"
+        element={
+          <ProtectedRoute>
+            <SuppressionsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/inbox"
+        element={
+          <ProtectedRoute>
+            <InboxPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/senders"
+        element={
+          <ProtectedRoute>
+            <SenderIdentitiesPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/accounts"
+        element={
+          <ProtectedRoute>
+            <AccountsPage />
+          </ProtectedRoute>
+        }
+      />
       <Route path="/" element={<Navigate to="/notes" />} />
     </Routes>
   );
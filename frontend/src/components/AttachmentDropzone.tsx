@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { EmailAttachment } from '../types/index.ts';
+import { apiService } from '../services/api.ts';
+
+interface AttachmentDropzoneProps {
+  attachments: EmailAttachment[];
+  onChange: (attachments: EmailAttachment[]) => void;
+  onError: (message: string) => void;
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const AttachmentDropzone: React.FC<AttachmentDropzoneProps> = ({ attachments, onChange, onError }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    try {
+      setUploading(true);
+      const response = await apiService.uploadAttachments(files);
+      if (response.success && response.data) {
+        onChange([...attachments, ...response.data]);
+      }
+    } catch (err: any) {
+      onError(err.message || 'Failed to upload attachments');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleRemove = async (attachment: EmailAttachment) => {
+    try {
+      await apiService.deleteAttachment(attachment.id);
+      onChange(attachments.filter((existing) => existing.id !== attachment.id));
+    } catch (err: any) {
+      onError(err.message || 'Failed to remove attachment');
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Attachments</label>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`mt-1 flex justify-center px-6 py-4 border-2 border-dashed rounded-md cursor-pointer ${
+          dragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+        }`}
+      >
+        <p className="text-sm text-gray-500">
+          {uploading ? 'Uploading...' : 'Drag files here or click to browse'}
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            uploadFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {attachments.length > 0 && (
+        <ul className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="truncate text-gray-700">
+                📎 {attachment.filename}
+                <span className="ml-2 text-gray-400">{formatBytes(attachment.size_bytes)}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => handleRemove(attachment)}
+                className="ml-4 text-red-600 hover:text-red-900"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentDropzone;
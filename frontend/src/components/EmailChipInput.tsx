@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { Contact } from '../types/index.ts';
+import { apiService } from '../services/api.ts';
+
+interface EmailChipInputProps {
+  id: string;
+  label: string;
+  value: string[];
+  onChange: (emails: string[]) => void;
+  placeholder?: string;
+  maxChips?: number;
+  autocomplete?: boolean;
+}
+
+const AUTOCOMPLETE_DELAY_MS = 200;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email);
+
+const EmailChipInput: React.FC<EmailChipInputProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  placeholder = 'Type an address and press Enter',
+  maxChips,
+  autocomplete = true,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [suggestions, setSuggestions] = useState<Contact[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const isFull = maxChips !== undefined && value.length >= maxChips;
+
+  // Look up saved contacts once typing pauses
+  useEffect(() => {
+    const query = draft.trim();
+    if (!autocomplete || query.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiService.autocompleteContacts(query);
+        if (!cancelled && response.success && response.data) {
+          setSuggestions(response.data.filter((contact) => !value.includes(contact.email)));
+          setHighlighted(0);
+        }
+      } catch {
+        // Suggestions are best-effort; typing a full address still works
+      }
+    }, AUTOCOMPLETE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft, autocomplete, value]);
+
+  const addEmails = (text: string) => {
+    const emails = text
+      .split(/[,;\s]+/)
+      .map((email) => email.trim())
+      .filter((email) => email.length > 0 && !value.includes(email));
+
+    if (emails.length > 0) {
+      const next = [...value, ...emails];
+      onChange(maxChips !== undefined ? next.slice(0, maxChips) : next);
+    }
+    setDraft('');
+    setSuggestions([]);
+  };
+
+  const removeEmail = (email: string) => {
+    onChange(value.filter((existing) => existing !== email));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    } else if (e.key === 'Enter' && suggestions.length > 0) {
+      e.preventDefault();
+      addEmails(suggestions[highlighted].email);
+    } else if (e.key === 'Enter' || e.key === ',' || e.key === ';') {
+      e.preventDefault();
+      addEmails(draft);
+    } else if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+      removeEmail(value[value.length - 1]);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    e.preventDefault();
+    addEmails(e.clipboardData.getData('text'));
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+        {label}
+      </label>
+      <div className="relative mt-1 flex flex-wrap items-center gap-2 p-2 border border-gray-300 rounded-md shadow-sm focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500">
+        {value.map((email) => (
+          <span
+            key={email}
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-sm ${
+              isValidEmail(email) ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'
+            }`}
+          >
+            {email}
+            <button
+              type="button"
+              onClick={() => removeEmail(email)}
+              className="ml-1 text-current opacity-60 hover:opacity-100"
+              aria-label={`Remove ${email}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {!isFull && (
+          <input
+            id={id}
+            type="text"
+            className="flex-1 min-w-[12rem] border-0 p-0 focus:ring-0 sm:text-sm"
+            placeholder={value.length === 0 ? placeholder : ''}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onBlur={() => draft.trim() && addEmails(draft)}
+          />
+        )}
+        {suggestions.length > 0 && (
+          <ul className="absolute left-0 right-0 top-full z-10 mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+            {suggestions.map((contact, index) => (
+              <li
+                key={contact.id}
+                // mousedown fires before the input's blur, which would otherwise add the draft
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addEmails(contact.email);
+                }}
+                className={`px-3 py-2 text-sm cursor-pointer ${
+                  index === highlighted ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="text-gray-900">{contact.email}</span>
+                {(contact.first_name || contact.last_name || contact.company) && (
+                  <span className="ml-2 text-gray-500">
+                    {[contact.first_name, contact.last_name].filter(Boolean).join(' ')}
+                    {contact.company ? ` · ${contact.company}` : ''}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmailChipInput;
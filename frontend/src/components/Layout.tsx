@@ -13,8 +13,14 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const navigation = [
     { name: 'Notes', href: '/notes', icon: '📝' },
     { name: 'Templates', href: '/templates', icon: '📄' },
+    { name: 'Partials', href: '/partials', icon: '🧩' },
     { name: 'Compose', href: '/compose', icon: '✉️' },
     { name: 'Sent Emails', href: '/sent', icon: '📤' },
+    { name: 'Inbox', href: '/inbox', icon: '📥' },
+    { name: 'Contacts', href: '/contacts', icon: '👥' },
+    { name: 'Suppressions', href: '/suppressions', icon: '🚫' },
+    { name: 'Accounts', href: '/accounts', icon: '🔗' },
+    { name: 'Senders', href: '/senders', icon: '🔑' },
   ];
 
   const isActive = (path: string) => location.pathname === path;
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { ParsedCsv } from '../types/index.ts';
+import { apiService } from '../services/api.ts';
+
+interface MailMergeInputProps {
+  data: ParsedCsv | null;
+  onDataChange: (data: ParsedCsv | null) => void;
+  emailColumn: string;
+  onEmailColumnChange: (column: string) => void;
+  columnMap: Record<string, string>;
+  onColumnMapChange: (columnMap: Record<string, string>) => void;
+  onError: (message: string) => void;
+}
+
+// "First Name" -> "first_name", usable as {{first_name}} in a template
+export const toVariableName = (column: string) => {
+  const name = column
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+};
+
+const MailMergeInput: React.FC<MailMergeInputProps> = ({
+  data,
+  onDataChange,
+  emailColumn,
+  onEmailColumnChange,
+  columnMap,
+  onColumnMapChange,
+  onError,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [parsing, setParsing] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setParsing(true);
+      const response = await apiService.parseCsv(await file.text());
+      if (response.success && response.data) {
+        const { columns } = response.data;
+        setFileName(file.name);
+        onDataChange(response.data);
+        onEmailColumnChange(
+          columns.find((column) => column.trim().toLowerCase() === 'email') ||
+            columns.find((column) => /e-?mail/i.test(column)) ||
+            columns[0]
+        );
+        onColumnMapChange(
+          Object.fromEntries(columns.map((column) => [column, toVariableName(column)]))
+        );
+      }
+    } catch (err: any) {
+      onError(err.message || 'Failed to read CSV');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleClear = () => {
+    setFileName('');
+    onDataChange(null);
+    onColumnMapChange({});
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Recipients CSV</label>
+      {!data ? (
+        <div
+          onClick={() => inputRef.current?.click()}
+          className="mt-1 flex justify-center px-6 py-4 border-2 border-dashed border-gray-300 rounded-md cursor-pointer"
+        >
+          <p className="text-sm text-gray-500">
+            {parsing ? 'Reading...' : 'Click to choose a CSV with a header row and an email column'}
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      ) : (
+        <div className="mt-1 border border-gray-300 rounded-md">
+          <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-300 text-sm">
+            <span>
+              {fileName} · {data.rows.length} row{data.rows.length === 1 ? '' : 's'}
+            </span>
+            <button onClick={handleClear} className="text-gray-400 hover:text-red-600">
+              Remove
+            </button>
+          </div>
+          <div className="p-3 space-y-3">
+            <div>
+              <label htmlFor="email_column" className="block text-xs font-medium text-gray-500">
+                Email column
+              </label>
+              <select
+                id="email_column"
+                className="mt-1 block w-full pl-3 pr-10 py-1 border-gray-300 sm:text-sm rounded-md"
+                value={emailColumn}
+                onChange={(e) => onEmailColumnChange(e.target.value)}
+              >
+                {data.columns.map((column) => (
+                  <option key={column} value={column}>
+                    {column}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500">
+                  <th className="py-1">Column</th>
+                  <th className="py-1">Template variable</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.columns.map((column) => (
+                  <tr key={column}>
+                    <td className="py-1 pr-3 text-gray-700">{column}</td>
+                    <td className="py-1">
+                      <div className="flex items-center">
+                        <span className="text-gray-400 mr-1">{'{{'}</span>
+                        <input
+                          type="text"
+                          className="block w-full border-gray-300 rounded-md sm:text-sm py-1"
+                          placeholder="not used"
+                          value={columnMap[column] || ''}
+                          onChange={(e) =>
+                            onColumnMapChange({ ...columnMap, [column]: e.target.value.trim() })
+                          }
+                        />
+                        <span className="text-gray-400 ml-1">{'}}'}</span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MailMergeInput;
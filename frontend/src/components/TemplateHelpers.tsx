@@ -0,0 +1,73 @@
+import React from 'react';
+import { TemplateHelperCategory, TemplateHelperDoc } from '../types/index.ts';
+
+const categoryLabels: Record<TemplateHelperCategory, string> = {
+  formatting: 'Formatting',
+  text: 'Text',
+  lists: 'Lists',
+  logic: 'Comparisons',
+};
+
+// The helper name typed so far when the cursor is inside an open {{ ... }}
+export const helperPrefixAt = (source: string, cursor: number): string | null => {
+  const before = source.slice(0, cursor);
+  const open = before.lastIndexOf('{{');
+  if (open === -1 || before.indexOf('}}', open) !== -1) return null;
+
+  const match = before.slice(open).match(/[\s{#(]([A-Za-z]+)$/);
+  return match ? match[1] : null;
+};
+
+interface HelperSuggestionsProps {
+  helpers: TemplateHelperDoc[];
+  onPick: (helper: TemplateHelperDoc) => void;
+}
+
+// Completions shown under the body while a helper name is being typed
+export const HelperSuggestions: React.FC<HelperSuggestionsProps> = ({ helpers, onPick }) => (
+  <ul className="mt-1 bg-white border border-gray-200 rounded-md shadow-sm divide-y divide-gray-100 max-h-48 overflow-y-auto">
+    {helpers.map((helper) => (
+      <li key={helper.name}>
+        <button
+          type="button"
+          // Keep the focus and cursor in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(helper)}
+          className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+        >
+          <code className="font-medium text-gray-900">{helper.signature}</code>
+          <span className="block text-gray-500">{helper.description}</span>
+        </button>
+      </li>
+    ))}
+  </ul>
+);
+
+// Inline reference of every helper, grouped by category
+const HelperReference: React.FC<{ helpers: TemplateHelperDoc[] }> = ({ helpers }) => (
+  <details className="mt-2">
+    <summary className="cursor-pointer">Helpers</summary>
+    <div className="mt-2 space-y-3">
+      {(Object.keys(categoryLabels) as TemplateHelperCategory[]).map((category) => {
+        const inCategory = helpers.filter((helper) => helper.category === category);
+        if (inCategory.length === 0) return null;
+
+        return (
+          <div key={category}>
+            <h5 className="text-xs font-medium text-gray-500 uppercase tracking-wider">{categoryLabels[category]}</h5>
+            <ul className="mt-1 space-y-1">
+              {inCategory.map((helper) => (
+                <li key={helper.name}>
+                  <code className="bg-gray-100 px-1 rounded">{helper.signature}</code> - {helper.description}
+                  <code className="block text-xs text-gray-400">{helper.example}</code>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  </details>
+);
+
+export default HelperReference;
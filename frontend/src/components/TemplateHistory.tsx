@@ -0,0 +1,150 @@
+import React from 'react';
+import { DiffLine, EmailTemplateVersion, TemplateVersionDiff } from '../types/index.ts';
+
+interface TemplateHistoryProps {
+  versions: EmailTemplateVersion[];
+  selected: number | null;
+  onSelect: (version: number | null) => void;
+}
+
+interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Pair each run of removed lines with the added lines that follow it
+const toRows = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === 'equal') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === 'removed') removed.push(lines[index++]);
+    while (index < lines.length && lines[index].type === 'added') added.push(lines[index++]);
+
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row], right: added[row] });
+    }
+  }
+
+  return rows;
+};
+
+const cellClass = (line: DiffLine | undefined) => {
+  if (!line) return 'bg-gray-50';
+  if (line.type === 'removed') return 'bg-red-50 text-red-800';
+  if (line.type === 'added') return 'bg-green-50 text-green-800';
+  return 'text-gray-700';
+};
+
+const DiffTable: React.FC<{ lines: DiffLine[] }> = ({ lines }) => (
+  <table className="w-full table-fixed text-xs font-mono">
+    <tbody>
+      {toRows(lines).map((row, index) => (
+        <tr key={index}>
+          <td className="w-8 px-1 text-right text-gray-400 align-top select-none">{row.left?.old_line}</td>
+          <td className={`px-2 whitespace-pre-wrap break-all align-top ${cellClass(row.left)}`}>{row.left?.text}</td>
+          <td className="w-8 px-1 text-right text-gray-400 align-top select-none border-l border-gray-200">
+            {row.right?.new_line}
+          </td>
+          <td className={`px-2 whitespace-pre-wrap break-all align-top ${cellClass(row.right)}`}>{row.right?.text}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+interface TemplateDiffViewProps {
+  diff: TemplateVersionDiff;
+  restoring: boolean;
+  onRestore: () => void;
+  onClose: () => void;
+}
+
+// Side-by-side comparison of an old version (left) with the current one (right)
+export const TemplateDiffView: React.FC<TemplateDiffViewProps> = ({ diff, restoring, onRestore, onClose }) => (
+  <div className="mb-6 bg-white shadow rounded-lg">
+    <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+      <h3 className="text-sm font-medium text-gray-900">
+        Version {diff.from_version} compared with version {diff.to_version}
+      </h3>
+      <div className="space-x-3">
+        <button
+          type="button"
+          onClick={onRestore}
+          disabled={restoring}
+          className="py-1 px-3 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {restoring ? 'Restoring...' : `Restore version ${diff.from_version}`}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="py-1 px-3 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+    <div className="p-4 space-y-4">
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Subject</h4>
+        <DiffTable lines={diff.subject} />
+      </div>
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Body</h4>
+        <DiffTable lines={diff.body} />
+      </div>
+      {(diff.variables.added.length > 0 || diff.variables.removed.length > 0) && (
+        <p className="text-sm text-gray-600">
+          {diff.variables.added.length > 0 && <>Variables added: {diff.variables.added.join(', ')}. </>}
+          {diff.variables.removed.length > 0 && <>Variables removed: {diff.variables.removed.join(', ')}.</>}
+        </p>
+      )}
+    </div>
+  </div>
+);
+
+const TemplateHistory: React.FC<TemplateHistoryProps> = ({ versions, selected, onSelect }) => (
+  <div className="bg-white shadow rounded-lg">
+    <h3 className="px-4 py-3 text-sm font-medium text-gray-900 border-b border-gray-200">History</h3>
+    {versions.length <= 1 ? (
+      <p className="px-4 py-3 text-sm text-gray-500">Earlier versions appear here once the subject or body changes.</p>
+    ) : (
+      <ul className="divide-y divide-gray-200">
+        {versions.map((version) => (
+          <li key={version.version}>
+            <button
+              type="button"
+              disabled={version.is_current}
+              onClick={() => onSelect(selected === version.version ? null : version.version)}
+              className={`w-full text-left px-4 py-3 text-sm ${
+                selected === version.version ? 'bg-blue-50' : 'hover:bg-gray-50'
+              } disabled:cursor-default disabled:hover:bg-white`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900">Version {version.version}</span>
+                {version.is_current && (
+                  <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                    Current
+                  </span>
+                )}
+              </div>
+              <div className="text-gray-500 truncate">{version.subject}</div>
+              <div className="text-xs text-gray-400">{new Date(version.created_at).toLocaleString()}</div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default TemplateHistory;
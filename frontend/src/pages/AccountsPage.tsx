@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { ConnectedAccount } from '../types/index.ts';
+import { apiService } from '../services/api.ts';
+
+const providerLabels: Record<ConnectedAccount['provider'], string> = {
+  gmail: 'Gmail',
+  nylas: 'Nylas',
+};
+
+const AccountsPage: React.FC = () => {
+  const [accounts, setAccounts] = useState<ConnectedAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const loadAccounts = async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getAccounts();
+      if (response.success && response.data) {
+        setAccounts(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load connected accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The OAuth callback pages bring the user back here once authorized
+  const handleConnect = async (provider: ConnectedAccount['provider']) => {
+    try {
+      setError('');
+      const response = provider === 'gmail'
+        ? await apiService.getGmailAuthUrl()
+        : await apiService.getNylasAuthUrl();
+      if (response.success && response.data) {
+        window.location.href = response.data.auth_url;
+      }
+    } catch (err: any) {
+      setError(`Failed to get ${providerLabels[provider]} authorization URL`);
+    }
+  };
+
+  const handleMakeDefault = async (account: ConnectedAccount) => {
+    try {
+      setError('');
+      await apiService.setDefaultAccount(account.id);
+      await loadAccounts();
+    } catch (err: any) {
+      setError(err.message || 'Failed to change the default account');
+    }
+  };
+
+  const handleDisconnect = async (account: ConnectedAccount) => {
+    if (!window.confirm(`Disconnect ${account.email}?`)) {
+      return;
+    }
+
+    try {
+      setError('');
+      await apiService.disconnectAccount(account.id);
+      // Another account may have become the default
+      await loadAccounts();
+    } catch (err: any) {
+      setError(err.message || 'Failed to disconnect account');
+    }
+  };
+
+  return (
+    <div>
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-xl font-semibold text-gray-900">Connected Accounts</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Mailboxes you send from. Emails go out from the default account unless you pick another one when
+            composing.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none space-x-3">
+          <button
+            onClick={() => handleConnect('nylas')}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-purple-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-purple-700"
+          >
+            Connect Nylas
+          </button>
+          <button
+            onClick={() => handleConnect('gmail')}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+          >
+            Connect Gmail
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : accounts.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No connected accounts</h3>
+            <p className="mt-1 text-sm text-gray-500">Connect a Gmail or Nylas mailbox to start sending.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Account
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Provider
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Connected
+                </th>
+                <th className="relative px-6 py-3">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {accounts.map((account) => (
+                <tr key={account.id}>
+                  <td className="px-6 py-4 text-sm">
+                    <span className="font-medium text-gray-900">{account.email}</span>
+                    {account.is_default && (
+                      <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                        Default
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {providerLabels[account.provider]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(account.created_at).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                    {!account.is_default && (
+                      <button
+                        onClick={() => handleMakeDefault(account)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Make default
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDisconnect(account)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      Disconnect
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AccountsPage;
@@ -33,9 +33,9 @@ const AuthCallback: React.FC = () => {
           setStatus('success');
           setMessage('Gmail authorization successful!');
           
-          // Redirect to compose page after 2 seconds
+          // Redirect to the accounts page after 2 seconds
           setTimeout(() => {
-            navigate('/compose');
+            navigate('/accounts');
           }, 2000);
         } else {
           setStatus('error');
@@ -73,7 +73,7 @@ const AuthCallback: React.FC = () => {
                 </svg>
               </div>
               <p className="mt-4 text-green-600 font-medium">{message}</p>
-              <p className="mt-2 text-gray-500">Redirecting to compose page...</p>
+              <p className="mt-2 text-gray-500">Redirecting to your accounts...</p>
             </div>
           )}
           
@@ -87,10 +87,10 @@ const AuthCallback: React.FC = () => {
               <p className="mt-4 text-red-600 font-medium">{message}</p>
               <div className="mt-6">
                 <button
-                  onClick={() => navigate('/compose')}
+                  onClick={() => navigate('/accounts')}
                   className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                 >
-                  Go to Compose
+                  Go to Accounts
                 </button>
               </div>
             </div>
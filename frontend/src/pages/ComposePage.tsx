@@ -1,34 +1,90 @@
 import React, { useState, useEffect } from "react"
-import { Note, EmailTemplate, EmailPreview } from "../types/index.ts"
+import { useSearchParams } from "react-router-dom"
+import {
+  Note,
+  EmailTemplate,
+  EmailPreview,
+  EmailAttachment,
+  ParsedCsv,
+  Contact,
+  ContactList,
+  SentEmail,
+  SenderIdentity,
+  ConnectedAccount,
+} from "../types/index.ts"
 import { apiService } from "../services/api.ts"
 import { useAuth } from "../contexts/AuthContext.tsx"
+import EmailChipInput, { isValidEmail } from "../components/EmailChipInput.tsx"
+import AttachmentDropzone from "../components/AttachmentDropzone.tsx"
+import MailMergeInput from "../components/MailMergeInput.tsx"
+
+const DELIVERY_POLL_INTERVAL_MS = 2000
+const DELIVERY_POLL_ATTEMPTS = 15
+
+type ComposeMode = "single" | "merge" | "list"
+
+// Only emails that reached a provider have a message id to reply to
+const repliableStatuses: SentEmail["status"][] = ["sent", "partial", "bounced"]
+
+// Mirrors the variables the backend exposes for each contact of a list send
+const contactVariables = (contact: Contact): Record<string, string> => ({
+  ...contact.fields,
+  email: contact.email,
+  first_name: contact.first_name || "",
+  last_name: contact.last_name || "",
+  full_name: [contact.first_name, contact.last_name].filter(Boolean).join(" "),
+  company: contact.company || "",
+})
 
 const ComposePage: React.FC = () => {
   const { user } = useAuth()
+  const [searchParams] = useSearchParams()
   const [notes, setNotes] = useState<Note[]>([])
   const [templates, setTemplates] = useState<EmailTemplate[]>([])
   const [selectedNote, setSelectedNote] = useState<string>("")
   const [selectedTemplate, setSelectedTemplate] = useState<string>("")
-  const [recipients, setRecipients] = useState<string>("")
+  const [recipients, setRecipients] = useState<string[]>([])
+  const [cc, setCc] = useState<string[]>([])
+  const [bcc, setBcc] = useState<string[]>([])
+  const [replyTo, setReplyTo] = useState<string[]>([])
+  const [attachments, setAttachments] = useState<EmailAttachment[]>([])
+  const [sendAt, setSendAt] = useState<string>("")
+  const [inlineImages, setInlineImages] = useState(false)
+  const [trackEngagement, setTrackEngagement] = useState(false)
+  const [previousSends, setPreviousSends] = useState<SentEmail[]>([])
+  const [inReplyTo, setInReplyTo] = useState("")
+  const [accounts, setAccounts] = useState<ConnectedAccount[]>([])
+  const [fromAccount, setFromAccount] = useState("")
+  const [senders, setSenders] = useState<SenderIdentity[]>([])
+  const [senderIdentity, setSenderIdentity] = useState("")
+  const [mode, setMode] = useState<ComposeMode>("single")
+  const [contactLists, setContactLists] = useState<ContactList[]>([])
+  const [selectedList, setSelectedList] = useState("")
+  const [mergeData, setMergeData] = useState<ParsedCsv | null>(null)
+  const [emailColumn, setEmailColumn] = useState("")
+  const [columnMap, setColumnMap] = useState<Record<string, string>>({})
+  const [previewRow, setPreviewRow] = useState(0)
   const [preview, setPreview] = useState<EmailPreview | null>(null)
   const [loading, setLoading] = useState(false)
   const [sending, setSending] = useState(false)
   const [error, setError] = useState("")
   const [success, setSuccess] = useState("")
-  const [needsGmailAuth, setNeedsGmailAuth] = useState(false)
-  const [needsNylasAuth, setNeedsNylasAuth] = useState(false)
+  const [warning, setWarning] = useState("")
+  const [needsAuth, setNeedsAuth] = useState(false)
 
   useEffect(() => {
     loadData()
-    checkGmailAuth()
-    checkNylasAuth()
+    loadAccounts()
   }, [])
 
   const loadData = async () => {
     try {
-      const [notesResponse, templatesResponse] = await Promise.all([
+      const [notesResponse, templatesResponse, listsResponse, sendersResponse, sentResponse] = await Promise.all([
         apiService.getNotes(),
         apiService.getTemplates(),
+        apiService.getContactLists(),
+        apiService.getSenderIdentities(),
+        apiService.getSentEmails(1, 50),
       ])
 
       if (notesResponse.success && notesResponse.data) {
@@ -37,34 +93,72 @@ const ComposePage: React.FC = () => {
       if (templatesResponse.success && templatesResponse.data) {
         setTemplates(templatesResponse.data)
       }
+      if (listsResponse.success && listsResponse.data) {
+        setContactLists(listsResponse.data)
+      }
+      if (sendersResponse.success && sendersResponse.data) {
+        // Only identities that passed their test connection can send
+        setSenders(sendersResponse.data.filter((sender) => sender.verified_at))
+      }
+      if (sentResponse.success && sentResponse.data) {
+        let repliable = sentResponse.data.emails.filter((email) =>
+          repliableStatuses.includes(email.status)
+        )
+
+        // "Follow up" on the sent emails page links here with ?reply_to=<id>,
+        // which may be older than the recent sends listed
+        const replyToId = searchParams.get("reply_to")
+        if (replyToId && !repliable.some((email) => email.id === replyToId)) {
+          const replyToResponse = await apiService.getSentEmail(replyToId)
+          if (replyToResponse.success && replyToResponse.data) {
+            repliable = [replyToResponse.data, ...repliable]
+          }
+        }
+
+        setPreviousSends(repliable)
+        if (replyToId) {
+          handlePreviousSendChange(replyToId, repliable)
+        }
+      }
     } catch (err: any) {
       setError("Failed to load data")
     }
   }
 
-  const checkGmailAuth = async () => {
-    try {
-      const response = await apiService.getGmailStatus()
-      if (response.success && response.data) {
-        setNeedsGmailAuth(!response.data.has_gmail_auth)
-      }
-    } catch (err) {
-      console.error("Failed to check Gmail auth status")
+  // A follow-up goes to the same people unless recipients were already entered
+  const handlePreviousSendChange = (id: string, sends = previousSends) => {
+    setInReplyTo(id)
+    const previous = sends.find((email) => email.id === id)
+    if (previous) {
+      setRecipients((current) => (current.length > 0 ? current : previous.recipients))
+      setCc((current) => (current.length > 0 ? current : previous.cc))
     }
   }
 
-  const checkNylasAuth = async () => {
+  // Emails go out from the default account unless another one is picked
+  const loadAccounts = async () => {
     try {
-      const response = await apiService.getNylasStatus()
+      const response = await apiService.getAccounts()
       if (response.success && response.data) {
-        setNeedsNylasAuth(!response.data.has_nylas_auth)
+        setAccounts(response.data)
+        setFromAccount(response.data.find((account) => account.is_default)?.id || "")
+        setNeedsAuth(response.data.length === 0)
       }
     } catch (err) {
-      console.error("Failed to check Nylas auth status")
+      console.error("Failed to load connected accounts")
+    }
+  }
+
+  // Accounts and SMTP identities share one "Send From" select
+  const handleFromChange = (value: string) => {
+    const [kind, id] = value.split(":")
+    setSenderIdentity(kind === "identity" ? id : "")
+    if (kind === "account") {
+      setFromAccount(id)
     }
   }
 
-  const handlePreview = async () => {
+  const handlePreview = async (rowIndex = previewRow) => {
     if (!selectedNote || !selectedTemplate) {
       setError("Please select both a note and a template")
       return
@@ -73,10 +167,16 @@ const ComposePage: React.FC = () => {
     try {
       setLoading(true)
       setError("")
-      const response = await apiService.previewTemplate(
-        selectedTemplate,
-        selectedNote
-      )
+      // In mail-merge and list modes each row renders differently, so preview one row at a time
+      const response =
+        mode !== "single" && mergeData
+          ? await apiService.previewCampaignRow(
+              selectedNote,
+              selectedTemplate,
+              mergeData.rows[rowIndex],
+              mode === "merge" ? columnMap : undefined
+            )
+          : await apiService.previewTemplate(selectedTemplate, selectedNote)
       if (response.success && response.data) {
         setPreview(response.data)
       }
@@ -87,25 +187,122 @@ const ComposePage: React.FC = () => {
     }
   }
 
+  const handleMergeRowChange = (rowIndex: number) => {
+    setPreviewRow(rowIndex)
+    handlePreview(rowIndex)
+  }
+
+  const handleModeChange = (nextMode: ComposeMode) => {
+    setMode(nextMode)
+    setMergeData(null)
+    setSelectedList("")
+    setPreview(null)
+    setPreviewRow(0)
+  }
+
+  // A contact list is previewed like a CSV whose rows are the members' variables
+  const handleListChange = async (listId: string) => {
+    setSelectedList(listId)
+    setMergeData(null)
+    setPreview(null)
+    setPreviewRow(0)
+    if (!listId) return
+
+    try {
+      const response = await apiService.getContactList(listId)
+      if (response.success && response.data) {
+        const rows = (response.data.members || []).map(contactVariables)
+        setEmailColumn("email")
+        setMergeData({ columns: rows.length ? Object.keys(rows[0]) : [], rows })
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to load contact list")
+    }
+  }
+
+  const handleCampaignSend = async () => {
+    if (!selectedNote || !selectedTemplate || !mergeData || mergeData.rows.length === 0) {
+      setError(
+        mode === "list"
+          ? "Please select note, template, and a contact list with members"
+          : "Please select note, template, and a recipients CSV"
+      )
+      return
+    }
+
+    const invalidReplyTo = replyTo.filter((email) => !isValidEmail(email))
+    if (invalidReplyTo.length > 0) {
+      setError(`Please fix invalid email addresses: ${invalidReplyTo.join(", ")}`)
+      return
+    }
+
+    try {
+      setSending(true)
+      setError("")
+      setSuccess("")
+      setWarning("")
+
+      const response = await apiService.sendCampaign({
+        note_id: selectedNote,
+        template_id: selectedTemplate,
+        ...(mode === "list"
+          ? { list_id: selectedList }
+          : { rows: mergeData.rows, email_column: emailColumn, column_map: columnMap }),
+        reply_to: replyTo[0],
+        track_engagement: trackEngagement,
+        connected_account_id: senderIdentity ? undefined : fromAccount || undefined,
+        sender_identity_id: senderIdentity || undefined,
+        send_at: sendAt ? new Date(sendAt).toISOString() : undefined,
+      })
+
+      if (response.success && response.data) {
+        setMergeData(null)
+        setSelectedList("")
+        setColumnMap({})
+        setPreviewRow(0)
+        setPreview(null)
+        setSendAt("")
+
+        const { recipient_count, skipped_duplicates, suppressed } = response.data
+        const queued = recipient_count - suppressed
+        setSuccess(
+          `${response.data.send_at ? "Scheduled" : "Queued"} ${queued} email${
+            queued === 1 ? "" : "s"
+          }. Check Sent Emails for delivery status.`
+        )
+        const warnings = []
+        if (skipped_duplicates > 0) {
+          warnings.push(`${skipped_duplicates} duplicate address(es) were skipped`)
+        }
+        if (suppressed > 0) {
+          warnings.push(`${suppressed} recipient(s) are on the suppression list and were not emailed`)
+        }
+        setWarning(warnings.join(". "))
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to send campaign")
+    } finally {
+      setSending(false)
+    }
+  }
+
   const handleSend = async () => {
-    if (!selectedNote || !selectedTemplate || !recipients.trim()) {
+    if (!selectedNote || !selectedTemplate || recipients.length === 0) {
       setError("Please select note, template, and enter recipients")
       return
     }
 
     // Check if any email service is authorized
-    if (needsGmailAuth && needsNylasAuth) {
-      setError('Please authorize Nylas or Gmail access first');
+    if (needsAuth && !senderIdentity) {
+      setError('Please connect a Nylas or Gmail account first');
       return;
     }
 
-    const recipientList = recipients
-      .split(",")
-      .map((email) => email.trim())
-      .filter((email) => email.length > 0)
-
-    if (recipientList.length === 0) {
-      setError("Please enter valid email addresses")
+    const invalid = [...recipients, ...cc, ...bcc, ...replyTo].filter(
+      (email) => !isValidEmail(email)
+    )
+    if (invalid.length > 0) {
+      setError(`Please fix invalid email addresses: ${invalid.join(", ")}`)
       return
     }
 
@@ -113,20 +310,61 @@ const ComposePage: React.FC = () => {
       setSending(true)
       setError("")
       setSuccess("")
+      setWarning("")
 
-      const response = await apiService.sendEmail(
-        selectedNote,
-        selectedTemplate,
-        recipientList
-      )
+      const response = await apiService.sendEmail({
+        note_id: selectedNote,
+        template_id: selectedTemplate,
+        recipients,
+        cc,
+        bcc,
+        reply_to: replyTo[0],
+        attachment_ids: attachments.map((attachment) => attachment.id),
+        inline_images: inlineImages,
+        track_engagement: trackEngagement,
+        in_reply_to_id: inReplyTo || undefined,
+        connected_account_id: senderIdentity ? undefined : fromAccount || undefined,
+        sender_identity_id: senderIdentity || undefined,
+        send_at: sendAt ? new Date(sendAt).toISOString() : undefined,
+      })
 
       if (response.success && response.data) {
-        const serviceUsed = !needsNylasAuth ? "Nylas" : "Gmail";
-        setSuccess(
-          `Email sent successfully via ${serviceUsed}! Message ID: ${response.data.message_id}`
-        )
-        setRecipients("")
+        setInReplyTo("")
+        setRecipients([])
+        setCc([])
+        setBcc([])
+        setReplyTo([])
+        setAttachments([])
         setPreview(null)
+
+        const warnings = []
+        if (response.data.skipped_images?.length) {
+          warnings.push(
+            `${response.data.skipped_images.length} image(s) could not be embedded and were left as links`
+          )
+        }
+        if (response.data.suppressed_recipients?.length) {
+          warnings.push(
+            `Not sent to suppressed address(es): ${response.data.suppressed_recipients.join(", ")}`
+          )
+        }
+        setWarning(warnings.join(". "))
+
+        if (response.data.status === "suppressed") {
+          setError("All recipients are on the suppression list, so nothing was sent")
+          return
+        }
+
+        if (response.data.send_at) {
+          setSendAt("")
+          setSuccess(
+            `Email scheduled for ${new Date(response.data.send_at).toLocaleString()}`
+          )
+          return
+        }
+
+        setSuccess("Email queued for delivery...")
+        await waitForDelivery(response.data.id)
       }
     } catch (err: any) {
       setError(err.message || "Failed to send email")
@@ -135,6 +373,56 @@ const ComposePage: React.FC = () => {
     }
   }
 
+  // Poll the queued email until the worker reports an outcome
+  const waitForDelivery = async (sentEmailId: string) => {
+    for (let attempt = 0; attempt < DELIVERY_POLL_ATTEMPTS; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, DELIVERY_POLL_INTERVAL_MS))
+
+      const response = await apiService.getSentEmailStatus(sentEmailId)
+      if (!response.success || !response.data) {
+        continue
+      }
+
+      if (response.data.status === "sent") {
+        setSuccess(
+          `Email sent successfully! Message ID: ${response.data.provider_message_id}`
+        )
+        return
+      }
+      if (response.data.status === "partial") {
+        setSuccess("")
+        setWarning(
+          `Email was not delivered to every recipient: ${
+            response.data.error_message || "some addresses were rejected"
+          }. Check Sent Emails for the per-recipient status.`
+        )
+        return
+      }
+      if (response.data.status === "failed" || response.data.status === "dead") {
+        setSuccess("")
+        setError(response.data.error_message || "Failed to send email")
+        return
+      }
+      if (response.data.status === "suppressed") {
+        // A recipient unsubscribed while the email was queued
+        setSuccess("")
+        setError("All recipients are on the suppression list, so nothing was sent")
+        return
+      }
+      if (response.data.next_attempt_at) {
+        // Transient failure: the worker will retry on its own schedule
+        setSuccess(
+          `Delivery attempt ${response.data.attempt_count} failed, retrying at ${new Date(
+            response.data.next_attempt_at
+          ).toLocaleTimeString()}. Check Sent Emails for its status.`
+        )
+        return
+      }
+    }
+
+    setSuccess("Email is still queued. Check Sent Emails for its status.")
+  }
+
   const handleGmailAuth = async () => {
     try {
       const response = await apiService.getGmailAuthUrl()
@@ -173,7 +461,7 @@ const ComposePage: React.FC = () => {
         </div>
       </div>
 
-      {(needsGmailAuth && needsNylasAuth) && (
+      {(needsAuth && !senderIdentity) && (
         <div className="rounded-md bg-yellow-50 p-4">
           <div className="flex">
             <div className="flex-shrink-0">
@@ -219,7 +507,7 @@ const ComposePage: React.FC = () => {
       )}
 
       {/* Email Service Status */}
-      {(!needsGmailAuth || !needsNylasAuth) && (
+      {accounts.length > 0 && (
         <div className="rounded-md bg-green-50 p-4 mb-6">
           <div className="flex">
             <div className="flex-shrink-0">
@@ -233,9 +521,9 @@ const ComposePage: React.FC = () => {
               </h3>
               <div className="mt-2 text-sm text-green-700">
                 <p>
-                  {!needsNylasAuth && "✅ Nylas authorized"}
-                  {!needsNylasAuth && !needsGmailAuth && " • "}
-                  {!needsGmailAuth && "✅ Gmail authorized"}
+                  {accounts
+                    .map((account) => `✅ ${account.email} (${account.provider === "nylas" ? "Nylas" : "Gmail"})`)
+                    .join(" • ")}
                 </p>
               </div>
             </div>
@@ -255,6 +543,12 @@ const ComposePage: React.FC = () => {
         </div>
       )}
 
+      {warning && (
+        <div className="mt-4 bg-yellow-50 border border-yellow-200 text-yellow-700 px-4 py-3 rounded">
+          {warning}
+        </div>
+      )}
+
       <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-2">
         {/* Selection Panel */}
         <div className="space-y-6">
@@ -293,7 +587,13 @@ const ComposePage: React.FC = () => {
               name="template"
               className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
               value={selectedTemplate}
-              onChange={(e) => setSelectedTemplate(e.target.value)}
+              onChange={(e) => {
+                setSelectedTemplate(e.target.value)
+                // Each template carries its own tracking default; the checkbox overrides it for this send
+                setTrackEngagement(
+                  !!templates.find((template) => template.id === e.target.value)?.track_engagement
+                )
+              }}
             >
               <option value="">Choose a template...</option>
               {templates.map((template) => (
@@ -304,58 +604,313 @@ const ComposePage: React.FC = () => {
             </select>
           </div>
 
+          {(accounts.length > 1 || senders.length > 0) && (
+            <div>
+              <label
+                htmlFor="send_from"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Send From
+              </label>
+              <select
+                id="send_from"
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                value={senderIdentity ? `identity:${senderIdentity}` : `account:${fromAccount}`}
+                onChange={(e) => handleFromChange(e.target.value)}
+              >
+                {accounts.length === 0 && <option value="account:">Default mail service</option>}
+                {accounts.length > 0 && (
+                  <optgroup label="Connected accounts">
+                    {accounts.map((account) => (
+                      <option key={account.id} value={`account:${account.id}`}>
+                        {account.email}
+                        {account.is_default ? " (default)" : ""}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                {senders.length > 0 && (
+                  <optgroup label="SMTP senders">
+                    {senders.map((sender) => (
+                      <option key={sender.id} value={`identity:${sender.id}`}>
+                        {sender.name} ({sender.from_email})
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+          )}
+
+          <div className="flex rounded-md shadow-sm">
+            <button
+              onClick={() => handleModeChange("single")}
+              className={`flex-1 px-4 py-2 text-sm font-medium border border-gray-300 rounded-l-md ${
+                mode === "single" ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              Single Email
+            </button>
+            <button
+              onClick={() => handleModeChange("merge")}
+              className={`flex-1 px-4 py-2 text-sm font-medium border border-l-0 border-gray-300 ${
+                mode === "merge" ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              Mail Merge (CSV)
+            </button>
+            <button
+              onClick={() => handleModeChange("list")}
+              className={`flex-1 px-4 py-2 text-sm font-medium border border-l-0 border-gray-300 rounded-r-md ${
+                mode === "list" ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              Contact List
+            </button>
+          </div>
+
+          {mode === "single" ? (
+            <>
+              <div>
+                <label
+                  htmlFor="in_reply_to"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Reply to Previous Send (optional)
+                </label>
+                <select
+                  id="in_reply_to"
+                  className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                  value={inReplyTo}
+                  onChange={(e) => handlePreviousSendChange(e.target.value)}
+                >
+                  <option value="">Start a new conversation</option>
+                  {previousSends.map((email) => (
+                    <option key={email.id} value={email.id}>
+                      {email.subject} to {email.recipients.join(", ")}
+                      {email.sent_at && ` (${new Date(email.sent_at).toLocaleDateString()})`}
+                    </option>
+                  ))}
+                </select>
+                {inReplyTo && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    Sent in the same thread, with the previous subject prefixed by "Re:"
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <EmailChipInput
+                  id="recipients"
+                  label="To"
+                  value={recipients}
+                  onChange={setRecipients}
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  Press Enter or comma after each address
+                </p>
+              </div>
+
+              <EmailChipInput id="cc" label="Cc" value={cc} onChange={setCc} />
+
+              <EmailChipInput id="bcc" label="Bcc" value={bcc} onChange={setBcc} />
+            </>
+          ) : mode === "list" ? (
+            <div>
+              <label
+                htmlFor="contact_list"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Contact List
+              </label>
+              <select
+                id="contact_list"
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                value={selectedList}
+                onChange={(e) => handleListChange(e.target.value)}
+              >
+                <option value="">Choose a list...</option>
+                {contactLists.map((list) => (
+                  <option key={list.id} value={list.id}>
+                    {list.name} ({list.member_count})
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                Each contact gets their own email; use {"{{first_name}}"}, {"{{company}}"} and other contact fields in the template
+              </p>
+            </div>
+          ) : (
+            <MailMergeInput
+              data={mergeData}
+              onDataChange={(data) => {
+                setMergeData(data)
+                setPreviewRow(0)
+                setPreview(null)
+              }}
+              emailColumn={emailColumn}
+              onEmailColumnChange={setEmailColumn}
+              columnMap={columnMap}
+              onColumnMapChange={setColumnMap}
+              onError={setError}
+            />
+          )}
+
+          <EmailChipInput
+            id="reply_to"
+            label="Reply-To"
+            value={replyTo}
+            onChange={setReplyTo}
+            placeholder="Defaults to the sending account"
+            maxChips={1}
+          />
+
+          {mode === "single" && (
+            <>
+              <AttachmentDropzone
+                attachments={attachments}
+                onChange={setAttachments}
+                onError={setError}
+              />
+
+              <div className="flex items-start">
+                <input
+                  type="checkbox"
+                  id="inline_images"
+                  className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  checked={inlineImages}
+                  onChange={(e) => setInlineImages(e.target.checked)}
+                />
+                <label htmlFor="inline_images" className="ml-2 text-sm text-gray-700">
+                  Embed images inline
+                  <span className="block text-gray-500">
+                    Attaches images referenced in the note so clients that block remote images still show them
+                  </span>
+                </label>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-start">
+            <input
+              type="checkbox"
+              id="track_engagement"
+              className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              checked={trackEngagement}
+              onChange={(e) => setTrackEngagement(e.target.checked)}
+            />
+            <label htmlFor="track_engagement" className="ml-2 text-sm text-gray-700">
+              Track opens and clicks
+              <span className="block text-gray-500">
+                Adds a tracking pixel and routes links through a redirect. Image proxies can inflate open counts
+              </span>
+            </label>
+          </div>
+
           <div>
             <label
-              htmlFor="recipients"
+              htmlFor="send_at"
               className="block text-sm font-medium text-gray-700"
             >
-              Recipients
+              Send Later (optional)
             </label>
-            <textarea
-              id="recipients"
-              name="recipients"
-              rows={3}
+            <input
+              type="datetime-local"
+              id="send_at"
+              name="send_at"
               className="mt-1 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
-              placeholder="Enter email addresses separated by commas"
-              value={recipients}
-              onChange={(e) => setRecipients(e.target.value)}
+              value={sendAt}
+              onChange={(e) => setSendAt(e.target.value)}
             />
             <p className="mt-1 text-sm text-gray-500">
-              Separate multiple email addresses with commas
+              Leave empty to send immediately
             </p>
           </div>
 
           <div className="flex space-x-3">
             <button
-              onClick={handlePreview}
-              disabled={loading || !selectedNote || !selectedTemplate}
+              onClick={() => handlePreview()}
+              disabled={loading || !selectedNote || !selectedTemplate || (mode !== "single" && !mergeData?.rows.length)}
               className="flex-1 bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
             >
               {loading ? "Generating..." : "Preview"}
             </button>
             <button
-              onClick={handleSend}
-              disabled={sending || !preview || !recipients.trim() || (needsGmailAuth && needsNylasAuth)}
+              onClick={mode === "single" ? handleSend : handleCampaignSend}
+              disabled={
+                sending ||
+                !preview ||
+                (mode === "single" ? recipients.length === 0 : !mergeData?.rows.length) ||
+                (needsAuth && !senderIdentity)
+              }
               className="flex-1 inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
             >
-              {sending ? "Sending..." : "Send Email"}
+              {sending
+                ? "Sending..."
+                : mode !== "single" && mergeData
+                ? `${sendAt ? "Schedule" : "Send"} ${mergeData.rows.length} Emails`
+                : sendAt
+                ? "Schedule Email"
+                : "Send Email"}
             </button>
           </div>
         </div>
 
         {/* Preview Panel */}
         <div>
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Preview</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Preview</h3>
+            {mode !== "single" && mergeData && preview && (
+              <select
+                className="pl-3 pr-10 py-1 border-gray-300 sm:text-sm rounded-md"
+                value={previewRow}
+                onChange={(e) => handleMergeRowChange(Number(e.target.value))}
+              >
+                {mergeData.rows.map((row, index) => (
+                  <option key={index} value={index}>
+                    Row {index + 1}: {row[emailColumn]}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
           {preview ? (
             <div className="border border-gray-300 rounded-md">
               <div className="bg-gray-50 px-4 py-3 border-b border-gray-300">
                 <div className="text-sm">
                   <strong>From:</strong> {user?.email}
                 </div>
+                {mode !== "single" && mergeData ? (
+                  <div className="text-sm mt-1">
+                    <strong>To:</strong> {mergeData.rows[previewRow]?.[emailColumn]}
+                  </div>
+                ) : (
+                  recipients.length > 0 && (
+                    <div className="text-sm mt-1">
+                      <strong>To:</strong> {recipients.join(", ")}
+                    </div>
+                  )
+                )}
+                {mode === "single" && cc.length > 0 && (
+                  <div className="text-sm mt-1">
+                    <strong>Cc:</strong> {cc.join(", ")}
+                  </div>
+                )}
+                {replyTo.length > 0 && (
+                  <div className="text-sm mt-1">
+                    <strong>Reply-To:</strong> {replyTo[0]}
+                  </div>
+                )}
                 <div className="text-sm mt-1">
                   <strong>Subject:</strong> {preview.subject}
                 </div>
               </div>
+              {preview.missing_variables && preview.missing_variables.length > 0 && (
+                <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-2 text-sm text-yellow-800">
+                  Nothing supplies {preview.missing_variables.join(", ")}. Add them to the note's front matter or
+                  the recipient's fields, or they render empty.
+                </div>
+              )}
               <div className="p-4">
                 <div
                   className="prose max-w-none"
@@ -0,0 +1,513 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Contact, ContactInput, ContactList } from '../types/index.ts';
+import { apiService } from '../services/api.ts';
+
+const emptyForm: ContactInput = { email: '', first_name: '', last_name: '', company: '', fields: {} };
+
+// Custom fields are edited as "key: value" lines
+const fieldsToText = (fields: Record<string, string> = {}) =>
+  Object.entries(fields)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+
+const textToFields = (text: string) => {
+  const fields: Record<string, string> = {};
+  text.split('\n').forEach((line) => {
+    const separator = line.indexOf(':');
+    const key = (separator === -1 ? line : line.slice(0, separator)).trim();
+    if (key) {
+      fields[key] = separator === -1 ? '' : line.slice(separator + 1).trim();
+    }
+  });
+  return fields;
+};
+
+const ContactsPage: React.FC = () => {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [lists, setLists] = useState<ContactList[]>([]);
+  const [selectedList, setSelectedList] = useState<string>('');
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editing, setEditing] = useState<Contact | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ContactInput>(emptyForm);
+  const [fieldsText, setFieldsText] = useState('');
+  const [newListName, setNewListName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadLists();
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadContacts(), 200);
+    return () => clearTimeout(timer);
+  }, [search, selectedList]);
+
+  const loadLists = async () => {
+    try {
+      const response = await apiService.getContactLists();
+      if (response.success && response.data) {
+        setLists(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load contact lists');
+    }
+  };
+
+  const loadContacts = async () => {
+    try {
+      setLoading(true);
+      setSelected([]);
+
+      if (selectedList) {
+        const response = await apiService.getContactList(selectedList);
+        if (response.success && response.data) {
+          const query = search.trim().toLowerCase();
+          setContacts(
+            (response.data.members || []).filter(
+              (contact) =>
+                !query ||
+                [contact.email, contact.first_name, contact.last_name, contact.company].some((value) =>
+                  value?.toLowerCase().includes(query)
+                )
+            )
+          );
+        }
+        return;
+      }
+
+      const response = await apiService.getContacts(search.trim());
+      if (response.success && response.data) {
+        setContacts(response.data.contacts);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load contacts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (contact: Contact | null) => {
+    setEditing(contact);
+    setForm(
+      contact
+        ? {
+            email: contact.email,
+            first_name: contact.first_name || '',
+            last_name: contact.last_name || '',
+            company: contact.company || '',
+          }
+        : emptyForm
+    );
+    setFieldsText(fieldsToText(contact?.fields));
+    setShowForm(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError('');
+      const payload = { ...form, fields: textToFields(fieldsText) };
+      const response = editing
+        ? await apiService.updateContact(editing.id, payload)
+        : await apiService.createContact(payload);
+
+      if (response.success && response.data) {
+        if (!editing && selectedList) {
+          await apiService.addContactsToList(selectedList, [response.data.id]);
+        }
+        setShowForm(false);
+        await Promise.all([loadContacts(), loadLists()]);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save contact');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Are you sure you want to delete this contact?')) {
+      return;
+    }
+
+    try {
+      await apiService.deleteContact(id);
+      setContacts(contacts.filter((contact) => contact.id !== id));
+      loadLists();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete contact');
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      setError('');
+      setSuccess('');
+      const format = /\.(vcf|vcard)$/i.test(file.name) ? 'vcard' : 'csv';
+      const response = await apiService.importContacts(format, await file.text(), selectedList || undefined);
+
+      if (response.success && response.data) {
+        const { created, updated, skipped } = response.data;
+        setSuccess(
+          `Imported ${created} new and ${updated} existing contact(s)${
+            skipped ? `, skipped ${skipped} without a valid email` : ''
+          }`
+        );
+        await Promise.all([loadContacts(), loadLists()]);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to import contacts');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleCreateList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+
+    try {
+      const response = await apiService.createContactList(newListName.trim());
+      if (response.success && response.data) {
+        setNewListName('');
+        setLists([...lists, response.data].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to create list');
+    }
+  };
+
+  const handleDeleteList = async (list: ContactList) => {
+    if (!window.confirm(`Delete the list "${list.name}"? Its contacts are kept.`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteContactList(list.id);
+      setLists(lists.filter((existing) => existing.id !== list.id));
+      if (selectedList === list.id) {
+        setSelectedList('');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete list');
+    }
+  };
+
+  const handleAddToList = async (listId: string) => {
+    if (!listId || selected.length === 0) return;
+
+    try {
+      const response = await apiService.addContactsToList(listId, selected);
+      if (response.success && response.data) {
+        setSuccess(`Added ${response.data.added} contact(s) to the list`);
+        setSelected([]);
+        loadLists();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to add contacts to list');
+    }
+  };
+
+  const handleRemoveFromList = async (contactId: string) => {
+    try {
+      await apiService.removeContactFromList(selectedList, contactId);
+      setContacts(contacts.filter((contact) => contact.id !== contactId));
+      loadLists();
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove contact from list');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter((existing) => existing !== id) : [...selected, id]);
+  };
+
+  return (
+    <div>
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-xl font-semibold text-gray-900">Contacts</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Saved recipients and lists. Contact fields can be used in templates, e.g. {'{{first_name}}'}.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none space-x-3">
+          <button
+            onClick={() => importRef.current?.click()}
+            disabled={importing}
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            {importing ? 'Importing...' : 'Import CSV / vCard'}
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".csv,.vcf,.vcard,text/csv,text/vcard"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => openForm(null)}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Add Contact
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {success}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="mt-6 bg-white shadow rounded-lg p-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div className="sm:col-span-2">
+            <label htmlFor="contact_email" className="block text-sm font-medium text-gray-700">Email</label>
+            <input
+              id="contact_email"
+              type="email"
+              required
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="contact_first_name" className="block text-sm font-medium text-gray-700">First name</label>
+            <input
+              id="contact_first_name"
+              type="text"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.first_name}
+              onChange={(e) => setForm({ ...form, first_name: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="contact_last_name" className="block text-sm font-medium text-gray-700">Last name</label>
+            <input
+              id="contact_last_name"
+              type="text"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.last_name}
+              onChange={(e) => setForm({ ...form, last_name: e.target.value })}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="contact_company" className="block text-sm font-medium text-gray-700">Company</label>
+            <input
+              id="contact_company"
+              type="text"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.company}
+              onChange={(e) => setForm({ ...form, company: e.target.value })}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="contact_fields" className="block text-sm font-medium text-gray-700">
+              Custom fields (one <code>name: value</code> per line)
+            </label>
+            <textarea
+              id="contact_fields"
+              rows={3}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm font-mono"
+              value={fieldsText}
+              onChange={(e) => setFieldsText(e.target.value)}
+            />
+          </div>
+          <div className="sm:col-span-2 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="bg-white py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="py-2 px-4 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              {editing ? 'Save Contact' : 'Create Contact'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="mt-8 grid grid-cols-1 gap-6 lg:grid-cols-4">
+        {/* Lists */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Lists</h3>
+          <ul className="space-y-1">
+            <li>
+              <button
+                onClick={() => setSelectedList('')}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                  selectedList === '' ? 'bg-blue-100 text-blue-900' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                All contacts
+              </button>
+            </li>
+            {lists.map((list) => (
+              <li key={list.id} className="flex items-center">
+                <button
+                  onClick={() => setSelectedList(list.id)}
+                  className={`flex-1 text-left px-3 py-2 rounded-md text-sm ${
+                    selectedList === list.id ? 'bg-blue-100 text-blue-900' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {list.name} <span className="text-gray-400">({list.member_count})</span>
+                </button>
+                <button
+                  onClick={() => handleDeleteList(list)}
+                  className="ml-1 text-gray-400 hover:text-red-600 text-sm"
+                  aria-label={`Delete ${list.name}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleCreateList} className="mt-3 flex">
+            <input
+              type="text"
+              placeholder="New list name"
+              className="flex-1 border-gray-300 rounded-l-md sm:text-sm"
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+            />
+            <button
+              type="submit"
+              className="px-3 border border-l-0 border-gray-300 rounded-r-md text-sm text-gray-700 bg-gray-50 hover:bg-gray-100"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+
+        {/* Contacts */}
+        <div className="lg:col-span-3">
+          <div className="flex items-center space-x-3 mb-3">
+            <input
+              type="search"
+              placeholder="Search contacts"
+              className="flex-1 border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            {selected.length > 0 && lists.length > 0 && (
+              <select
+                className="border-gray-300 rounded-md sm:text-sm"
+                value=""
+                onChange={(e) => handleAddToList(e.target.value)}
+              >
+                <option value="">Add {selected.length} to list...</option>
+                {lists.map((list) => (
+                  <option key={list.id} value={list.id}>
+                    {list.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+            {loading ? (
+              <div className="flex justify-center items-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+              </div>
+            ) : contacts.length === 0 ? (
+              <div className="text-center py-12">
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No contacts</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Add contacts one by one or import a CSV or vCard file.
+                </p>
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-300">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3"></th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Email
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Name
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Company
+                    </th>
+                    <th className="relative px-6 py-3">
+                      <span className="sr-only">Actions</span>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {contacts.map((contact) => (
+                    <tr key={contact.id}>
+                      <td className="px-4 py-4">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          checked={selected.includes(contact.id)}
+                          onChange={() => toggleSelected(contact.id)}
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{contact.email}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {[contact.first_name, contact.last_name].filter(Boolean).join(' ')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{contact.company}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => openForm(contact)}
+                          className="text-blue-600 hover:text-blue-900 mr-4"
+                        >
+                          Edit
+                        </button>
+                        {selectedList && (
+                          <button
+                            onClick={() => handleRemoveFromList(contact.id)}
+                            className="text-gray-600 hover:text-gray-900 mr-4"
+                          >
+                            Remove from list
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(contact.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactsPage;
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ConnectedAccount, InboxMessage } from '../types/index.ts';
+import { apiService } from '../services/api.ts';
+
+const InboxPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [messages, setMessages] = useState<InboxMessage[]>([]);
+  const [mailboxes, setMailboxes] = useState<ConnectedAccount[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadMailboxes();
+  }, []);
+
+  useEffect(() => {
+    loadMessages();
+  }, [unreadOnly, accountId]);
+
+  // Only Nylas mailboxes can be read; the list comes default first
+  const loadMailboxes = async () => {
+    try {
+      const response = await apiService.getAccounts();
+      if (response.success && response.data) {
+        setMailboxes(response.data.filter((account) => account.provider === 'nylas'));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load connected accounts');
+    }
+  };
+
+  const loadMessages = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await apiService.getInboxMessages(25, unreadOnly, accountId || undefined);
+      if (response.success && response.data) {
+        setMessages(response.data.data || []);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load inbox');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveAsNote = async (message: InboxMessage) => {
+    try {
+      setSaving(message.id);
+      setError('');
+      const response = await apiService.createNoteFromEmail(message.id, accountId || undefined);
+      if (response.success && response.data) {
+        navigate(`/notes/${response.data.id}/edit`);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save email as note');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-xl font-semibold text-gray-900">Inbox</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Recent emails from your connected Nylas mailboxes. Save one as a note to edit it and send it on with a template.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex items-center space-x-4">
+          {mailboxes.length > 1 && (
+            <select
+              aria-label="Mailbox"
+              className="pl-3 pr-10 py-2 text-sm border-gray-300 rounded-md"
+              value={accountId || mailboxes[0].id}
+              onChange={(e) => setAccountId(e.target.value)}
+            >
+              {mailboxes.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.email}
+                </option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              checked={unreadOnly}
+              onChange={(e) => setUnreadOnly(e.target.checked)}
+            />
+            Unread only
+          </label>
+          <button
+            onClick={loadMessages}
+            disabled={loading}
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No messages</h3>
+            <p className="mt-1 text-sm text-gray-500">Nothing in the inbox matches.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 bg-white">
+            {messages.map((message) => {
+              const from = message.from?.[0];
+              return (
+                <li key={message.id} className="px-6 py-4 flex items-start justify-between">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center text-sm">
+                      <span className={`truncate ${message.unread ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                        {from ? from.name || from.email : 'Unknown sender'}
+                      </span>
+                      <span className="ml-3 text-xs text-gray-400 whitespace-nowrap">
+                        {new Date(message.date * 1000).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className={`text-sm truncate ${message.unread ? 'font-semibold text-gray-900' : 'text-gray-900'}`}>
+                      {message.subject || '(no subject)'}
+                    </div>
+                    {message.snippet && (
+                      <div className="text-sm text-gray-500 truncate">{message.snippet}</div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleSaveAsNote(message)}
+                    disabled={saving === message.id}
+                    className="ml-4 text-sm font-medium text-blue-600 hover:text-blue-900 whitespace-nowrap disabled:opacity-50"
+                  >
+                    {saving === message.id ? 'Saving...' : 'Save as note'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InboxPage;
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Note } from '../types/index.ts';
+import { EmailTemplate, FrontMatterCheck, NoteSource } from '../types/index.ts';
 import { apiService } from '../services/api.ts';
 
+const FRONT_MATTER_CHECK_DELAY_MS = 400;
+
+// Show a front matter value the way a template would print it
+const formatValue = (value: unknown) => (typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value));
+
 const NoteEditor: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -10,8 +15,12 @@ const NoteEditor: React.FC = () => {
 
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [source, setSource] = useState<NoteSource | undefined>();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [frontMatter, setFrontMatter] = useState<FrontMatterCheck | null>(null);
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [checkTemplate, setCheckTemplate] = useState('');
 
   useEffect(() => {
     if (isEditing && id) {
@@ -19,6 +28,46 @@ const NoteEditor: React.FC = () => {
     }
   }, [id, isEditing]);
 
+  useEffect(() => {
+    apiService
+      .getTemplates()
+      .then((response) => {
+        if (response.success && response.data) {
+          setTemplates(response.data);
+        }
+      })
+      .catch(() => {
+        // Without templates the note can still be edited, just not checked against one
+      });
+  }, []);
+
+  // Check the front matter block, and what the chosen template still lacks, once typing pauses
+  useEffect(() => {
+    if (!content.startsWith('---') && !checkTemplate) {
+      setFrontMatter(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiService.checkFrontMatter(content, checkTemplate || undefined);
+        if (!cancelled && response.success && response.data) {
+          setFrontMatter(response.data);
+        }
+      } catch {
+        // The check is advisory; sending reports an invalid block too
+      }
+    }, FRONT_MATTER_CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [content, checkTemplate]);
+
+  const errorLine = frontMatter?.error?.line ? content.split('\n')[frontMatter.error.line - 1] : undefined;
+
   const loadNote = async (noteId: string) => {
     try {
       setLoading(true);
@@ -26,6 +75,7 @@ const NoteEditor: React.FC = () => {
       if (response.success && response.data) {
         setTitle(response.data.title);
         setContent(response.data.content);
+        setSource(response.data.source);
       }
     } catch (err: any) {
       setError(err.message || 'Failed to load note');
@@ -87,6 +137,15 @@ const NoteEditor: React.FC = () => {
         </div>
       )}
 
+      {source && (
+        <div className="mt-4 bg-gray-50 border border-gray-200 text-gray-700 px-4 py-3 rounded text-sm">
+          Saved from an email
+          {source.from && <> from <span className="font-medium">{source.from.name || source.from.email}</span></>}
+          {source.date && <> received {new Date(source.date).toLocaleString()}</>}
+          {source.subject && <>, originally titled "{source.subject}"</>}
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="mt-6 space-y-6">
         <div>
           <label htmlFor="title" className="block text-sm font-medium text-gray-700">
@@ -115,15 +174,72 @@ const NoteEditor: React.FC = () => {
               id="content"
               name="content"
               rows={20}
-              className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md font-mono"
+              className={`shadow-sm block w-full sm:text-sm rounded-md font-mono ${
+                frontMatter?.error
+                  ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                  : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+              }`}
               placeholder="Enter your note content in Markdown format..."
               value={content}
               onChange={(e) => setContent(e.target.value)}
               required
             />
           </div>
+          {frontMatter?.error && (
+            <div className="mt-2 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+              Front matter error{frontMatter.error.line && <> on line {frontMatter.error.line}</>}: {frontMatter.error.message}
+              {errorLine !== undefined && (
+                <pre className="mt-2 bg-red-100 px-2 py-1 rounded font-mono text-xs whitespace-pre-wrap">
+                  {frontMatter.error.line}: {errorLine}
+                </pre>
+              )}
+            </div>
+          )}
+          {frontMatter && !frontMatter.error && Object.keys(frontMatter.variables).length > 0 && (
+            <div className="mt-2 bg-gray-50 border border-gray-200 px-4 py-3 rounded text-sm text-gray-700">
+              <p className="mb-1">Template variables from the front matter:</p>
+              <ul className="space-y-1">
+                {Object.entries(frontMatter.variables).map(([name, value]) => (
+                  <li key={name}>
+                    <code className="bg-gray-100 px-1 rounded">{`{{${name}}}`}</code> = {formatValue(value)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {frontMatter && !frontMatter.error && frontMatter.missing_variables && frontMatter.missing_variables.length > 0 && (
+            <div className="mt-2 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded text-sm">
+              The template needs variables this note does not set, so they must come from each recipient:{' '}
+              {frontMatter.missing_variables.map((name, index) => (
+                <React.Fragment key={name}>
+                  {index > 0 && ', '}
+                  <code className="bg-yellow-100 px-1 rounded">{`{{${name}}}`}</code>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+          <div className="mt-2 flex items-center space-x-2 text-sm">
+            <label htmlFor="check_template" className="text-gray-700">
+              Check against template
+            </label>
+            <select
+              id="check_template"
+              className="pl-3 pr-10 py-1 border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              value={checkTemplate}
+              onChange={(e) => setCheckTemplate(e.target.value)}
+            >
+              <option value="">None</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </div>
           <p className="mt-2 text-sm text-gray-500">
             You can use Markdown syntax. Variables like {'{'}{'{'} note_title {'}'}{'}'}  and {'{'}{'{'} note_content {'}'}{'}'}  will be available in email templates.
+            Start the note with a YAML block between <code>---</code> lines to set your own, e.g. <code>client: Acme</code>;
+            it is left out of the email.
           </p>
         </div>
 
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { TemplatePartial, TemplatePartialKind } from '../types/index.ts';
+import { apiService } from '../services/api.ts';
+
+interface PartialForm {
+  name: string;
+  kind: TemplatePartialKind;
+  content: string;
+}
+
+const emptyForm: PartialForm = { name: '', kind: 'partial', content: '' };
+
+const contentPlaceholders: Record<TemplatePartialKind, string> = {
+  partial: '<p>Best regards,<br>Your Name</p>',
+  layout: '<div style="max-width: 600px; margin: 0 auto;">\n  {{{body}}}\n  {{> footer}}\n</div>',
+};
+
+const PartialsPage: React.FC = () => {
+  const [partials, setPartials] = useState<TemplatePartial[]>([]);
+  const [editing, setEditing] = useState<TemplatePartial | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<PartialForm>(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadPartials();
+  }, []);
+
+  const loadPartials = async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getPartials();
+      if (response.success && response.data) {
+        setPartials(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load partials');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (partial: TemplatePartial | null) => {
+    setEditing(partial);
+    setForm(partial ? { name: partial.name, kind: partial.kind, content: partial.content } : emptyForm);
+    setShowForm(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError('');
+      if (editing) {
+        await apiService.updatePartial(editing.id, form.content);
+      } else {
+        await apiService.createPartial(form.name, form.kind, form.content);
+      }
+      setShowForm(false);
+      await loadPartials();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save partial');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (partial: TemplatePartial) => {
+    if (!window.confirm(`Delete the ${partial.kind} "${partial.name}"?`)) {
+      return;
+    }
+
+    try {
+      setError('');
+      await apiService.deletePartial(partial.id);
+      setPartials(partials.filter((existing) => existing.id !== partial.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete partial');
+    }
+  };
+
+  return (
+    <div>
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-xl font-semibold text-gray-900">Partials & Layouts</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Blocks shared across templates. Include a partial with {'{{> name}}'}; pick a layout in a template to wrap
+            its body, placed where the layout has {'{{{body}}}'}. Changes apply to every template from the next send.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <button
+            onClick={() => openForm(null)}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+          >
+            Add Partial
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="mt-6 bg-white shadow rounded-lg p-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="partial_name" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              id="partial_name"
+              type="text"
+              required
+              disabled={!!editing}
+              placeholder="footer"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm disabled:bg-gray-100"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="partial_kind" className="block text-sm font-medium text-gray-700">Kind</label>
+            <select
+              id="partial_kind"
+              disabled={!!editing}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm disabled:bg-gray-100"
+              value={form.kind}
+              onChange={(e) => setForm({ ...form, kind: e.target.value as TemplatePartialKind })}
+            >
+              <option value="partial">Partial</option>
+              <option value="layout">Layout</option>
+            </select>
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="partial_content" className="block text-sm font-medium text-gray-700">Content</label>
+            <textarea
+              id="partial_content"
+              rows={12}
+              required
+              placeholder={contentPlaceholders[form.kind]}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm font-mono"
+              value={form.content}
+              onChange={(e) => setForm({ ...form, content: e.target.value })}
+            />
+          </div>
+          <div className="sm:col-span-2 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="bg-white py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="py-2 px-4 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editing ? 'Save Changes' : 'Create'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : partials.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No partials or layouts</h3>
+            <p className="mt-1 text-sm text-gray-500">Add a footer or signature to reuse it across templates.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Kind
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Updated
+                </th>
+                <th className="relative px-6 py-3">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {partials.map((partial) => (
+                <tr key={partial.id}>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-gray-900">{partial.name}</div>
+                    {partial.kind === 'partial' && (
+                      <code className="text-xs text-gray-500">{`{{> ${partial.name}}}`}</code>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <span
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        partial.kind === 'layout' ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'
+                      }`}
+                    >
+                      {partial.kind === 'layout' ? 'Layout' : 'Partial'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(partial.updated_at).toLocaleString()} (v{partial.version})
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                    <button onClick={() => openForm(partial)} className="text-blue-600 hover:text-blue-900">
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(partial)} className="text-red-600 hover:text-red-900">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PartialsPage;
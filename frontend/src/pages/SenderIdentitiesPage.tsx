@@ -0,0 +1,366 @@
+import React, { useState, useEffect } from 'react';
+import { SenderIdentity, SenderIdentityInput, SmtpTlsMode } from '../types/index.ts';
+import { apiService } from '../services/api.ts';
+
+const emptyForm: SenderIdentityInput = {
+  name: '',
+  from_name: '',
+  from_email: '',
+  host: '',
+  port: 587,
+  tls_mode: 'starttls',
+  username: '',
+  password: '',
+};
+
+const tlsModeLabels: Record<SmtpTlsMode, string> = {
+  starttls: 'STARTTLS (usually port 587)',
+  tls: 'TLS (usually port 465)',
+  none: 'None (local test servers)',
+};
+
+const SenderIdentitiesPage: React.FC = () => {
+  const [identities, setIdentities] = useState<SenderIdentity[]>([]);
+  const [editing, setEditing] = useState<SenderIdentity | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<SenderIdentityInput>(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [verifying, setVerifying] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadIdentities();
+  }, []);
+
+  const loadIdentities = async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getSenderIdentities();
+      if (response.success && response.data) {
+        setIdentities(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load sender identities');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (identity: SenderIdentity | null) => {
+    setEditing(identity);
+    setForm(
+      identity
+        ? {
+            name: identity.name,
+            from_name: identity.from_name || '',
+            from_email: identity.from_email,
+            host: identity.host,
+            port: identity.port,
+            tls_mode: identity.tls_mode,
+            username: identity.username || '',
+            password: '',
+          }
+        : emptyForm
+    );
+    setShowForm(true);
+  };
+
+  // Saving tests the connection, so the result is reported either way
+  const reportResult = (identity: SenderIdentity) => {
+    if (identity.verified_at) {
+      setSuccess(`Connected to ${identity.host}. ${identity.name} is ready to send.`);
+    } else {
+      setError(`Could not connect with ${identity.name}: ${identity.last_error || 'unknown error'}`);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError('');
+      setSuccess('');
+      const payload = { ...form, port: Number(form.port) };
+      const response = editing
+        ? await apiService.updateSenderIdentity(editing.id, payload)
+        : await apiService.createSenderIdentity(payload);
+
+      if (response.success && response.data) {
+        reportResult(response.data);
+        setShowForm(false);
+        await loadIdentities();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save sender identity');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVerify = async (identity: SenderIdentity) => {
+    try {
+      setVerifying(identity.id);
+      setError('');
+      setSuccess('');
+      const response = await apiService.verifySenderIdentity(identity.id);
+      if (response.success && response.data) {
+        const verified = response.data;
+        reportResult(verified);
+        setIdentities(identities.map((existing) => (existing.id === verified.id ? verified : existing)));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to verify sender identity');
+    } finally {
+      setVerifying(null);
+    }
+  };
+
+  const handleDelete = async (identity: SenderIdentity) => {
+    if (!window.confirm(`Delete the sender identity "${identity.name}"?`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteSenderIdentity(identity.id);
+      setIdentities(identities.filter((existing) => existing.id !== identity.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete sender identity');
+    }
+  };
+
+  return (
+    <div>
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-xl font-semibold text-gray-900">Sender Identities</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            SMTP servers you can send through instead of your connected account. Each one is checked with a test
+            connection before it can be picked when composing.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <button
+            onClick={() => openForm(null)}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+          >
+            Add Sender
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {success}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="mt-6 bg-white shadow rounded-lg p-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div className="sm:col-span-2">
+            <label htmlFor="sender_name" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              id="sender_name"
+              type="text"
+              required
+              placeholder="Work mailbox"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="sender_from_name" className="block text-sm font-medium text-gray-700">From name</label>
+            <input
+              id="sender_from_name"
+              type="text"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.from_name}
+              onChange={(e) => setForm({ ...form, from_name: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="sender_from_email" className="block text-sm font-medium text-gray-700">From email</label>
+            <input
+              id="sender_from_email"
+              type="email"
+              required
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.from_email}
+              onChange={(e) => setForm({ ...form, from_email: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="sender_host" className="block text-sm font-medium text-gray-700">SMTP host</label>
+            <input
+              id="sender_host"
+              type="text"
+              required
+              placeholder="smtp.example.com"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.host}
+              onChange={(e) => setForm({ ...form, host: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="sender_port" className="block text-sm font-medium text-gray-700">Port</label>
+              <input
+                id="sender_port"
+                type="number"
+                required
+                min={1}
+                max={65535}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+                value={form.port}
+                onChange={(e) => setForm({ ...form, port: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label htmlFor="sender_tls_mode" className="block text-sm font-medium text-gray-700">Encryption</label>
+              <select
+                id="sender_tls_mode"
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+                value={form.tls_mode}
+                onChange={(e) => setForm({ ...form, tls_mode: e.target.value as SmtpTlsMode })}
+              >
+                {(Object.keys(tlsModeLabels) as SmtpTlsMode[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {tlsModeLabels[mode]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="sender_username" className="block text-sm font-medium text-gray-700">Username</label>
+            <input
+              id="sender_username"
+              type="text"
+              autoComplete="off"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.username}
+              onChange={(e) => setForm({ ...form, username: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="sender_password" className="block text-sm font-medium text-gray-700">Password</label>
+            <input
+              id="sender_password"
+              type="password"
+              autoComplete="new-password"
+              placeholder={editing?.has_password ? 'Leave empty to keep the saved password' : ''}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })}
+            />
+          </div>
+          <div className="sm:col-span-2 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="bg-white py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="py-2 px-4 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Testing connection...' : editing ? 'Save Sender' : 'Create Sender'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : identities.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No sender identities</h3>
+            <p className="mt-1 text-sm text-gray-500">Emails are sent through your connected account.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Sender
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Server
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="relative px-6 py-3">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {identities.map((identity) => (
+                <tr key={identity.id}>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-gray-900">{identity.name}</div>
+                    <div className="text-gray-500">
+                      {identity.from_name ? `${identity.from_name} <${identity.from_email}>` : identity.from_email}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {identity.host}:{identity.port} ({identity.tls_mode})
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    {identity.verified_at ? (
+                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                        Verified
+                      </span>
+                    ) : (
+                      <>
+                        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                          Not verified
+                        </span>
+                        {identity.last_error && (
+                          <div className="mt-1 text-xs text-red-600">{identity.last_error}</div>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                    <button
+                      onClick={() => handleVerify(identity)}
+                      disabled={verifying === identity.id}
+                      className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                    >
+                      {verifying === identity.id ? 'Testing...' : 'Test'}
+                    </button>
+                    <button onClick={() => openForm(identity)} className="text-blue-600 hover:text-blue-900">
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(identity)} className="text-red-600 hover:text-red-900">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SenderIdentitiesPage;
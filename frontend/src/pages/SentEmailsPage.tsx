@@ -1,22 +1,194 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { SentEmail } from '../types/index.ts';
+import {
+  SentEmail,
+  EmailAttachment,
+  EmailDeliveryAttempt,
+  EmailEvent,
+  MailTransportInfo,
+  RerenderedEmail,
+  TemplateVersionChoice,
+} from '../types/index.ts';
 import { apiService } from '../services/api.ts';
+import { formatBytes } from '../components/AttachmentDropzone.tsx';
+
+type Tab = 'all' | 'scheduled' | 'dead';
+
+// A partially sent email is retried only for the addresses that did not get it
+const retryableStatuses: SentEmail['status'][] = ['failed', 'dead', 'partial'];
+
+// Only emails that reached a provider can be followed up in the same thread
+const repliableStatuses: SentEmail['status'][] = ['sent', 'partial', 'bounced'];
+
+const formatCountdown = (target: string, now: number) => {
+  const remaining = Math.max(0, new Date(target).getTime() - now);
+  const totalSeconds = Math.floor(remaining / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (remaining === 0) {
+    return 'Sending...';
+  }
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  }
+  return `${hours}h ${minutes}m ${seconds}s`;
+};
+
+const Countdown: React.FC<{ target: string }> = ({ target }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return <span>{formatCountdown(target, now)}</span>;
+};
 
 const SentEmailsPage: React.FC = () => {
   const [emails, setEmails] = useState<SentEmail[]>([]);
+  const [scheduledEmails, setScheduledEmails] = useState<SentEmail[]>([]);
+  const [deadEmails, setDeadEmails] = useState<SentEmail[]>([]);
+  const [activeTab, setActiveTab] = useState<Tab>('all');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [retrying, setRetrying] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<Record<string, EmailDeliveryAttempt[]>>({});
+  const [events, setEvents] = useState<Record<string, EmailEvent[]>>({});
+  const [details, setDetails] = useState<Record<string, SentEmail>>({});
+  const [transports, setTransports] = useState<MailTransportInfo[]>([]);
+  const [retryTransport, setRetryTransport] = useState<Record<string, string>>({});
+  const [threadFilter, setThreadFilter] = useState<string | null>(null);
+  const [syncingReplies, setSyncingReplies] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [rerendered, setRerendered] = useState<Record<string, RerenderedEmail>>({});
+  const [resending, setResending] = useState<string | null>(null);
 
   useEffect(() => {
-    loadSentEmails();
+    loadScheduledEmails();
+    loadDeadEmails();
+    loadTransports();
   }, []);
 
+  useEffect(() => {
+    loadSentEmails();
+  }, [threadFilter]);
+
+  const loadTransports = async () => {
+    try {
+      const response = await apiService.getTransports();
+      if (response.success && response.data) {
+        setTransports(response.data.filter((transport) => transport.available));
+      }
+    } catch (err) {
+      console.error('Failed to load mail transports');
+    }
+  };
+
+  const loadAttempts = async (emailId: string) => {
+    try {
+      const response = await apiService.getDeliveryAttempts(emailId);
+      if (response.success && response.data) {
+        setAttempts((prev) => ({ ...prev, [emailId]: response.data! }));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load delivery attempts');
+    }
+  };
+
+  const loadEvents = async (emailId: string) => {
+    try {
+      const response = await apiService.getEmailEvents(emailId);
+      if (response.success && response.data) {
+        setEvents((prev) => ({ ...prev, [emailId]: response.data! }));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load email events');
+    }
+  };
+
+  const toggleExpanded = async (emailId: string) => {
+    if (expanded === emailId) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(emailId);
+    await Promise.all([loadAttempts(emailId), loadDetails(emailId), loadEvents(emailId)]);
+  };
+
+  const loadDetails = async (emailId: string) => {
+    try {
+      const response = await apiService.getSentEmail(emailId);
+      if (response.success && response.data) {
+        setDetails((prev) => ({ ...prev, [emailId]: response.data! }));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load email details');
+    }
+  };
+
+  const handleDownload = async (attachment: EmailAttachment) => {
+    try {
+      const blob = await apiService.downloadAttachment(attachment.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || 'Failed to download attachment');
+    }
+  };
+
+  const loadDeadEmails = async () => {
+    try {
+      const response = await apiService.getSentEmails(1, 100, 'dead');
+      if (response.success && response.data) {
+        setDeadEmails(response.data.emails);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load dead-lettered emails');
+    }
+  };
+
+  const loadScheduledEmails = async () => {
+    try {
+      const response = await apiService.getScheduledEmails();
+      if (response.success && response.data) {
+        setScheduledEmails(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load scheduled emails');
+    }
+  };
+
+  const handleCancel = async (emailId: string) => {
+    if (!window.confirm('Cancel this scheduled email?')) {
+      return;
+    }
+
+    try {
+      setCancelling(emailId);
+      await apiService.cancelScheduledEmail(emailId);
+      await Promise.all([loadScheduledEmails(), loadSentEmails()]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel email');
+    } finally {
+      setCancelling(null);
+    }
+  };
+
   const loadSentEmails = async () => {
     try {
       setLoading(true);
-      const response = await apiService.getSentEmails();
+      const response = await apiService.getSentEmails(1, 20, undefined, threadFilter || undefined);
       if (response.success && response.data) {
         setEmails(response.data.emails);
       }
@@ -27,13 +199,39 @@ const SentEmailsPage: React.FC = () => {
     }
   };
 
+  const handleSyncReplies = async () => {
+    try {
+      setSyncingReplies(true);
+      setError('');
+      setNotice('');
+      const response = await apiService.syncReplies();
+      if (response.success && response.data) {
+        setNotice(
+          response.data.linked > 0 ? `Found ${response.data.linked} new repl(ies)` : 'No new replies'
+        );
+        await loadSentEmails();
+        if (expanded) {
+          await loadDetails(expanded);
+        }
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to check for replies');
+    } finally {
+      setSyncingReplies(false);
+    }
+  };
+
   const handleRetry = async (emailId: string) => {
     try {
       setRetrying(emailId);
-      const response = await apiService.retryEmail(emailId);
+      // An empty selection reuses the transport of the original attempt
+      const response = await apiService.retryEmail(emailId, retryTransport[emailId] || undefined);
       if (response.success) {
-        // Refresh the list to show updated status
-        await loadSentEmails();
+        // Refresh the lists to show updated status
+        await Promise.all([loadSentEmails(), loadDeadEmails()]);
+        if (expanded === emailId) {
+          await Promise.all([loadAttempts(emailId), loadDetails(emailId)]);
+        }
       }
     } catch (err: any) {
       setError(err.message || 'Failed to retry email');
@@ -42,6 +240,47 @@ const SentEmailsPage: React.FC = () => {
     }
   };
 
+  // Shows what the note renders to now with the chosen template version
+  const handleRerender = async (emailId: string, templateVersion: TemplateVersionChoice) => {
+    try {
+      setError('');
+      const response = await apiService.rerenderSentEmail(emailId, templateVersion);
+      if (response.success && response.data) {
+        setRerendered((prev) => ({ ...prev, [emailId]: response.data! }));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to render email');
+    }
+  };
+
+  const handleResend = async (email: SentEmail, templateVersion: TemplateVersionChoice) => {
+    const which = templateVersion === 'original' ? `the original template version (${email.template_version})` : 'the latest template version';
+    const files = (details[email.id]?.attachments || []).filter((attachment) => !attachment.content_id).length;
+    const carried = files > 0 ? ` Its ${files} attachment(s) will be sent again.` : '';
+    if (!window.confirm(`Send this email again to the same recipients using ${which}?${carried}`)) {
+      return;
+    }
+
+    try {
+      setResending(email.id);
+      setError('');
+      setNotice('');
+      const response = await apiService.resendEmail(email.id, templateVersion);
+      if (response.success && response.data) {
+        const skipped = response.data.skipped_images.length;
+        setNotice(
+          `${response.data.message} (template version ${response.data.template_version})` +
+            (skipped > 0 ? `; ${skipped} image(s) could not be embedded and were left as links` : '')
+        );
+        await loadSentEmails();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to resend email');
+    } finally {
+      setResending(null);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'sent':
@@ -50,18 +289,48 @@ const SentEmailsPage: React.FC = () => {
             Sent
           </span>
         );
+      case 'partial':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+            Partially sent
+          </span>
+        );
+      case 'bounced':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+            Bounced
+          </span>
+        );
       case 'failed':
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
             Failed
           </span>
         );
+      case 'scheduled':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+            Scheduled
+          </span>
+        );
+      case 'dead':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-800 text-white">
+            Dead
+          </span>
+        );
       case 'pending':
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
             Pending
           </span>
         );
+      case 'suppressed':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+            Suppressed
+          </span>
+        );
       default:
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
@@ -71,6 +340,8 @@ const SentEmailsPage: React.FC = () => {
     }
   };
 
+  const listedEmails = activeTab === 'dead' ? deadEmails : emails;
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -88,7 +359,14 @@ const SentEmailsPage: React.FC = () => {
             View and manage your sent emails with idempotency tracking.
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none space-x-3">
+          <button
+            onClick={handleSyncReplies}
+            disabled={syncingReplies}
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            {syncingReplies ? 'Checking...' : 'Check for replies'}
+          </button>
           <Link
             to="/compose"
             className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 sm:w-auto"
@@ -104,11 +382,117 @@ const SentEmailsPage: React.FC = () => {
         </div>
       )}
 
+      <div className="mt-6 border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {([
+            { id: 'all', label: 'All' },
+            { id: 'scheduled', label: `Scheduled (${scheduledEmails.length})` },
+            { id: 'dead', label: `Dead (${deadEmails.length})` },
+          ] as { id: Tab; label: string }[]).map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {notice && (
+        <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {notice}
+        </div>
+      )}
+
+      {threadFilter && activeTab === 'all' && (
+        <div className="mt-4 flex items-center justify-between bg-blue-50 border border-blue-200 text-blue-800 px-4 py-2 rounded text-sm">
+          <span>Showing one conversation</span>
+          <button onClick={() => setThreadFilter(null)} className="font-medium hover:text-blue-900">
+            Show all emails
+          </button>
+        </div>
+      )}
+
       <div className="mt-8 flex flex-col">
         <div className="-my-2 -mx-4 overflow-x-auto sm:-mx-6 lg:-mx-8">
           <div className="inline-block min-w-full py-2 align-middle md:px-6 lg:px-8">
             <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
-              {emails.length === 0 ? (
+              {activeTab === 'scheduled' ? (
+                scheduledEmails.length === 0 ? (
+                  <div className="text-center py-12">
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">No scheduled emails</h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Pick a "Send Later" time when composing to schedule an email.
+                    </p>
+                  </div>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-300">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Subject
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Recipients
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Send At
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Sends In
+                        </th>
+                        <th className="relative px-6 py-3">
+                          <span className="sr-only">Actions</span>
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {scheduledEmails.map((email) => (
+                        <tr key={email.id}>
+                          <td className="px-6 py-4">
+                            <div className="text-sm font-medium text-gray-900 max-w-xs truncate">
+                              {email.subject}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm text-gray-500">
+                              {email.recipients.join(', ')}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {email.send_at && new Date(email.send_at).toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-700">
+                            {email.send_at && <Countdown target={email.send_at} />}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => handleCancel(email.id)}
+                              disabled={cancelling === email.id}
+                              className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                            >
+                              {cancelling === email.id ? 'Cancelling...' : 'Cancel'}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )
+              ) : activeTab === 'dead' && deadEmails.length === 0 ? (
+                <div className="text-center py-12">
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No dead-lettered emails</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Emails land here after exhausting their automatic retries.
+                  </p>
+                </div>
+              ) : listedEmails.length === 0 ? (
                 <div className="text-center py-12">
                   <h3 className="mt-2 text-sm font-medium text-gray-900">No sent emails</h3>
                   <p className="mt-1 text-sm text-gray-500">
@@ -151,68 +535,399 @@ const SentEmailsPage: React.FC = () => {
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {emails.map((email) => (
-                      <tr key={email.id}>
-                        <td className="px-6 py-4">
-                          <div className="text-sm font-medium text-gray-900 max-w-xs truncate">
-                            {email.subject}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="text-sm text-gray-500">
-                            {email.recipients.slice(0, 2).join(', ')}
-                            {email.recipients.length > 2 && (
-                              <span className="text-gray-400">
-                                {' '}+{email.recipients.length - 2} more
-                              </span>
+                    {listedEmails.map((email) => (
+                      <React.Fragment key={email.id}>
+                        <tr>
+                          <td className="px-6 py-4">
+                            <div className="text-sm font-medium text-gray-900 max-w-xs truncate">
+                              {email.in_reply_to_id && <span className="text-gray-400 mr-1">↳</span>}
+                              {email.subject}
+                            </div>
+                            {!!email.reply_count && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                💬 {email.reply_count} {email.reply_count === 1 ? 'reply' : 'replies'}
+                              </div>
                             )}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">
-                            {email.note_title}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">
-                            {email.template_name}
-                            <span className="text-xs text-gray-400 ml-1">
-                              v{email.template_version}
-                            </span>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          {getStatusBadge(email.status)}
-                          {email.error_message && (
-                            <div className="text-xs text-red-600 mt-1 max-w-xs truncate">
-                              {email.error_message}
+                            {!threadFilter && email.thread_size && email.thread_size > 1 && (
+                              <button
+                                onClick={() => {
+                                  setActiveTab('all');
+                                  setThreadFilter(email.thread_id);
+                                }}
+                                className="text-xs text-blue-600 hover:text-blue-900 mt-1"
+                              >
+                                {email.thread_size} in conversation
+                              </button>
+                            )}
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm text-gray-500">
+                              {email.recipients.slice(0, 2).join(', ')}
+                              {email.recipients.length > 2 && (
+                                <span className="text-gray-400">
+                                  {' '}+{email.recipients.length - 2} more
+                                </span>
+                              )}
+                            </div>
+                            {(email.cc?.length > 0 || email.bcc?.length > 0) && (
+                              <div className="text-xs text-gray-400 mt-1">
+                                {email.cc?.length > 0 && `cc ${email.cc.length}`}
+                                {email.cc?.length > 0 && email.bcc?.length > 0 && ' · '}
+                                {email.bcc?.length > 0 && `bcc ${email.bcc.length}`}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-500">
+                              {email.note_title}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-500">
+                              {email.template_name}
+                              <span className="text-xs text-gray-400 ml-1">
+                                v{email.template_version}
+                              </span>
                             </div>
-                          )}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {email.sent_at 
-                            ? new Date(email.sent_at).toLocaleString()
-                            : '-'
-                          }
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                          <Link
-                            to={`/sent/${email.id}`}
-                            className="text-blue-600 hover:text-blue-900 mr-4"
-                          >
-                            View
-                          </Link>
-                          {email.status === 'failed' && (
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {getStatusBadge(email.status)}
+                            {email.error_message && (
+                              <div className="text-xs text-red-600 mt-1 max-w-xs truncate">
+                                {email.error_class && `[${email.error_class}] `}
+                                {email.error_message}
+                              </div>
+                            )}
+                            {email.attempt_count > 1 && (
+                              <div className="text-xs text-gray-400 mt-1">
+                                {email.attempt_count} attempts
+                              </div>
+                            )}
+                            {email.status === 'pending' && email.next_attempt_at && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                Retrying at {new Date(email.next_attempt_at).toLocaleTimeString()}
+                              </div>
+                            )}
+                            {email.track_engagement && (
+                              <div className="text-xs text-blue-700 mt-1">
+                                {email.open_count || 0} opens · {email.click_count || 0} clicks
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {email.sent_at 
+                              ? new Date(email.sent_at).toLocaleString()
+                              : '-'
+                            }
+                            {email.transport && (
+                              <div className="text-xs text-gray-400 mt-1">via {email.transport}</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <Link
+                              to={`/sent/${email.id}`}
+                              className="text-blue-600 hover:text-blue-900 mr-4"
+                            >
+                              View
+                            </Link>
                             <button
-                              onClick={() => handleRetry(email.id)}
-                              disabled={retrying === email.id}
-                              className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                              onClick={() => toggleExpanded(email.id)}
+                              className="text-gray-600 hover:text-gray-900 mr-4"
                             >
-                              {retrying === email.id ? 'Retrying...' : 'Retry'}
+                              {expanded === email.id ? 'Hide' : 'History'}
                             </button>
-                          )}
-                        </td>
-                      </tr>
+                            {repliableStatuses.includes(email.status) && (
+                              <Link
+                                to={`/compose?reply_to=${email.id}`}
+                                className="text-blue-600 hover:text-blue-900 mr-4"
+                              >
+                                Follow up
+                              </Link>
+                            )}
+                            {retryableStatuses.includes(email.status) && (
+                              <button
+                                onClick={() => handleRetry(email.id)}
+                                disabled={retrying === email.id}
+                                className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                              >
+                                {retrying === email.id ? 'Retrying...' : 'Retry'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                        {expanded === email.id && (
+                          <tr>
+                            <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                              <dl className="mb-4 grid grid-cols-1 gap-1 text-sm sm:grid-cols-2">
+                                {(details[email.id]?.sender_from_email || details[email.id]?.account_email) && (
+                                  <div>
+                                    <dt className="inline font-medium text-gray-700">From: </dt>
+                                    <dd className="inline text-gray-600">
+                                      {details[email.id].sender_from_email || details[email.id].account_email}
+                                    </dd>
+                                  </div>
+                                )}
+                                <div>
+                                  <dt className="inline font-medium text-gray-700">To: </dt>
+                                  <dd className="inline text-gray-600">{email.recipients.join(', ')}</dd>
+                                </div>
+                                {email.cc?.length > 0 && (
+                                  <div>
+                                    <dt className="inline font-medium text-gray-700">Cc: </dt>
+                                    <dd className="inline text-gray-600">{email.cc.join(', ')}</dd>
+                                  </div>
+                                )}
+                                {email.bcc?.length > 0 && (
+                                  <div>
+                                    <dt className="inline font-medium text-gray-700">Bcc: </dt>
+                                    <dd className="inline text-gray-600">{email.bcc.join(', ')}</dd>
+                                  </div>
+                                )}
+                                {email.reply_to && (
+                                  <div>
+                                    <dt className="inline font-medium text-gray-700">Reply-To: </dt>
+                                    <dd className="inline text-gray-600">{email.reply_to}</dd>
+                                  </div>
+                                )}
+                                {email.track_engagement && (
+                                  <div>
+                                    <dt className="inline font-medium text-gray-700">Opens: </dt>
+                                    <dd className="inline text-gray-600">
+                                      {email.open_count
+                                        ? `${email.open_count} (first ${new Date(email.first_opened_at!).toLocaleString()}, last ${new Date(email.last_opened_at!).toLocaleString()})`
+                                        : 'none yet'}
+                                    </dd>
+                                  </div>
+                                )}
+                                {email.track_engagement && (
+                                  <div>
+                                    <dt className="inline font-medium text-gray-700">Clicks: </dt>
+                                    <dd className="inline text-gray-600">
+                                      {email.click_count
+                                        ? `${email.click_count} (first ${new Date(email.first_clicked_at!).toLocaleString()}, last ${new Date(email.last_clicked_at!).toLocaleString()})`
+                                        : 'none yet'}
+                                    </dd>
+                                  </div>
+                                )}
+                                {email.suppressed_recipients && email.suppressed_recipients.length > 0 && (
+                                  <div>
+                                    <dt className="inline font-medium text-gray-700">Suppressed: </dt>
+                                    <dd className="inline text-orange-700">{email.suppressed_recipients.join(', ')}</dd>
+                                  </div>
+                                )}
+                              </dl>
+                              {details[email.id]?.recipient_statuses && details[email.id].recipient_statuses!.length > 0 && (
+                                <div className="mb-4">
+                                  <h4 className="text-sm font-medium text-gray-900 mb-2">Recipients</h4>
+                                  <ul className="space-y-1">
+                                    {details[email.id].recipient_statuses!.map((recipient) => (
+                                      <li key={recipient.id} className="text-sm text-gray-700 flex flex-wrap items-center gap-2">
+                                        <span className="uppercase text-xs text-gray-400 w-8">{recipient.kind}</span>
+                                        <span>{recipient.email}</span>
+                                        {getStatusBadge(recipient.status)}
+                                        {recipient.status === 'sent' && recipient.sent_at && (
+                                          <span className="text-gray-500">{new Date(recipient.sent_at).toLocaleString()}</span>
+                                        )}
+                                        {recipient.status !== 'sent' && recipient.error_message && (
+                                          <span className="text-red-600">
+                                            {recipient.error_class}: {recipient.error_message}
+                                          </span>
+                                        )}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
+                              {details[email.id]?.replies && details[email.id].replies!.length > 0 && (
+                                <div className="mb-4">
+                                  <h4 className="text-sm font-medium text-gray-900 mb-2">Replies</h4>
+                                  <ul className="space-y-3">
+                                    {details[email.id].replies!.map((reply) => (
+                                      <li key={reply.id} className="bg-white border border-gray-200 rounded-md p-3">
+                                        <div className="text-sm text-gray-700">
+                                          <span className="font-medium">{reply.from_name || reply.from_email}</span>
+                                          {reply.from_name && reply.from_email && (
+                                            <span className="ml-1 text-gray-500">&lt;{reply.from_email}&gt;</span>
+                                          )}
+                                          <span className="ml-2 text-gray-400">
+                                            {new Date(reply.received_at).toLocaleString()}
+                                          </span>
+                                        </div>
+                                        {reply.subject && <div className="text-sm text-gray-500">{reply.subject}</div>}
+                                        <p className="mt-2 text-sm text-gray-800 whitespace-pre-wrap">
+                                          {reply.body_text || reply.snippet}
+                                        </p>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
+                              {details[email.id]?.attachments && details[email.id].attachments!.length > 0 && (
+                                <div className="mb-4">
+                                  <h4 className="text-sm font-medium text-gray-900 mb-2">Attachments</h4>
+                                  <ul className="space-y-1">
+                                    {details[email.id].attachments!.map((attachment) => (
+                                      <li key={attachment.id} className="text-sm">
+                                        <button
+                                          onClick={() => handleDownload(attachment)}
+                                          className="text-blue-600 hover:text-blue-900"
+                                        >
+                                          📎 {attachment.filename}
+                                        </button>
+                                        {attachment.content_id && <span className="ml-2 text-gray-500">(inline)</span>}
+                                        <span className="ml-2 text-gray-400">{formatBytes(attachment.size_bytes)}</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
+                              <h4 className="text-sm font-medium text-gray-900 mb-2">Delivery Attempts</h4>
+                              {!attempts[email.id] ? (
+                                <p className="text-sm text-gray-500">Loading...</p>
+                              ) : attempts[email.id].length === 0 ? (
+                                <p className="text-sm text-gray-500">No delivery attempts yet.</p>
+                              ) : (
+                                <ol className="space-y-1">
+                                  {attempts[email.id].map((attempt, index) => (
+                                    <li key={attempt.id} className="text-sm text-gray-700">
+                                      <span className="text-gray-400 mr-2">#{index + 1}</span>
+                                      {new Date(attempt.created_at).toLocaleString()}
+                                      <span className="ml-2 text-gray-500">via {attempt.transport || 'none'}</span>
+                                      {attempt.success ? (
+                                        <span className="ml-2 text-green-700">sent ({attempt.provider_message_id})</span>
+                                      ) : (
+                                        <span className="ml-2 text-red-600">
+                                          {attempt.error_class}: {attempt.error_message}
+                                        </span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ol>
+                              )}
+                              {events[email.id] && events[email.id].length > 0 && (
+                                <div className="mt-4">
+                                  <h4 className="text-sm font-medium text-gray-900 mb-2">Delivery Events</h4>
+                                  <ol className="space-y-1">
+                                    {events[email.id].map((event) => (
+                                      <li key={event.id} className="text-sm text-gray-700">
+                                        {new Date(event.occurred_at).toLocaleString()}
+                                        <span
+                                          className={`ml-2 font-medium ${
+                                            event.event_type === 'bounced' || event.event_type === 'complained'
+                                              ? 'text-red-600'
+                                              : event.event_type === 'delivered'
+                                              ? 'text-green-700'
+                                              : event.event_type === 'opened' || event.event_type === 'clicked'
+                                              ? 'text-blue-700'
+                                              : 'text-yellow-700'
+                                          }`}
+                                        >
+                                          {event.bounce_type ? `${event.bounce_type} ` : ''}
+                                          {event.event_type}
+                                        </span>
+                                        {event.email && <span className="ml-2">{event.email}</span>}
+                                        {event.url && (
+                                          <a
+                                            href={event.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="ml-2 text-blue-600 hover:text-blue-900 break-all"
+                                          >
+                                            {event.url}
+                                          </a>
+                                        )}
+                                        {event.description && <span className="ml-2 text-gray-500">{event.description}</span>}
+                                        <span className="ml-2 text-gray-400">via {event.provider}</span>
+                                      </li>
+                                    ))}
+                                  </ol>
+                                </div>
+                              )}
+                              {retryableStatuses.includes(email.status) && (
+                                <div className="mt-3 flex items-center space-x-2">
+                                  <label htmlFor={`transport-${email.id}`} className="text-sm text-gray-700">
+                                    Retry via
+                                  </label>
+                                  <select
+                                    id={`transport-${email.id}`}
+                                    className="pl-3 pr-10 py-1 text-sm border-gray-300 rounded-md"
+                                    value={retryTransport[email.id] || ''}
+                                    onChange={(e) =>
+                                      setRetryTransport((prev) => ({ ...prev, [email.id]: e.target.value }))
+                                    }
+                                  >
+                                    <option value="">
+                                      Original transport{email.transport ? ` (${email.transport})` : ''}
+                                    </option>
+                                    {transports.map((transport) => (
+                                      <option key={transport.name} value={transport.name}>
+                                        {transport.name}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </div>
+                              )}
+                              <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+                                <span className="text-gray-700">Template version {email.template_version}:</span>
+                                <button
+                                  onClick={() => handleRerender(email.id, 'original')}
+                                  className="text-blue-600 hover:text-blue-900"
+                                >
+                                  Preview original
+                                </button>
+                                <button
+                                  onClick={() => handleRerender(email.id, 'latest')}
+                                  className="text-blue-600 hover:text-blue-900"
+                                >
+                                  Preview latest
+                                </button>
+                                <button
+                                  onClick={() => handleResend(email, 'original')}
+                                  disabled={resending === email.id}
+                                  className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                                >
+                                  Resend with original version
+                                </button>
+                                <button
+                                  onClick={() => handleResend(email, 'latest')}
+                                  disabled={resending === email.id}
+                                  className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                                >
+                                  Resend with latest
+                                </button>
+                              </div>
+                              {rerendered[email.id] && (
+                                <div className="mt-3 bg-white border border-gray-200 rounded-md">
+                                  <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 text-sm">
+                                    <span className="text-gray-700">
+                                      <strong>Version {rerendered[email.id].template_version}:</strong>{' '}
+                                      {rerendered[email.id].subject}
+                                    </span>
+                                    <button
+                                      onClick={() =>
+                                        setRerendered((prev) => {
+                                          const { [email.id]: _closed, ...rest } = prev;
+                                          return rest;
+                                        })
+                                      }
+                                      className="text-gray-500 hover:text-gray-700"
+                                    >
+                                      Close
+                                    </button>
+                                  </div>
+                                  <p className="px-3 pt-2 text-xs text-gray-500">
+                                    The note is rendered as it reads now, with the template's current layout.
+                                  </p>
+                                  <div
+                                    className="p-3 prose max-w-none"
+                                    dangerouslySetInnerHTML={{ __html: rerendered[email.id].body_html }}
+                                  />
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
                     ))}
                   </tbody>
                 </table>
@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Suppression } from '../types/index.ts';
+import { apiService } from '../services/api.ts';
+
+const reasonLabels: Record<Suppression['reason'], string> = {
+  unsubscribe: 'Unsubscribed',
+  manual: 'Added manually',
+  import: 'Imported',
+  bounce: 'Hard bounce',
+  complaint: 'Spam complaint',
+};
+
+const SuppressionsPage: React.FC = () => {
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState('');
+  const [newEmail, setNewEmail] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadSuppressions(), 200);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const loadSuppressions = async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getSuppressions(search.trim());
+      if (response.success && response.data) {
+        setSuppressions(response.data.suppressions);
+        setTotal(response.data.total);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load suppression list');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEmail.trim()) return;
+
+    try {
+      setError('');
+      setSuccess('');
+      const response = await apiService.addSuppression(newEmail.trim());
+      if (response.success && response.data) {
+        setSuccess(response.data.added ? `${newEmail.trim()} suppressed` : `${newEmail.trim()} was already suppressed`);
+        setNewEmail('');
+        await loadSuppressions();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to add address');
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      setError('');
+      setSuccess('');
+      const response = await apiService.importSuppressions(await file.text());
+
+      if (response.success && response.data) {
+        const { added, already_suppressed } = response.data;
+        setSuccess(
+          `Suppressed ${added} new address(es)${already_suppressed ? `, ${already_suppressed} already on the list` : ''}`
+        );
+        await loadSuppressions();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to import addresses');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRemove = async (suppression: Suppression) => {
+    if (!window.confirm(`Allow emails to ${suppression.email} again?`)) {
+      return;
+    }
+
+    try {
+      await apiService.removeSuppression(suppression.id);
+      setSuppressions(suppressions.filter((existing) => existing.id !== suppression.id));
+      setTotal(total - 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove address');
+    }
+  };
+
+  return (
+    <div>
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-xl font-semibold text-gray-900">Suppression List</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Addresses here are never emailed. Unsubscribes, hard bounces and spam complaints are added automatically.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <button
+            onClick={() => importRef.current?.click()}
+            disabled={importing}
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            {importing ? 'Importing...' : 'Import CSV / text'}
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+          {success}
+        </div>
+      )}
+
+      <div className="mt-6 flex flex-col sm:flex-row sm:items-center sm:space-x-3 space-y-3 sm:space-y-0">
+        <form onSubmit={handleAdd} className="flex flex-1">
+          <input
+            type="email"
+            placeholder="email@example.com"
+            className="flex-1 border-gray-300 rounded-l-md sm:text-sm"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="px-4 border border-transparent rounded-r-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Suppress
+          </button>
+        </form>
+        <input
+          type="search"
+          placeholder="Search addresses"
+          className="flex-1 border-gray-300 rounded-md shadow-sm sm:text-sm"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : suppressions.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No suppressed addresses</h3>
+            <p className="mt-1 text-sm text-gray-500">Every recipient can currently be emailed.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Added
+                </th>
+                <th className="relative px-6 py-3">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {suppressions.map((suppression) => (
+                <tr key={suppression.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{suppression.email}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {reasonLabels[suppression.reason]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(suppression.created_at).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => handleRemove(suppression)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {total > suppressions.length && (
+        <p className="mt-3 text-sm text-gray-500">
+          Showing {suppressions.length} of {total} addresses. Search to narrow the list.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SuppressionsPage;
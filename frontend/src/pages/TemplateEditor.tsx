@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { EmailTemplate } from '../types/index.ts';
+import { EmailTemplateVersion, TemplateHelperDoc, TemplatePartial, TemplateVersionDiff } from '../types/index.ts';
 import { apiService } from '../services/api.ts';
+import TemplateHistory, { TemplateDiffView } from '../components/TemplateHistory.tsx';
+import HelperReference, { HelperSuggestions, helperPrefixAt } from '../components/TemplateHelpers.tsx';
 
 const TemplateEditor: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -11,12 +13,28 @@ const TemplateEditor: React.FC = () => {
   const [name, setName] = useState('');
   const [subject, setSubject] = useState('');
   const [body, setBody] = useState('');
+  const [trackEngagement, setTrackEngagement] = useState(false);
+  const [layoutId, setLayoutId] = useState('');
+  const [partials, setPartials] = useState<TemplatePartial[]>([]);
+  const [helpers, setHelpers] = useState<TemplateHelperDoc[]>([]);
+  const [helperPrefix, setHelperPrefix] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [versions, setVersions] = useState<EmailTemplateVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<TemplateVersionDiff | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    loadPartials();
+    loadHelpers();
+  }, []);
 
   useEffect(() => {
     if (isEditing && id) {
       loadTemplate(id);
+      loadVersions(id);
     }
   }, [id, isEditing]);
 
@@ -28,6 +46,8 @@ const TemplateEditor: React.FC = () => {
         setName(response.data.name);
         setSubject(response.data.subject);
         setBody(response.data.body);
+        setTrackEngagement(response.data.track_engagement);
+        setLayoutId(response.data.layout_id || '');
       }
     } catch (err: any) {
       setError(err.message || 'Failed to load template');
@@ -36,6 +56,104 @@ const TemplateEditor: React.FC = () => {
     }
   };
 
+  const loadPartials = async () => {
+    try {
+      const response = await apiService.getPartials();
+      if (response.success && response.data) {
+        setPartials(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load partials');
+    }
+  };
+
+  const loadHelpers = async () => {
+    try {
+      const response = await apiService.getTemplateHelpers();
+      if (response.success && response.data) {
+        setHelpers(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load template helpers');
+    }
+  };
+
+  const handleBodyChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    setHelperPrefix(helperPrefixAt(e.target.value, e.target.selectionStart));
+  };
+
+  // Replace the partly typed helper name at the cursor with the picked one
+  const handlePickHelper = (helper: TemplateHelperDoc) => {
+    const textarea = bodyRef.current;
+    if (!textarea || helperPrefix === null) return;
+
+    const cursor = textarea.selectionStart;
+    const start = cursor - helperPrefix.length;
+    const inserted = `${helper.name} `;
+    setBody(body.slice(0, start) + inserted + body.slice(cursor));
+    setHelperPrefix(null);
+
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + inserted.length, start + inserted.length);
+    });
+  };
+
+  const suggestedHelpers = helperPrefix
+    ? helpers.filter((helper) => helper.name.toLowerCase().startsWith(helperPrefix.toLowerCase()))
+    : [];
+
+  const loadVersions = async (templateId: string) => {
+    try {
+      const response = await apiService.getTemplateVersions(templateId);
+      if (response.success && response.data) {
+        setVersions(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load template history');
+    }
+  };
+
+  // Compare the picked version with the saved current one
+  const handleSelectVersion = async (version: number | null) => {
+    setSelectedVersion(version);
+    setDiff(null);
+    if (!version || !id) return;
+
+    try {
+      const response = await apiService.diffTemplateVersions(id, version);
+      if (response.success && response.data) {
+        setDiff(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to compare versions');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!id || !selectedVersion) return;
+    if (!window.confirm(`Restore version ${selectedVersion}? Unsaved changes to the subject and body will be lost.`)) {
+      return;
+    }
+
+    try {
+      setRestoring(true);
+      setError('');
+      const response = await apiService.rollbackTemplate(id, selectedVersion);
+      if (response.success && response.data) {
+        setSubject(response.data.subject);
+        setBody(response.data.body);
+        handleSelectVersion(null);
+        await loadVersions(id);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim() || !subject.trim() || !body.trim()) {
@@ -48,9 +166,9 @@ const TemplateEditor: React.FC = () => {
       setError('');
 
       if (isEditing && id) {
-        await apiService.updateTemplate(id, name, subject, body);
+        await apiService.updateTemplate(id, name, subject, body, trackEngagement, layoutId || undefined);
       } else {
-        await apiService.createTemplate(name, subject, body);
+        await apiService.createTemplate(name, subject, body, trackEngagement, layoutId || undefined);
       }
 
       navigate('/templates');
@@ -89,106 +207,181 @@ const TemplateEditor: React.FC = () => {
         </div>
       )}
 
-      <form onSubmit={handleSubmit} className="mt-6 space-y-6">
-        <div>
-          <label htmlFor="name" className="block text-sm font-medium text-gray-700">
-            Template Name
-          </label>
-          <div className="mt-1">
-            <input
-              type="text"
-              name="name"
-              id="name"
-              className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
-              placeholder="Enter template name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              required
+      <div className="mt-6 lg:grid lg:grid-cols-4 lg:gap-6">
+        <div className="lg:col-span-3">
+          {diff && (
+            <TemplateDiffView
+              diff={diff}
+              restoring={restoring}
+              onRestore={handleRestore}
+              onClose={() => handleSelectVersion(null)}
             />
-          </div>
-        </div>
+          )}
 
-        <div>
-          <label htmlFor="subject" className="block text-sm font-medium text-gray-700">
-            Email Subject
-          </label>
-          <div className="mt-1">
-            <input
-              type="text"
-              name="subject"
-              id="subject"
-              className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
-              placeholder="Enter email subject (supports Handlebars variables)"
-              value={subject}
-              onChange={(e) => setSubject(e.target.value)}
-              required
-            />
-          </div>
-          <p className="mt-1 text-sm text-gray-500">
-            Use {'{'}{'{'} note_title {'}'}{'}'}  or other variables
-          </p>
-        </div>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                Template Name
+              </label>
+              <div className="mt-1">
+                <input
+                  type="text"
+                  name="name"
+                  id="name"
+                  className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  placeholder="Enter template name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
 
-        <div>
-          <label htmlFor="body" className="block text-sm font-medium text-gray-700">
-            Email Body (HTML Template)
-          </label>
-          <div className="mt-1">
-            <textarea
-              id="body"
-              name="body"
-              rows={20}
-              className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md font-mono"
-              placeholder="Enter your email template using HTML and Handlebars syntax..."
-              value={body}
-              onChange={(e) => setBody(e.target.value)}
-              required
-            />
-          </div>
-          <div className="mt-2 text-sm text-gray-500">
-            <p className="mb-2">Available variables:</p>
-            <ul className="list-disc list-inside space-y-1">
-              <li><code className="bg-gray-100 px-1 rounded">{'{{note_title}}'}</code> - Note title</li>
-              <li><code className="bg-gray-100 px-1 rounded">{'{{note_content}}'}</code> - Raw note content</li>
-              <li><code className="bg-gray-100 px-1 rounded">{'{{note_content_html}}'}</code> - Note content as HTML</li>
-              <li><code className="bg-gray-100 px-1 rounded">{'{{today}}'}</code> - Today's date</li>
-              <li><code className="bg-gray-100 px-1 rounded">{'{{current_year}}'}</code> - Current year</li>
-            </ul>
-            <p className="mt-2">Use HTML tags for formatting. Content will be sanitized for security.</p>
-          </div>
-        </div>
+            <div>
+              <label htmlFor="subject" className="block text-sm font-medium text-gray-700">
+                Email Subject
+              </label>
+              <div className="mt-1">
+                <input
+                  type="text"
+                  name="subject"
+                  id="subject"
+                  className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  placeholder="Enter email subject (supports Handlebars variables)"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  required
+                />
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                Use {'{'}{'{'} note_title {'}'}{'}'}  or other variables
+              </p>
+            </div>
 
-        <div className="bg-gray-50 p-4 rounded-md">
-          <h4 className="text-sm font-medium text-gray-900 mb-2">Example Template:</h4>
-          <pre className="text-xs text-gray-600 whitespace-pre-wrap">
-{`<h2>{{note_title}}</h2>
-<p>Hi there,</p>
-<p>I wanted to share this note with you:</p>
-<div style="border-left: 4px solid #3B82F6; padding-left: 16px; margin: 16px 0;">
-  {{{note_content_html}}}
-</div>
-<p>Best regards,<br>Your Name</p>
-<p><small>Sent on {{today}}</small></p>`}
-          </pre>
-        </div>
+            <div>
+              <label htmlFor="body" className="block text-sm font-medium text-gray-700">
+                Email Body (HTML Template)
+              </label>
+              <div className="mt-1">
+                <textarea
+                  ref={bodyRef}
+                  id="body"
+                  name="body"
+                  rows={20}
+                  className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md font-mono"
+                  placeholder="Enter your email template using HTML and Handlebars syntax..."
+                  value={body}
+                  onChange={handleBodyChange}
+                  onBlur={() => setHelperPrefix(null)}
+                  required
+                />
+                {suggestedHelpers.length > 0 && (
+                  <HelperSuggestions helpers={suggestedHelpers} onPick={handlePickHelper} />
+                )}
+              </div>
+              <div className="mt-2 text-sm text-gray-500">
+                <p className="mb-2">Available variables:</p>
+                <ul className="list-disc list-inside space-y-1">
+                  <li><code className="bg-gray-100 px-1 rounded">{'{{note_title}}'}</code> - Note title</li>
+                  <li><code className="bg-gray-100 px-1 rounded">{'{{note_content}}'}</code> - Raw note content</li>
+                  <li><code className="bg-gray-100 px-1 rounded">{'{{note_content_html}}'}</code> - Note content as HTML</li>
+                  <li><code className="bg-gray-100 px-1 rounded">{'{{today}}'}</code> - Today's date</li>
+                  <li><code className="bg-gray-100 px-1 rounded">{'{{current_year}}'}</code> - Current year</li>
+                </ul>
+                {partials.some((partial) => partial.kind === 'partial') && (
+                  <p className="mt-2">
+                    Partials:{' '}
+                    {partials
+                      .filter((partial) => partial.kind === 'partial')
+                      .map((partial) => (
+                        <code key={partial.id} className="bg-gray-100 px-1 rounded mr-1">{`{{> ${partial.name}}}`}</code>
+                      ))}
+                  </p>
+                )}
+                {helpers.length > 0 && <HelperReference helpers={helpers} />}
+                <p className="mt-2">Use HTML tags for formatting. Content will be sanitized for security.</p>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="layout" className="block text-sm font-medium text-gray-700">
+                Layout
+              </label>
+              <select
+                id="layout"
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+                value={layoutId}
+                onChange={(e) => setLayoutId(e.target.value)}
+              >
+                <option value="">No layout</option>
+                {partials
+                  .filter((partial) => partial.kind === 'layout')
+                  .map((layout) => (
+                    <option key={layout.id} value={layout.id}>
+                      {layout.name}
+                    </option>
+                  ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                The body is placed inside the layout. Manage layouts and partials on the Partials page.
+              </p>
+            </div>
+
+            <div className="flex items-start">
+              <input
+                id="track-engagement"
+                type="checkbox"
+                className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                checked={trackEngagement}
+                onChange={(e) => setTrackEngagement(e.target.checked)}
+              />
+              <label htmlFor="track-engagement" className="ml-2 text-sm text-gray-700">
+                Track opens and clicks
+                <span className="block text-gray-500">
+                  Off by default. Adds a tracking pixel and routes links through a redirect; can be changed per send.
+                </span>
+              </label>
+            </div>
 
-        <div className="flex justify-end space-x-3">
-          <button
-            type="button"
-            onClick={handleCancel}
-            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-          >
-            Cancel
-          </button>
-          <button
-            type="submit"
-            disabled={loading}
-            className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
-          >
-            {loading ? 'Saving...' : isEditing ? 'Update Template' : 'Create Template'}
-          </button>
+            <div className="bg-gray-50 p-4 rounded-md">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Example Template:</h4>
+              <pre className="text-xs text-gray-600 whitespace-pre-wrap">
+    {`<h2>{{note_title}}</h2>
+    <p>Hi there,</p>
+    <p>I wanted to share this note with you:</p>
+    <div style="border-left: 4px solid #3B82F6; padding-left: 16px; margin: 16px 0;">
+      {{{note_content_html}}}
+    </div>
+    <p>Best regards,<br>Your Name</p>
+    <p><small>Sent on {{today}}</small></p>`}
+              </pre>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : isEditing ? 'Update Template' : 'Create Template'}
+              </button>
+            </div>
+          </form>
         </div>
-      </form>
+
+        {isEditing && (
+          <aside className="mt-6 lg:mt-0">
+            <TemplateHistory versions={versions} selected={selectedVersion} onSelect={handleSelectVersion} />
+          </aside>
+        )}
+      </div>
     </div>
   );
 };
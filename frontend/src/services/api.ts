@@ -1,4 +1,37 @@
-import { ApiResponse, Note, EmailTemplate, SentEmail, EmailPreview } from '../types';
+import {
+  ApiResponse,
+  Note,
+  FrontMatterCheck,
+  EmailTemplate,
+  EmailTemplateVersion,
+  TemplateVersionDiff,
+  TemplatePartial,
+  TemplatePartialKind,
+  TemplateHelperDoc,
+  SentEmail,
+  SentEmailStatus,
+  SendEmailRequest,
+  EmailDeliveryAttempt,
+  EmailEvent,
+  EmailAttachment,
+  MailTransportInfo,
+  EmailPreview,
+  RerenderedEmail,
+  TemplateVersionChoice,
+  ParsedCsv,
+  MergeRow,
+  BulkSendRequest,
+  Campaign,
+  Contact,
+  ContactInput,
+  ContactList,
+  ContactImportResult,
+  Suppression,
+  SenderIdentity,
+  SenderIdentityInput,
+  ConnectedAccount,
+  InboxMessage,
+} from '../types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
@@ -62,10 +95,6 @@ class ApiService {
     });
   }
 
-  async getGmailStatus() {
-    return this.request<{ has_gmail_auth: boolean }>('/auth/gmail/status');
-  }
-
   // Nylas auth methods
   async getNylasAuthUrl() {
     return this.request<{ auth_url: string }>('/auth/nylas/auth-url');
@@ -78,16 +107,23 @@ class ApiService {
     });
   }
 
-  async getNylasStatus() {
-    return this.request<{ has_nylas_auth: boolean; account_email: string | null }>('/auth/nylas/status');
+  // Connected Gmail and Nylas mailboxes, default first
+  async getAccounts() {
+    return this.request<ConnectedAccount[]>('/accounts');
   }
 
-  async revokeNylasAuth() {
-    return this.request('/auth/nylas/revoke', {
+  async setDefaultAccount(id: string) {
+    return this.request<ConnectedAccount>(`/accounts/${id}/default`, {
       method: 'POST',
     });
   }
 
+  async disconnectAccount(id: string) {
+    return this.request(`/accounts/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Notes endpoints
   async getNotes() {
     return this.request<Note[]>('/notes');
@@ -111,12 +147,33 @@ class ApiService {
     });
   }
 
+  async checkFrontMatter(content: string, templateId?: string) {
+    return this.request<FrontMatterCheck>('/notes/front-matter', {
+      method: 'POST',
+      body: JSON.stringify({ content, template_id: templateId }),
+    });
+  }
+
   async deleteNote(id: string) {
     return this.request(`/notes/${id}`, {
       method: 'DELETE',
     });
   }
 
+  async createNoteFromEmail(messageId: string, accountId?: string) {
+    return this.request<Note>('/notes/from-email', {
+      method: 'POST',
+      body: JSON.stringify({ message_id: messageId, account_id: accountId }),
+    });
+  }
+
+  // Inbox of a connected Nylas mailbox (the main one by default), as returned by Nylas
+  async getInboxMessages(limit = 25, unread = false, accountId?: string) {
+    return this.request<{ data: InboxMessage[]; next_cursor?: string }>(
+      `/emails/messages?limit=${limit}&unread=${unread}${accountId ? `&account_id=${accountId}` : ''}`
+    );
+  }
+
   // Templates endpoints
   async getTemplates() {
     return this.request<EmailTemplate[]>('/templates');
@@ -126,26 +183,56 @@ class ApiService {
     return this.request<EmailTemplate>(`/templates/${id}`);
   }
 
-  async createTemplate(name: string, subject: string, body: string) {
+  async createTemplate(name: string, subject: string, body: string, trackEngagement = false, layoutId?: string) {
     return this.request<EmailTemplate>('/templates', {
       method: 'POST',
-      body: JSON.stringify({ name, subject, body }),
+      body: JSON.stringify({ name, subject, body, track_engagement: trackEngagement, layout_id: layoutId }),
     });
   }
 
-  async updateTemplate(id: string, name: string, subject: string, body: string) {
+  async updateTemplate(
+    id: string,
+    name: string,
+    subject: string,
+    body: string,
+    trackEngagement = false,
+    layoutId?: string
+  ) {
     return this.request<EmailTemplate>(`/templates/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ name, subject, body }),
+      body: JSON.stringify({ name, subject, body, track_engagement: trackEngagement, layout_id: layoutId }),
     });
   }
 
+  async getTemplateHelpers() {
+    return this.request<TemplateHelperDoc[]>('/templates/helpers');
+  }
+
   async deleteTemplate(id: string) {
     return this.request(`/templates/${id}`, {
       method: 'DELETE',
     });
   }
 
+  async getTemplateVersions(id: string) {
+    return this.request<EmailTemplateVersion[]>(`/templates/${id}/versions`);
+  }
+
+  async getTemplateVersion(id: string, version: number) {
+    return this.request<EmailTemplateVersion>(`/templates/${id}/versions/${version}`);
+  }
+
+  async diffTemplateVersions(id: string, from: number, to?: number) {
+    const toParam = to ? `&to=${to}` : '';
+    return this.request<TemplateVersionDiff>(`/templates/${id}/diff?from=${from}${toParam}`);
+  }
+
+  async rollbackTemplate(id: string, version: number) {
+    return this.request<EmailTemplate>(`/templates/${id}/versions/${version}/rollback`, {
+      method: 'POST',
+    });
+  }
+
   async previewTemplate(templateId: string, noteId: string) {
     return this.request<EmailPreview>(`/templates/${templateId}/preview/${noteId}`, {
       method: 'POST',
@@ -153,34 +240,314 @@ class ApiService {
   }
 
   // Email endpoints
-  async sendEmail(noteId: string, templateId: string, recipients: string[], idempotencyKey?: string) {
-    return this.request<{ id: string; status: string; message: string; message_id?: string }>('/emails/send', {
+  async sendEmail(request: SendEmailRequest) {
+    return this.request<{ id: string; status: string; message: string; send_at?: string; skipped_images?: string[]; suppressed_recipients?: string[] }>('/emails/send', {
       method: 'POST',
-      body: JSON.stringify({
-        note_id: noteId,
-        template_id: templateId,
-        recipients,
-        idempotency_key: idempotencyKey,
-      }),
+      body: JSON.stringify(request),
     });
   }
 
-  async getSentEmails(page = 1, limit = 20) {
+  async getSentEmails(page = 1, limit = 20, status?: SentEmail['status'], threadId?: string) {
+    const statusParam = status ? `&status=${status}` : '';
+    const threadParam = threadId ? `&thread_id=${threadId}` : '';
     return this.request<{
       emails: SentEmail[];
       total: number;
       page: number;
       limit: number;
-    }>(`/emails/sent?page=${page}&limit=${limit}`);
+    }>(`/emails/sent?page=${page}&limit=${limit}${statusParam}${threadParam}`);
   }
 
   async getSentEmail(id: string) {
     return this.request<SentEmail>(`/emails/sent/${id}`);
   }
 
-  async retryEmail(id: string) {
-    return this.request<{ id: string; status: string; message: string; message_id?: string }>(`/emails/sent/${id}/retry`, {
+  async getScheduledEmails() {
+    return this.request<SentEmail[]>('/emails/scheduled');
+  }
+
+  async rescheduleEmail(id: string, sendAt: string) {
+    return this.request<SentEmail>(`/emails/scheduled/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ send_at: sendAt }),
+    });
+  }
+
+  async cancelScheduledEmail(id: string) {
+    return this.request<SentEmail>(`/emails/scheduled/${id}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  async getSentEmailStatus(id: string) {
+    return this.request<SentEmailStatus>(`/emails/sent/${id}/status`);
+  }
+
+  // Attachment endpoints
+  async uploadAttachments(files: File[]) {
+    const formData = new FormData();
+    files.forEach((file) => formData.append('files', file));
+
+    // Let the browser set the multipart Content-Type with its boundary
+    const token = localStorage.getItem('token');
+    return this.request<EmailAttachment[]>('/attachments', {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: formData,
+    });
+  }
+
+  async deleteAttachment(id: string) {
+    return this.request(`/attachments/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async downloadAttachment(id: string): Promise<Blob> {
+    const response = await fetch(`${API_BASE_URL}/attachments/${id}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  async getDeliveryAttempts(id: string) {
+    return this.request<EmailDeliveryAttempt[]>(`/emails/sent/${id}/attempts`);
+  }
+
+  async getEmailEvents(id: string) {
+    return this.request<EmailEvent[]>(`/emails/sent/${id}/events`);
+  }
+
+  async getTransports() {
+    return this.request<MailTransportInfo[]>('/emails/transports');
+  }
+
+  async syncReplies() {
+    return this.request<{ fetched: number; linked: number }>('/emails/replies/sync', {
+      method: 'POST',
+    });
+  }
+
+  async retryEmail(id: string, transport?: string) {
+    return this.request<{ id: string; status: string; message: string }>(`/emails/sent/${id}/retry`, {
+      method: 'POST',
+      body: JSON.stringify({ transport }),
+    });
+  }
+
+  async rerenderSentEmail(id: string, templateVersion: TemplateVersionChoice) {
+    return this.request<RerenderedEmail>(`/emails/sent/${id}/rerender?template_version=${templateVersion}`);
+  }
+
+  async resendEmail(id: string, templateVersion: TemplateVersionChoice) {
+    return this.request<{ id: string; status: string; template_version: number; attachments: number; skipped_images: string[]; message: string }>(
+      `/emails/sent/${id}/resend`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ template_version: templateVersion }),
+      }
+    );
+  }
+
+  // Campaign (mail-merge) endpoints
+  async parseCsv(csv: string) {
+    return this.request<ParsedCsv>('/campaigns/parse', {
+      method: 'POST',
+      body: JSON.stringify({ csv }),
+    });
+  }
+
+  async previewCampaignRow(noteId: string, templateId: string, row: MergeRow, columnMap?: Record<string, string>) {
+    return this.request<EmailPreview>('/campaigns/preview', {
+      method: 'POST',
+      body: JSON.stringify({ note_id: noteId, template_id: templateId, row, column_map: columnMap }),
+    });
+  }
+
+  async sendCampaign(request: BulkSendRequest) {
+    return this.request<{ id: string; recipient_count: number; skipped_duplicates: number; suppressed: number; message: string; send_at?: string }>('/campaigns', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async getCampaigns(page = 1, limit = 20) {
+    return this.request<{
+      campaigns: Campaign[];
+      total: number;
+      page: number;
+      limit: number;
+    }>(`/campaigns?page=${page}&limit=${limit}`);
+  }
+
+  async getCampaign(id: string) {
+    return this.request<Campaign>(`/campaigns/${id}`);
+  }
+
+  // Contact endpoints
+  async getContacts(query = '', page = 1, limit = 50) {
+    const queryParam = query ? `&q=${encodeURIComponent(query)}` : '';
+    return this.request<{
+      contacts: Contact[];
+      total: number;
+      page: number;
+      limit: number;
+    }>(`/contacts?page=${page}&limit=${limit}${queryParam}`);
+  }
+
+  async autocompleteContacts(query: string) {
+    return this.request<Contact[]>(`/contacts/autocomplete?q=${encodeURIComponent(query)}`);
+  }
+
+  async createContact(contact: ContactInput) {
+    return this.request<Contact>('/contacts', {
+      method: 'POST',
+      body: JSON.stringify(contact),
+    });
+  }
+
+  async updateContact(id: string, contact: ContactInput) {
+    return this.request<Contact>(`/contacts/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(contact),
+    });
+  }
+
+  async deleteContact(id: string) {
+    return this.request(`/contacts/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async importContacts(format: 'csv' | 'vcard', content: string, listId?: string) {
+    return this.request<ContactImportResult>('/contacts/import', {
       method: 'POST',
+      body: JSON.stringify({ format, content, list_id: listId }),
+    });
+  }
+
+  async getContactLists() {
+    return this.request<ContactList[]>('/contact-lists');
+  }
+
+  async getContactList(id: string) {
+    return this.request<ContactList>(`/contact-lists/${id}`);
+  }
+
+  async createContactList(name: string, description?: string) {
+    return this.request<ContactList>('/contact-lists', {
+      method: 'POST',
+      body: JSON.stringify({ name, description }),
+    });
+  }
+
+  async deleteContactList(id: string) {
+    return this.request(`/contact-lists/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async addContactsToList(listId: string, contactIds: string[]) {
+    return this.request<{ added: number }>(`/contact-lists/${listId}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ contact_ids: contactIds }),
+    });
+  }
+
+  async removeContactFromList(listId: string, contactId: string) {
+    return this.request(`/contact-lists/${listId}/members/${contactId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Suppression list endpoints
+  async getSuppressions(query = '', page = 1, limit = 50) {
+    return this.request<{
+      suppressions: Suppression[];
+      total: number;
+      page: number;
+      limit: number;
+    }>(`/suppressions?q=${encodeURIComponent(query)}&page=${page}&limit=${limit}`);
+  }
+
+  async addSuppression(email: string) {
+    return this.request<{ added: number }>('/suppressions', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async importSuppressions(content: string) {
+    return this.request<{ added: number; already_suppressed: number }>('/suppressions/import', {
+      method: 'POST',
+      body: JSON.stringify({ content }),
+    });
+  }
+
+  async removeSuppression(id: string) {
+    return this.request(`/suppressions/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Sender identity endpoints
+  async getSenderIdentities() {
+    return this.request<SenderIdentity[]>('/sender-identities');
+  }
+
+  async createSenderIdentity(identity: SenderIdentityInput) {
+    return this.request<SenderIdentity>('/sender-identities', {
+      method: 'POST',
+      body: JSON.stringify(identity),
+    });
+  }
+
+  async updateSenderIdentity(id: string, identity: SenderIdentityInput) {
+    return this.request<SenderIdentity>(`/sender-identities/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(identity),
+    });
+  }
+
+  async verifySenderIdentity(id: string) {
+    return this.request<SenderIdentity>(`/sender-identities/${id}/verify`, {
+      method: 'POST',
+    });
+  }
+
+  async deleteSenderIdentity(id: string) {
+    return this.request(`/sender-identities/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Partial and layout endpoints
+  async getPartials(kind?: TemplatePartialKind) {
+    return this.request<TemplatePartial[]>(`/partials${kind ? `?kind=${kind}` : ''}`);
+  }
+
+  async createPartial(name: string, kind: TemplatePartialKind, content: string) {
+    return this.request<TemplatePartial>('/partials', {
+      method: 'POST',
+      body: JSON.stringify({ name, kind, content }),
+    });
+  }
+
+  async updatePartial(id: string, content: string) {
+    return this.request<TemplatePartial>(`/partials/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ content }),
+    });
+  }
+
+  async deletePartial(id: string) {
+    return this.request(`/partials/${id}`, {
+      method: 'DELETE',
     });
   }
 }
@@ -2,7 +2,17 @@ export interface User {
   id: string;
   email: string;
   name: string;
-  has_gmail_auth: boolean;
+}
+
+// A Gmail or Nylas mailbox the user has connected to send from
+export interface ConnectedAccount {
+  id: string;
+  provider: 'gmail' | 'nylas';
+  email: string;
+  is_default: boolean;
+  replies_synced_at?: string;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Note {
@@ -10,10 +20,41 @@ export interface Note {
   user_id: string;
   title: string;
   content: string;
+  source?: NoteSource;
   created_at: string;
   updated_at: string;
 }
 
+export interface FrontMatterError {
+  message: string;
+  line?: number;
+}
+
+// Result of checking a note's front matter while editing
+export interface FrontMatterCheck {
+  variables: Record<string, unknown>;
+  error?: FrontMatterError;
+  missing_variables?: string[];
+}
+
+export interface NoteSource {
+  provider: string;
+  message_id: string;
+  from?: { name?: string; email: string };
+  subject?: string;
+  date?: string;
+}
+
+// A message from the connected Nylas mailbox
+export interface InboxMessage {
+  id: string;
+  subject?: string;
+  snippet?: string;
+  from?: { name?: string; email: string }[];
+  date: number; // Unix seconds
+  unread?: boolean;
+}
+
 export interface EmailTemplate {
   id: string;
   user_id: string;
@@ -23,6 +64,58 @@ export interface EmailTemplate {
   variables: string[];
   version: number;
   is_active: boolean;
+  track_engagement: boolean;
+  layout_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EmailTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  subject: string;
+  body: string;
+  variables: string[];
+  created_at: string;
+  is_current: boolean;
+}
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+  old_line?: number;
+  new_line?: number;
+}
+
+export interface TemplateVersionDiff {
+  template_id: string;
+  from_version: number;
+  to_version: number;
+  subject: DiffLine[];
+  body: DiffLine[];
+  variables: { added: string[]; removed: string[] };
+}
+
+export type TemplateHelperCategory = 'formatting' | 'text' | 'logic' | 'lists';
+
+export interface TemplateHelperDoc {
+  name: string;
+  category: TemplateHelperCategory;
+  signature: string;
+  description: string;
+  example: string;
+}
+
+export type TemplatePartialKind = 'partial' | 'layout';
+
+export interface TemplatePartial {
+  id: string;
+  user_id: string;
+  name: string;
+  kind: TemplatePartialKind;
+  content: string;
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -33,19 +126,257 @@ export interface SentEmail {
   note_id: string;
   template_id: string;
   template_version: number;
+  campaign_id?: string;
+  merge_variables?: Record<string, string>;
   idempotency_key: string;
   recipients: string[];
+  cc: string[];
+  bcc: string[];
+  reply_to?: string;
   subject: string;
   body_html: string;
   body_text?: string;
-  status: 'pending' | 'sent' | 'failed';
+  status: 'scheduled' | 'pending' | 'sent' | 'partial' | 'bounced' | 'failed' | 'dead' | 'cancelled' | 'suppressed';
   error_message?: string;
+  error_class?: 'transient' | 'permanent';
+  attempt_count: number;
+  next_attempt_at?: string;
   provider_message_id?: string;
+  transport?: string;
+  connected_account_id?: string;
+  account_email?: string;
+  sender_identity_id?: string;
+  sender_from_email?: string;
+  send_at?: string;
+  in_reply_to_id?: string;
+  thread_id: string;
+  thread_size?: number;
   sent_at?: string;
   created_at: string;
   updated_at: string;
   note_title?: string;
   template_name?: string;
+  attachments?: EmailAttachment[];
+  suppressed_recipients?: string[];
+  recipient_statuses?: SentEmailRecipient[];
+  replies?: ReceivedReply[];
+  reply_count?: number;
+  track_engagement?: boolean;
+  open_count?: number;
+  first_opened_at?: string;
+  last_opened_at?: string;
+  click_count?: number;
+  first_clicked_at?: string;
+  last_clicked_at?: string;
+}
+
+export interface SentEmailRecipient {
+  id: string;
+  email: string;
+  kind: 'to' | 'cc' | 'bcc';
+  status: 'pending' | 'sent' | 'bounced' | 'failed' | 'dead' | 'suppressed';
+  provider_message_id?: string;
+  error_message?: string;
+  error_class?: 'transient' | 'permanent';
+  sent_at?: string;
+}
+
+export interface EmailAttachment {
+  id: string;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  content_id?: string;
+}
+
+export interface EmailDeliveryAttempt {
+  id: string;
+  sent_email_id: string;
+  transport?: string;
+  success: boolean;
+  provider_message_id?: string;
+  error_message?: string;
+  error_class?: 'transient' | 'permanent';
+  created_at: string;
+}
+
+export interface EmailEvent {
+  id: string;
+  sent_email_id: string;
+  recipient_id?: string;
+  provider: string;
+  event_type: 'delivered' | 'deferred' | 'bounced' | 'complained' | 'opened' | 'clicked';
+  bounce_type?: 'hard' | 'soft';
+  email?: string;
+  url?: string;
+  description?: string;
+  occurred_at: string;
+}
+
+export interface ReceivedReply {
+  id: string;
+  sent_email_id: string;
+  from_email?: string;
+  from_name?: string;
+  subject?: string;
+  snippet?: string;
+  body_text?: string;
+  received_at: string;
+}
+
+export interface MailTransportInfo {
+  name: string;
+  available: boolean;
+}
+
+export interface SendEmailRequest {
+  note_id: string;
+  template_id: string;
+  recipients: string[];
+  cc?: string[];
+  bcc?: string[];
+  reply_to?: string;
+  attachment_ids?: string[];
+  inline_images?: boolean;
+  track_engagement?: boolean;
+  in_reply_to_id?: string;
+  connected_account_id?: string;
+  sender_identity_id?: string;
+  idempotency_key?: string;
+  send_at?: string;
+}
+
+export type MergeRow = Record<string, string>;
+
+export interface ParsedCsv {
+  columns: string[];
+  rows: MergeRow[];
+}
+
+export interface BulkSendRequest {
+  note_id: string;
+  template_id: string;
+  name?: string;
+  rows?: MergeRow[];
+  list_id?: string;
+  email_column?: string;
+  column_map?: Record<string, string>;
+  reply_to?: string;
+  track_engagement?: boolean;
+  connected_account_id?: string;
+  sender_identity_id?: string;
+  idempotency_key?: string;
+  send_at?: string;
+}
+
+export interface Contact {
+  id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  company?: string;
+  fields: Record<string, string>;
+  created_at: string;
+  updated_at: string;
+  lists?: Pick<ContactList, 'id' | 'name'>[];
+}
+
+export interface ContactInput {
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  company?: string;
+  fields?: Record<string, string>;
+}
+
+export interface ContactList {
+  id: string;
+  name: string;
+  description?: string;
+  member_count: number;
+  created_at: string;
+  updated_at: string;
+  members?: Contact[];
+}
+
+export interface ContactImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface Suppression {
+  id: string;
+  user_id: string;
+  email: string;
+  reason: 'unsubscribe' | 'manual' | 'import' | 'bounce' | 'complaint';
+  created_at: string;
+}
+
+export type SmtpTlsMode = 'tls' | 'starttls' | 'none';
+
+export interface SenderIdentity {
+  id: string;
+  name: string;
+  from_name?: string;
+  from_email: string;
+  host: string;
+  port: number;
+  tls_mode: SmtpTlsMode;
+  username?: string;
+  has_password: boolean;
+  verified_at?: string;
+  last_error?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SenderIdentityInput {
+  name: string;
+  from_name?: string;
+  from_email: string;
+  host: string;
+  port: number;
+  tls_mode: SmtpTlsMode;
+  username?: string;
+  password?: string; // Leave empty on update to keep the saved one
+}
+
+export interface Campaign {
+  id: string;
+  note_id: string;
+  template_id: string;
+  contact_list_id?: string;
+  name: string;
+  recipient_count: number;
+  created_at: string;
+  note_title?: string;
+  template_name?: string;
+  status_counts?: Partial<Record<SentEmail['status'], number>>;
+  emails?: Pick<SentEmail, 'id' | 'recipients' | 'subject' | 'status' | 'error_message' | 'sent_at'>[];
+}
+
+export interface SentEmailStatus {
+  id: string;
+  status: SentEmail['status'];
+  error_message?: string;
+  error_class?: SentEmail['error_class'];
+  attempt_count: number;
+  next_attempt_at?: string;
+  provider_message_id?: string;
+  transport?: string;
+  sent_at?: string;
+  updated_at: string;
+}
+
+// Which template version a past email is rendered again with
+export type TemplateVersionChoice = 'original' | 'latest';
+
+export interface RerenderedEmail {
+  template_version: number;
+  subject: string;
+  body_html: string;
+  body_text: string;
 }
 
 export interface EmailPreview {
@@ -53,6 +384,7 @@ export interface EmailPreview {
   body_html: string;
   body_text?: string;
   variables_used: Record<string, any>;
+  missing_variables?: string[];
 }
 
 export interface ApiResponse<T = any> {